@@ -1,4 +1,4 @@
-import React, { useState, useRef, useCallback, useEffect } from 'react';
+import React, { useState, useRef, useCallback, useEffect, useMemo } from 'react';
 import PhysicsCanvas, { PhysicsCanvasRef } from './components/PhysicsCanvas';
 import PhysicsScene3D, { PhysicsCanvas3DRef } from './components/PhysicsCanvas3D';
 import Toolbar from './components/Toolbar';
@@ -6,16 +6,37 @@ import Sidebar from './components/Sidebar';
 import PropertiesPanel from './components/PropertiesPanel';
 import GraphsPanel from './components/GraphsPanel';
 import ExperimentSelector from './components/ExperimentSelector';
+import SceneLibrary from './components/SceneLibrary';
+import SensorLogPanel from './components/SensorLogPanel';
+import TimelineScrubber from './components/TimelineScrubber';
+import { sceneFileFromSnapshot, snapshotFromSceneFile, parseSceneFile, sceneFileName, SceneFileError } from './utils/sceneFile';
+import { downloadText, downloadUrl, slugify } from './utils/download';
+import { ExportFormat, GraphColumn, recordingFileName, recordingToCsv, recordingToJson } from './utils/dataExport';
+import { SYSTEM_SERIES_ID } from './utils/graphSeries';
+import { MAX_SENSOR_LOG } from './utils/sensors';
+import { EmitterProperty } from './utils/emitters';
+import { applyUnitSettings, getUnitSettings } from './utils/units';
+import { getExperimentById } from './data/experiments';
 import { 
   ToolType, 
+  ConstraintType,
   PhysicsObjectDefinition, 
   SceneObject, 
+  SceneConstraint,
+  SceneSnapshot,
+  InstrumentType,
+  SensorReading,
+  UnitSettings,
   PhysicsState, 
   VisualizationSettings,
-  GraphDataPoint 
+  GraphDataPoint,
+  GraphType,
+  TimelineStatus,
+  RecordingSession,
+  GraphSeries
 } from './types';
 import CosmosScene from './components/CosmosCanvas';
-import { BarChart3, Box, Square, Globe, Rocket } from 'lucide-react';
+import { BarChart3, Gauge, Box, Square, Globe, Rocket, X } from 'lucide-react';
 import { Canvas } from '@react-three/fiber';
 
 const defaultVisualization: VisualizationSettings = {
@@ -30,21 +51,48 @@ const defaultVisualization: VisualizationSettings = {
   showTrajectoryPrediction: false
 };
 
+const objectLabel = (obj: SceneObject) =>
+  (obj.customData.label as string | undefined) ?? obj.body?.label ?? obj.definitionId;
+
+interface SettingsBaseline {
+  experimentName: string;
+  gravity: number;
+  timeScale: number;
+  visualization: VisualizationSettings;
+}
+
 const App: React.FC = () => {
   const [appMode, setAppMode] = useState<'lab' | 'cosmos'>('lab');
   const [cosmosView, setCosmosView] = useState<'solar' | 'galaxy'>('solar');
   const [is3D, setIs3D] = useState(true);
   const [currentTool, setCurrentTool] = useState<ToolType>(ToolType.POINTER);
+  const [constraintType, setConstraintType] = useState<ConstraintType>('spring');
   
   const [isPaused, setIsPaused] = useState(false);
   const [gravity, setGravity] = useState(1);
   const [timeScale, setTimeScale] = useState(1);
+  const [units, setUnits] = useState<UnitSettings>(getUnitSettings);
   const [visualization, setVisualization] = useState<VisualizationSettings>(defaultVisualization);
   const [selectedObject, setSelectedObject] = useState<SceneObject | null>(null);
+  const [selectedConstraint, setSelectedConstraint] = useState<SceneConstraint | null>(null);
   const [physicsState, setPhysicsState] = useState<PhysicsState | null>(null);
   const [graphData, setGraphData] = useState<GraphDataPoint[]>([]);
   const [showGraphs, setShowGraphs] = useState(false);
-  const [graphType, setGraphType] = useState<'position' | 'velocity' | 'energy'>('energy');
+  const [graphType, setGraphType] = useState<GraphType>('energy');
+  const [pinnedSeries, setPinnedSeries] = useState<GraphSeries[]>([]);
+  const [seriesData, setSeriesData] = useState<Record<string, GraphDataPoint[]>>({});
+  const [sensorLog, setSensorLog] = useState<SensorReading[]>([]);
+  const [showSensorLog, setShowSensorLog] = useState(false);
+  const [timeline, setTimeline] = useState<TimelineStatus | null>(null);
+  const [isRecording, setIsRecording] = useState(false);
+  // One session per stretch of recording an object while it stays selected, oldest first
+  const [recordings, setRecordings] = useState<RecordingSession[]>([]);
+  // Experiment or scene name, for exported data
+  const [sceneName, setSceneName] = useState<string | null>(null);
+  const [sceneFileErrors, setSceneFileErrors] = useState<string[] | null>(null);
+  // Settings from before the current experiment was loaded, offered back when leaving it
+  const [settingsBaseline, setSettingsBaseline] = useState<SettingsBaseline | null>(null);
+  const [restoreOffer, setRestoreOffer] = useState<SettingsBaseline | null>(null);
   
   const canvasRef = useRef<PhysicsCanvasRef>(null);
   const canvas3DRef = useRef<PhysicsCanvas3DRef>(null);
@@ -62,9 +110,27 @@ const App: React.FC = () => {
       canvasRef.current?.clear();
     }
     setSelectedObject(null);
+    setSelectedConstraint(null);
     setPhysicsState(null);
     setGraphData([]);
-  }, [is3D, appMode]);
+    setSensorLog([]);
+    setRecordings([]);
+    setPinnedSeries([]);
+    setSeriesData({});
+    setSceneName(null);
+    if (settingsBaseline) {
+      setRestoreOffer(settingsBaseline);
+      setSettingsBaseline(null);
+    }
+  }, [is3D, appMode, settingsBaseline]);
+
+  const handleRestoreSettings = useCallback(() => {
+    if (!restoreOffer) return;
+    setGravity(restoreOffer.gravity);
+    setTimeScale(restoreOffer.timeScale);
+    setVisualization(restoreOffer.visualization);
+    setRestoreOffer(null);
+  }, [restoreOffer]);
 
   const handleReset = useCallback(() => {
     if (appMode === 'cosmos') return;
@@ -79,13 +145,57 @@ const App: React.FC = () => {
     canvasRef.current?.stepFrame();
   }, []);
 
+  const handleTimelineSeek = useCallback((index: number) => {
+    setIsPaused(true);
+    canvasRef.current?.seekTimeline(index);
+  }, []);
+
+  const handleTimelineReplay = useCallback((speed: number) => {
+    setIsPaused(true);
+    canvasRef.current?.replayTimeline(speed);
+  }, []);
+
+  const handleTimelineBranch = useCallback(() => {
+    canvasRef.current?.branchTimeline();
+    setIsPaused(false);
+  }, []);
+
+  // Resuming from an earlier frame rewrites history after it
+  const handleTimelineBranched = useCallback((graphTime: number, time: number) => {
+    setGraphData(prev => prev.filter(point => point.time <= graphTime));
+    setSeriesData(prev => Object.fromEntries(Object.entries(prev)
+      .map(([id, points]) => [id, points.filter(point => point.time <= time)])));
+    setRecordings(prev => prev
+      .map(r => ({ ...r, points: r.points.filter(point => point.time <= graphTime) }))
+      .filter(r => r.points.length > 0));
+  }, []);
+
   const handleObjectSelect = useCallback((object: SceneObject | null) => {
     setSelectedObject(object);
-    if (!object) {
-      // Keep graph data or clear?
+    if (object) {
+      setSelectedConstraint(null);
     }
   }, []);
 
+  const handleConstraintSelect = useCallback((constraint: SceneConstraint | null) => {
+    setSelectedConstraint(constraint);
+  }, []);
+
+  const handleEmitterChange = useCallback((property: EmitterProperty, value: number | string) => {
+    canvasRef.current?.modifySelectedEmitter(property, value);
+    setSelectedObject(prev => prev ? { ...prev } : null);
+  }, []);
+
+  const handleConstraintChange = useCallback((property: string, value: number) => {
+    canvasRef.current?.modifySelectedConstraint(property, value);
+    setSelectedConstraint(prev => prev ? { ...prev } : null);
+  }, []);
+
+  const handleDeleteConstraint = useCallback(() => {
+    canvasRef.current?.deleteSelectedConstraint();
+    setSelectedConstraint(null);
+  }, []);
+
   const handlePhysicsUpdate = useCallback((state: PhysicsState | null) => {
     setPhysicsState(state);
   }, []);
@@ -99,14 +209,111 @@ const App: React.FC = () => {
       }
       return newData;
     });
+    
+    // Graph points always belong to the selected object
+    if (!isRecording || !selectedObject) return;
+    setRecordings(prev => {
+      // Graph time restarts when an object is selected again, so that begins a new session
+      const current = prev[prev.length - 1];
+      const lastPoint = current?.points[current.points.length - 1];
+      if (current && current.objectId === selectedObject.id && lastPoint && data.time >= lastPoint.time) {
+        return prev.map(r => r === current ? { ...r, points: [...r.points, data] } : r);
+      }
+      return [...prev, {
+        objectId: selectedObject.id,
+        objectLabel: objectLabel(selectedObject),
+        definitionId: selectedObject.definitionId,
+        sceneName: sceneName ?? 'Untitled scene',
+        gravity,
+        timeScale,
+        startedAt: new Date().toISOString(),
+        points: [data]
+      }];
+    });
+  }, [isRecording, selectedObject, sceneName, gravity, timeScale]);
+
+  const pinnedObjectIds = useMemo(() => pinnedSeries.map(series => series.id), [pinnedSeries]);
+
+  const handleSeriesDataUpdate = useCallback((points: Record<string, GraphDataPoint>) => {
+    setSeriesData(prev => {
+      const maxPoints = 300;
+      const next = { ...prev };
+      Object.entries(points).forEach(([id, point]) => {
+        next[id] = [...(prev[id] ?? []), point].slice(-maxPoints);
+      });
+      return next;
+    });
+  }, []);
+
+  const handlePinSelected = useCallback(() => {
+    if (!selectedObject) return;
+    setPinnedSeries(prev => prev.some(series => series.id === selectedObject.id)
+      ? prev
+      : [...prev, { id: selectedObject.id, label: objectLabel(selectedObject) }]);
+  }, [selectedObject]);
+
+  const handleUnpin = useCallback((id: string) => {
+    setPinnedSeries(prev => prev.filter(series => series.id !== id));
+    setSeriesData(prev => {
+      const next = { ...prev };
+      delete next[id];
+      return next;
+    });
+  }, []);
+
+  const handleToggleSystemSeries = useCallback(() => {
+    if (pinnedSeries.some(series => series.id === SYSTEM_SERIES_ID)) handleUnpin(SYSTEM_SERIES_ID);
+    else setPinnedSeries(prev => [...prev, { id: SYSTEM_SERIES_ID, label: 'System' }]);
+  }, [pinnedSeries, handleUnpin]);
+
+  const exportableRecording = (selectedObject && recordings.filter(r => r.objectId === selectedObject.id).pop())
+    ?? recordings[recordings.length - 1]
+    ?? null;
+
+  const handleExportRecording = useCallback((format: ExportFormat, columns: GraphColumn[]) => {
+    if (!exportableRecording) return;
+    const text = format === 'csv'
+      ? recordingToCsv(exportableRecording, columns)
+      : recordingToJson(exportableRecording, columns);
+    downloadText(recordingFileName(exportableRecording, format), text, format === 'csv' ? 'text/csv' : 'application/json');
+  }, [exportableRecording]);
+
+  const handleUnitsChange = useCallback((next: UnitSettings) => {
+    applyUnitSettings(next);
+    // Recorded points were converted at the old scale, and exports are labelled with the new one
+    if (next.pixelsPerMeter !== units.pixelsPerMeter) {
+      setGraphData([]);
+      setSeriesData({});
+      setRecordings([]);
+    }
+    setUnits(next);
+  }, [units]);
+
+  const handleSensorReading = useCallback((reading: SensorReading) => {
+    setSensorLog(prev => {
+      const next = [...prev, reading];
+      return next.length > MAX_SENSOR_LOG ? next.slice(next.length - MAX_SENSOR_LOG) : next;
+    });
   }, []);
 
   const handlePropertyChange = useCallback((property: string, value: number) => {
     canvasRef.current?.modifySelectedProperty(property, value);
   }, []);
 
-  const handleApplyForce = useCallback(() => {}, []);
-  const handleApplyMaterial = useCallback(() => {}, []);
+  const handleApplyForce = useCallback((fx: number, fy: number, seconds: number) => {
+    if (is3D) {
+      canvas3DRef.current?.applyForceToSelected({ x: fx, y: fy }, seconds);
+    } else {
+      canvasRef.current?.applyForceToSelected({ x: fx, y: fy }, seconds);
+    }
+  }, [is3D]);
+  const handleApplyMaterial = useCallback((materialName: string) => {
+    if (is3D) {
+      canvas3DRef.current?.applyMaterialToSelected(materialName);
+    } else {
+      canvasRef.current?.applyMaterialToSelected(materialName);
+    }
+  }, [is3D]);
 
   const handleResetObject = useCallback(() => {
     if (is3D) {
@@ -130,19 +337,127 @@ const App: React.FC = () => {
     canvasRef.current?.toggleSelectedStatic();
   }, []);
 
+  const handleUndo = useCallback(() => {
+    if (appMode === 'cosmos') return;
+    if (is3D) {
+      canvas3DRef.current?.undo();
+    } else {
+      canvasRef.current?.undo();
+    }
+  }, [is3D, appMode]);
+
+  const handleRedo = useCallback(() => {
+    if (appMode === 'cosmos') return;
+    if (is3D) {
+      canvas3DRef.current?.redo();
+    } else {
+      canvasRef.current?.redo();
+    }
+  }, [is3D, appMode]);
+
   const handleSelectExperiment = useCallback((experimentId: string) => {
+    const experiment = getExperimentById(experimentId);
+    if (!experiment) return;
+    
     if (is3D) {
       canvas3DRef.current?.loadExperiment(experimentId);
     } else {
       canvasRef.current?.loadExperiment(experimentId);
     }
     setSelectedObject(null);
+    setSelectedConstraint(null);
     setPhysicsState(null);
     setGraphData([]);
-  }, [is3D]);
+    setSensorLog([]);
+    setRecordings([]);
+    setPinnedSeries([]);
+    setSeriesData({});
+    setSceneName(experiment.name);
+    
+    // Switching between experiments keeps the settings from before the first one
+    setSettingsBaseline(prev => prev
+      ? { ...prev, experimentName: experiment.name }
+      : { experimentName: experiment.name, gravity, timeScale, visualization });
+    setRestoreOffer(null);
+    
+    const settings = experiment.initialSettings ?? {};
+    setGravity(settings.gravity ?? 1);
+    setTimeScale(settings.timeScale ?? 1);
+    setVisualization(prev => ({
+      ...prev,
+      showVelocityVectors: settings.showVelocityVectors ?? false,
+      showForceVectors: settings.showForceVectors ?? false,
+      showMotionTrails: settings.showMotionTrails ?? false,
+      showTrajectoryPrediction: settings.showTrajectoryPrediction ?? false
+    }));
+  }, [is3D, gravity, timeScale, visualization]);
+
+  const handleAddInstrument = useCallback((type: InstrumentType) => {
+    canvasRef.current?.addInstrument(type);
+    if (!visualization.showMeasurements) {
+      setVisualization(prev => ({ ...prev, showMeasurements: true }));
+    }
+  }, [visualization.showMeasurements]);
+
+  const handleCaptureScene = useCallback(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return null;
+    return { snapshot: canvas.getSceneSnapshot(), thumbnail: canvas.captureThumbnail() };
+  }, []);
+
+  const handleLoadScene = useCallback((snapshot: SceneSnapshot, name: string) => {
+    canvasRef.current?.loadSceneSnapshot(snapshot);
+    setGravity(snapshot.gravity);
+    setTimeScale(snapshot.timeScale);
+    setVisualization({ ...defaultVisualization, ...snapshot.visualization });
+    setSettingsBaseline(null);
+    setRestoreOffer(null);
+    setSelectedObject(null);
+    setSelectedConstraint(null);
+    setPhysicsState(null);
+    setGraphData([]);
+    setSensorLog([]);
+    setRecordings([]);
+    setPinnedSeries([]);
+    setSeriesData({});
+    setSceneName(name);
+  }, []);
+
+  const handleExportFile = useCallback((name: string, snapshot?: SceneSnapshot) => {
+    const source = snapshot ?? canvasRef.current?.getSceneSnapshot();
+    if (!source) return;
+    const file = sceneFileFromSnapshot(source, name);
+    downloadText(sceneFileName(name), JSON.stringify(file, null, 2));
+  }, []);
+
+  const handleExportFreeBody = useCallback(() => {
+    const image = canvasRef.current?.captureFreeBodyDiagram();
+    if (!image) return;
+    const name = selectedObject ? objectLabel(selectedObject) : '';
+    downloadUrl(`free-body-${slugify(name, 'object')}.png`, image);
+  }, [selectedObject]);
+
+  const handleImportFile = useCallback(async (file: File) => {
+    try {
+      const sceneFile = parseSceneFile(await file.text());
+      handleLoadScene(snapshotFromSceneFile(sceneFile, visualization), sceneFile.name);
+      setSceneFileErrors(null);
+    } catch (err) {
+      if (err instanceof SceneFileError) setSceneFileErrors(err.issues);
+      else setSceneFileErrors([err instanceof Error ? err.message : 'The file could not be read.']);
+    }
+  }, [handleLoadScene, visualization]);
 
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'z') {
+        // Sliders keep focus after a drag, so let undo through for them
+        if (e.target instanceof HTMLInputElement && e.target.type !== 'range') return;
+        e.preventDefault();
+        if (e.shiftKey) handleRedo();
+        else handleUndo();
+        return;
+      }
       if (e.target instanceof HTMLInputElement) return;
       
       switch (e.key) {
@@ -150,17 +465,22 @@ const App: React.FC = () => {
         case '2': setCurrentTool(ToolType.CONSTRAINT); break;
         case '3': setCurrentTool(ToolType.PIN); break;
         case '4': setCurrentTool(ToolType.ERASER); break;
+        case '5': setCurrentTool(ToolType.ROTATE); break;
+        case '6': setCurrentTool(ToolType.RESIZE); break;
+        case '7': setCurrentTool(ToolType.SLINGSHOT); break;
         case ' ': e.preventDefault(); setIsPaused(p => !p); break;
         case 'g': case 'G': setShowGraphs(s => !s); break;
+        case 'l': case 'L': setShowSensorLog(s => !s); break;
         case 'Delete': 
           if (selectedObject) handleDeleteObject();
+          else if (selectedConstraint) handleDeleteConstraint();
           break;
       }
     };
     
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [selectedObject, handleDeleteObject]);
+  }, [selectedObject, selectedConstraint, handleDeleteObject, handleDeleteConstraint, handleUndo, handleRedo]);
 
   return (
     <div className="app-container">
@@ -171,6 +491,8 @@ const App: React.FC = () => {
           <Toolbar 
             currentTool={currentTool} 
             setTool={setCurrentTool}
+            constraintType={constraintType}
+            setConstraintType={setConstraintType}
             isPaused={isPaused}
             setIsPaused={setIsPaused}
             onClear={handleClear}
@@ -179,9 +501,12 @@ const App: React.FC = () => {
             setGravity={setGravity}
             timeScale={timeScale}
             setTimeScale={setTimeScale}
+            units={units}
+            setUnits={handleUnitsChange}
             visualization={visualization}
             setVisualization={setVisualization}
             onStepFrame={handleStepFrame}
+            onAddInstrument={is3D ? undefined : handleAddInstrument}
           />
         )}
 
@@ -279,14 +604,51 @@ const App: React.FC = () => {
         </div>
 
         {appMode === 'lab' && (
-          <div style={{ position: 'absolute', top: '75px', left: '50%', transform: 'translateX(-50%)', zIndex: 200 }}>
+          <div style={{ position: 'absolute', top: '75px', left: '50%', transform: 'translateX(-50%)', zIndex: 200, display: 'flex', gap: '8px' }}>
             <ExperimentSelector onSelectExperiment={handleSelectExperiment} />
+            {!is3D && (
+              <SceneLibrary
+                onCaptureScene={handleCaptureScene}
+                onLoadScene={handleLoadScene}
+                onExportFile={handleExportFile}
+                onImportFile={handleImportFile}
+              />
+            )}
+          </div>
+        )}
+
+        {appMode === 'lab' && restoreOffer && (
+          <div className="settings-restore-banner">
+            <span>
+              Restore the gravity, time scale and overlays you had before <strong>{restoreOffer.experimentName}</strong>?
+            </span>
+            <button className="primary" onClick={handleRestoreSettings}>Restore</button>
+            <button onClick={() => setRestoreOffer(null)}>Keep current</button>
+          </div>
+        )}
+
+        {appMode === 'lab' && sceneFileErrors && (
+          <div className="scene-file-errors">
+            <div className="header">
+              Could not import scene file
+              <button onClick={() => setSceneFileErrors(null)} title="Dismiss">
+                <X size={14} />
+              </button>
+            </div>
+            <ul>
+              {sceneFileErrors.map(issue => <li key={issue}>{issue}</li>)}
+            </ul>
           </div>
         )}
 
         {/* SHARED 3D CANVAS */}
         {(appMode === 'cosmos' || is3D) && (
-           <div className="canvas-container" style={{ background: '#070b14', width: '100%', height: '100%', position: 'absolute', top: 0, left: 0 }}>
+           <div
+             className="canvas-container"
+             style={{ background: '#070b14', width: '100%', height: '100%', position: 'absolute', top: 0, left: 0 }}
+             onDragOver={(e) => { e.preventDefault(); e.dataTransfer.dropEffect = 'copy'; }}
+             onDrop={(e) => { e.preventDefault(); canvas3DRef.current?.addObjectFromDrop(e); }}
+           >
               <Canvas shadows>
                   {appMode === 'cosmos' ? (
                        <CosmosScene viewMode={cosmosView} />
@@ -313,25 +675,59 @@ const App: React.FC = () => {
           <PhysicsCanvas 
             ref={canvasRef}
             tool={currentTool}
+            constraintType={constraintType}
             isPaused={isPaused}
             gravityScale={gravity}
+            pixelsPerMeter={units.pixelsPerMeter}
             timeScale={timeScale}
             visualization={visualization}
             selectedObjectId={selectedObject?.id || null}
+            selectedConstraintId={selectedConstraint?.id || null}
             onObjectSelect={handleObjectSelect}
+            onConstraintSelect={handleConstraintSelect}
             onPhysicsUpdate={handlePhysicsUpdate}
             onGraphDataUpdate={handleGraphDataUpdate}
+            pinnedObjectIds={pinnedObjectIds}
+            onSeriesDataUpdate={handleSeriesDataUpdate}
+            onSensorReading={handleSensorReading}
+            onTimelineUpdate={setTimeline}
+            onTimelineBranch={handleTimelineBranched}
+            onFileDrop={handleImportFile}
           />
         )}
 
-        <button
-          onClick={() => setShowGraphs(!showGraphs)}
-          className={`graphs-toggle-btn ${showGraphs ? 'active' : ''}`}
-        >
-          <BarChart3 size={16} />
-          Graphs
-          <kbd>G</kbd>
-        </button>
+        <div className="workspace-toggles">
+          <button
+            onClick={() => setShowGraphs(!showGraphs)}
+            className={`graphs-toggle-btn ${showGraphs ? 'active' : ''}`}
+          >
+            <BarChart3 size={16} />
+            Graphs
+            <kbd>G</kbd>
+          </button>
+
+          {appMode === 'lab' && !is3D && (
+            <button
+              onClick={() => setShowSensorLog(!showSensorLog)}
+              className={`graphs-toggle-btn ${showSensorLog ? 'active' : ''}`}
+            >
+              <Gauge size={16} />
+              Sensors
+              {sensorLog.length > 0 && <span className="count">{sensorLog.length}</span>}
+              <kbd>L</kbd>
+            </button>
+          )}
+        </div>
+
+        {appMode === 'lab' && !is3D && (
+          <TimelineScrubber
+            status={timeline}
+            onSeek={handleTimelineSeek}
+            onReplay={handleTimelineReplay}
+            onStopReplay={() => canvasRef.current?.stopReplay()}
+            onBranch={handleTimelineBranch}
+          />
+        )}
 
         <GraphsPanel
           data={graphData}
@@ -339,6 +735,23 @@ const App: React.FC = () => {
           onClose={() => setShowGraphs(false)}
           graphType={graphType}
           onGraphTypeChange={setGraphType}
+          isRecording={isRecording}
+          recording={exportableRecording}
+          onToggleRecording={() => setIsRecording(r => !r)}
+          onExport={handleExportRecording}
+          pinnedSeries={pinnedSeries}
+          seriesData={seriesData}
+          canPinSelected={!is3D && appMode === 'lab' && !!selectedObject && !pinnedObjectIds.includes(selectedObject.id)}
+          onPinSelected={handlePinSelected}
+          onUnpin={handleUnpin}
+          onToggleSystemSeries={is3D ? undefined : handleToggleSystemSeries}
+        />
+
+        <SensorLogPanel
+          readings={sensorLog}
+          isVisible={showSensorLog && appMode === 'lab' && !is3D}
+          onClose={() => setShowSensorLog(false)}
+          onClear={() => setSensorLog([])}
         />
 
         <div className="workspace-footer">
@@ -348,6 +761,7 @@ const App: React.FC = () => {
 
       <PropertiesPanel
         selectedObject={selectedObject}
+        selectedConstraint={selectedConstraint}
         physicsState={physicsState}
         onPropertyChange={handlePropertyChange}
         onApplyForce={handleApplyForce}
@@ -355,6 +769,10 @@ const App: React.FC = () => {
         onResetObject={handleResetObject}
         onDeleteObject={handleDeleteObject}
         onToggleStatic={handleToggleStatic}
+        onConstraintChange={handleConstraintChange}
+        onDeleteConstraint={handleDeleteConstraint}
+        onEmitterChange={handleEmitterChange}
+        onExportFreeBody={handleExportFreeBody}
       />
     </div>
   );
@@ -0,0 +1,86 @@
+import React from 'react';
+import { Spline, X } from 'lucide-react';
+import { FIT_MODELS, FitModel, FitQuantity, FitResult } from '../utils/curveFit';
+
+interface CurveFitControlsProps {
+  /** The curves on the current graph that can be fitted. */
+  targets: { id: string; label: string }[];
+  target: string;
+  onTargetChange: (id: string) => void;
+  model: FitModel;
+  onModelChange: (model: FitModel) => void;
+  /** Selected x range, or null before one has been dragged out. */
+  range: [number, number] | null;
+  onClearRange: () => void;
+  /** Points inside the range. */
+  pointCount: number;
+  result: FitResult | null;
+}
+
+const formatNumber = (value: number) =>
+  value !== 0 && (Math.abs(value) >= 1e5 || Math.abs(value) < 1e-3) ? value.toExponential(3) : value.toPrecision(4);
+
+const Quantity: React.FC<{ quantity: FitQuantity }> = ({ quantity }) => (
+  <span className="fit-value">
+    {quantity.name} = <b>{formatNumber(quantity.value)}</b>{quantity.unit && ` ${quantity.unit}`}
+  </span>
+);
+
+const CurveFitControls: React.FC<CurveFitControlsProps> = ({
+  targets,
+  target,
+  onTargetChange,
+  model,
+  onModelChange,
+  range,
+  onClearRange,
+  pointCount,
+  result
+}) => (
+  <div className="curve-fit">
+    <div className="curve-fit-controls">
+      <Spline size={12} className="curve-fit-icon" />
+      <select value={target} onChange={(e) => onTargetChange(e.target.value)} disabled={targets.length === 0}>
+        {targets.map(t => <option key={t.id} value={t.id}>{t.label}</option>)}
+      </select>
+      <div className="time-controls">
+        {FIT_MODELS.map(m => (
+          <button
+            key={m.id}
+            onClick={() => onModelChange(m.id)}
+            className={`time-btn ${model === m.id ? 'active' : ''}`}
+            title={m.formula}
+          >
+            {m.label}
+          </button>
+        ))}
+      </div>
+      {range ? (
+        <span className="fit-range">
+          {formatNumber(range[0])} – {formatNumber(range[1])} · {pointCount} pts
+          <button onClick={onClearRange} title="Clear the selected range">
+            <X size={10} />
+          </button>
+        </span>
+      ) : (
+        <span className="fit-range">Drag across the graph to select a range</span>
+      )}
+    </div>
+
+    {range && (
+      <div className="curve-fit-results">
+        {result ? (
+          <>
+            {result.params.map(p => <Quantity key={p.name} quantity={p} />)}
+            <span className="fit-value">R² = <b>{result.r2.toFixed(4)}</b></span>
+            {result.derived.map(d => <Quantity key={d.name} quantity={d} />)}
+          </>
+        ) : (
+          <span className="fit-value">Not enough points in the range for this model</span>
+        )}
+      </div>
+    )}
+  </div>
+);
+
+export default CurveFitControls;
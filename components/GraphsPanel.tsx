@@ -1,39 +1,277 @@
-import React, { useMemo } from 'react';
-import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Area, AreaChart } from 'recharts';
-import { GraphDataPoint } from '../types';
-import { X, TrendingUp, Activity, Zap } from 'lucide-react';
+import React, { useMemo, useState } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Area, AreaChart, ReferenceArea, MouseHandlerDataParam } from 'recharts';
+import { GraphDataPoint, GraphSeries, GraphType, RecordingSession } from '../types';
+import { X, TrendingUp, Activity, Zap, Gauge, MoveUpRight, Circle, Square, Columns3, Download, Layers, Pin, Sigma } from 'lucide-react';
+import { getUnitSettings, unitLabel } from '../utils/units';
+import { DEFAULT_EXPORT_COLUMNS, ExportFormat, GRAPH_COLUMNS, GraphColumn, toDisplayUnits } from '../utils/dataExport';
+import { GraphField, SYSTEM_SERIES_ID, graphFieldLabel, seriesColor } from '../utils/graphSeries';
+import { FitModel, fitCurve } from '../utils/curveFit';
+import CurveFitControls from './CurveFitControls';
 
 interface GraphsPanelProps {
   data: GraphDataPoint[];
   isVisible: boolean;
   onClose: () => void;
-  graphType: 'position' | 'velocity' | 'energy';
-  onGraphTypeChange: (type: 'position' | 'velocity' | 'energy') => void;
+  graphType: GraphType;
+  onGraphTypeChange: (type: GraphType) => void;
+  isRecording: boolean;
+  /** The session an export would save: the selected object's, or the latest one. */
+  recording: RecordingSession | null;
+  onToggleRecording: () => void;
+  onExport: (format: ExportFormat, columns: GraphColumn[]) => void;
+  pinnedSeries: GraphSeries[];
+  /** Recent points of each pinned series, by series id. */
+  seriesData: Record<string, GraphDataPoint[]>;
+  canPinSelected: boolean;
+  onPinSelected: () => void;
+  onUnpin: (id: string) => void;
+  /** Missing where system totals aren't available (the 3D lab). */
+  onToggleSystemSeries?: () => void;
 }
 
+const AXIS_FIELDS: GraphField[] = ['time', ...GRAPH_COLUMNS.map(c => c.key)];
+
+// Curves each tab draws, and so can fit
+const FIT_TARGETS: Record<Exclude<GraphType, 'compare'>, GraphColumn[]> = {
+  position: ['positionX', 'positionY'],
+  velocity: ['speed'],
+  acceleration: ['accelerationX', 'accelerationY'],
+  force: ['netForceX', 'netForceY'],
+  energy: ['potentialEnergy', 'kineticEnergy']
+};
+
+// Samples along a fitted curve drawn over the compare graph
+const FIT_SAMPLES = 80;
+const FIT_COLOR = '#f8fafc';
+
 const GraphsPanel: React.FC<GraphsPanelProps> = ({
   data,
   isVisible,
   onClose,
   graphType,
-  onGraphTypeChange
+  onGraphTypeChange,
+  isRecording,
+  recording,
+  onToggleRecording,
+  onExport,
+  pinnedSeries,
+  seriesData,
+  canPinSelected,
+  onPinSelected,
+  onUnpin,
+  onToggleSystemSeries
 }) => {
+  const [columns, setColumns] = useState<GraphColumn[]>(DEFAULT_EXPORT_COLUMNS);
+  const [showColumns, setShowColumns] = useState(false);
+  const [xField, setXField] = useState<GraphField>('time');
+  const [yField, setYField] = useState<GraphField>('totalEnergy');
+  const [fitModel, setFitModel] = useState<FitModel>('linear');
+  const [fitTarget, setFitTarget] = useState('');
+  const [fitRange, setFitRange] = useState<[number, number] | null>(null);
+  const [dragRange, setDragRange] = useState<[number, number] | null>(null);
+
+  const system = getUnitSettings().system;
+  const displayData = useMemo(() => data.slice(-120).map(toDisplayUnits), [data, system]);
+  const displaySeries = useMemo(() => pinnedSeries.map((series, i) => ({
+    ...series,
+    color: seriesColor(series.id, i),
+    points: (seriesData[series.id] ?? []).map(toDisplayUnits)
+  })), [pinnedSeries, seriesData, system]);
+  const hasSystemSeries = pinnedSeries.some(series => series.id === SYSTEM_SERIES_ID);
+
+  const fitTargets = graphType === 'compare'
+    ? displaySeries.map(series => ({ id: series.id, label: series.label }))
+    : FIT_TARGETS[graphType].map(key => ({ id: key, label: graphFieldLabel(key) }));
+  const target = fitTargets.some(t => t.id === fitTarget) ? fitTarget : fitTargets[0]?.id ?? '';
+  const fitX: GraphField = graphType === 'compare' ? xField : 'time';
+  const fitY = (graphType === 'compare' ? yField : target) as GraphField;
+  const fitSource = graphType === 'compare' ? displaySeries.find(series => series.id === target)?.points ?? [] : displayData;
+
+  const fitPoints = useMemo(() => {
+    if (!fitRange || !target) return [];
+    return fitSource
+      .map(point => ({ x: point[fitX], y: point[fitY] }))
+      .filter((p): p is { x: number; y: number } =>
+        p.x !== undefined && p.y !== undefined && p.x >= fitRange[0] && p.x <= fitRange[1])
+      .sort((a, b) => a.x - b.x);
+  }, [fitSource, fitRange, fitX, fitY, target]);
+  const fit = useMemo(
+    () => fitCurve(fitModel, fitPoints.map(p => p.x), fitPoints.map(p => p.y), fitX, fitY),
+    [fitPoints, fitModel, fitX, fitY]
+  );
   if (!isVisible) return null;
 
-  const displayData = useMemo(() => data.slice(-120), [data]);
+  const toggleColumn = (key: GraphColumn) => {
+    setColumns(prev => prev.includes(key) ? prev.filter(c => c !== key) : [...prev, key]);
+  };
+
+  // The standard tabs share one category axis, so the fit rides along as an extra column
+  const chartData = fit && fitRange
+    ? displayData.map(point => ({
+        ...point,
+        fit: point.time >= fitRange[0] && point.time <= fitRange[1] ? fit.predict(point.time) : undefined
+      }))
+    : displayData;
+  const fitCurvePoints = fit && fitRange
+    ? Array.from({ length: FIT_SAMPLES + 1 }, (_, i) => {
+        const x = fitRange[0] + (fitRange[1] - fitRange[0]) * i / FIT_SAMPLES;
+        return { [xField]: x, fit: fit.predict(x) };
+      })
+    : [];
+
+  const clearFit = () => {
+    setFitRange(null);
+    setDragRange(null);
+  };
+
+  const labelOf = (state: MouseHandlerDataParam) => {
+    const value = Number(state.activeLabel);
+    return state.activeLabel !== undefined && Number.isFinite(value) ? value : null;
+  };
+
+  // Dragging across any graph selects the x range to fit
+  const selectionHandlers = {
+    onMouseDown: (state: MouseHandlerDataParam) => {
+      const x = labelOf(state);
+      if (x !== null) setDragRange([x, x]);
+    },
+    onMouseMove: (state: MouseHandlerDataParam) => {
+      const x = labelOf(state);
+      if (dragRange && x !== null) setDragRange([dragRange[0], x]);
+    },
+    onMouseUp: () => {
+      if (dragRange && dragRange[0] !== dragRange[1]) {
+        setFitRange([Math.min(...dragRange), Math.max(...dragRange)]);
+      }
+      setDragRange(null);
+    },
+    onMouseLeave: () => setDragRange(null)
+  };
+
+  const shownRange = dragRange ?? fitRange;
+  const selectionArea = shownRange && (
+    <ReferenceArea x1={shownRange[0]} x2={shownRange[1]} fill="#8b5cf6" fillOpacity={0.12} ifOverflow="hidden" />
+  );
+  const fitLine = fit && (
+    <Line
+      type="linear"
+      dataKey="fit"
+      stroke={FIT_COLOR}
+      strokeWidth={1.5}
+      strokeDasharray="5 4"
+      dot={false}
+      isAnimationActive={false}
+      name="Fit"
+    />
+  );
+
+  const renderCompareGraph = () => (
+    <>
+      <div className="compare-controls">
+        <label>
+          X
+          <select value={xField} onChange={(e) => { setXField(e.target.value as GraphField); clearFit(); }}>
+            {AXIS_FIELDS.map(field => <option key={field} value={field}>{graphFieldLabel(field)}</option>)}
+          </select>
+        </label>
+        <label>
+          Y
+          <select value={yField} onChange={(e) => setYField(e.target.value as GraphField)}>
+            {AXIS_FIELDS.map(field => <option key={field} value={field}>{graphFieldLabel(field)}</option>)}
+          </select>
+        </label>
+        <button onClick={onPinSelected} disabled={!canPinSelected} className="time-btn" title="Pin the selected object">
+          <Pin size={12} />
+        </button>
+        {onToggleSystemSeries && (
+          <button
+            onClick={onToggleSystemSeries}
+            className={`time-btn ${hasSystemSeries ? 'active' : ''}`}
+            title="System totals: centre of mass, total momentum and energy"
+          >
+            <Sigma size={12} />
+          </button>
+        )}
+      </div>
+
+      <div className="compare-series">
+        {displaySeries.map(series => (
+          <span key={series.id} className="series-chip" style={{ borderColor: series.color }}>
+            <i style={{ background: series.color }} />
+            {series.label}
+            <button onClick={() => onUnpin(series.id)} title="Unpin">
+              <X size={10} />
+            </button>
+          </span>
+        ))}
+      </div>
+
+      {displaySeries.length > 0 ? (
+        <ResponsiveContainer width="100%" height={150}>
+          <LineChart {...selectionHandlers}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#1e293b" />
+            <XAxis
+              type="number"
+              dataKey={xField}
+              domain={['auto', 'auto']}
+              stroke="#475569"
+              fontSize={10}
+              tickFormatter={(v: number) => xField === 'time' ? `${v.toFixed(1)}s` : v.toFixed(2)}
+            />
+            <YAxis stroke="#475569" fontSize={10} />
+            <Tooltip contentStyle={{ background: '#0f172a', border: '1px solid #334155', borderRadius: '8px', fontSize: '11px' }} />
+            {/* Points stay in time order, so x-vs-y phase plots trace the motion */}
+            {displaySeries.map(series => (
+              <Line
+                key={series.id}
+                data={series.points}
+                type="linear"
+                dataKey={yField}
+                stroke={series.color}
+                strokeWidth={2}
+                dot={false}
+                isAnimationActive={false}
+                name={`${series.label} · ${graphFieldLabel(yField)}`}
+              />
+            ))}
+            {selectionArea}
+            {fit && (
+              <Line
+                data={fitCurvePoints}
+                type="linear"
+                dataKey="fit"
+                stroke={FIT_COLOR}
+                strokeWidth={1.5}
+                strokeDasharray="5 4"
+                dot={false}
+                isAnimationActive={false}
+                name="Fit"
+              />
+            )}
+          </LineChart>
+        </ResponsiveContainer>
+      ) : (
+        <div style={{ height: '150px', display: 'flex', alignItems: 'center', justifyContent: 'center', color: '#64748b', fontSize: '13px' }}>
+          Pin objects or the system totals to compare them
+        </div>
+      )}
+    </>
+  );
 
   const renderGraph = () => {
     switch (graphType) {
       case 'position':
         return (
           <ResponsiveContainer width="100%" height={150}>
-            <LineChart data={displayData}>
+            <LineChart data={chartData} {...selectionHandlers}>
               <CartesianGrid strokeDasharray="3 3" stroke="#1e293b" />
               <XAxis dataKey="time" stroke="#475569" fontSize={10} tickFormatter={(v) => `${v.toFixed(1)}s`} />
               <YAxis stroke="#475569" fontSize={10} />
               <Tooltip contentStyle={{ background: '#0f172a', border: '1px solid #334155', borderRadius: '8px', fontSize: '11px' }} />
-              <Line type="monotone" dataKey="positionX" stroke="#3b82f6" strokeWidth={2} dot={false} name="X" />
-              <Line type="monotone" dataKey="positionY" stroke="#22c55e" strokeWidth={2} dot={false} name="Y" />
+              <Line type="monotone" dataKey="positionX" stroke="#3b82f6" strokeWidth={2} dot={false} name={`X (${unitLabel('length')})`} />
+              <Line type="monotone" dataKey="positionY" stroke="#22c55e" strokeWidth={2} dot={false} name={`Y (${unitLabel('length')})`} />
+              {selectionArea}
+              {fitLine}
             </LineChart>
           </ResponsiveContainer>
         );
@@ -41,26 +279,62 @@ const GraphsPanel: React.FC<GraphsPanelProps> = ({
       case 'velocity':
         return (
           <ResponsiveContainer width="100%" height={150}>
-            <AreaChart data={displayData}>
+            <AreaChart data={chartData} {...selectionHandlers}>
               <CartesianGrid strokeDasharray="3 3" stroke="#1e293b" />
               <XAxis dataKey="time" stroke="#475569" fontSize={10} tickFormatter={(v) => `${v.toFixed(1)}s`} />
               <YAxis stroke="#475569" fontSize={10} />
               <Tooltip contentStyle={{ background: '#0f172a', border: '1px solid #334155', borderRadius: '8px', fontSize: '11px' }} />
-              <Area type="monotone" dataKey="speed" stroke="#f59e0b" fill="#f59e0b" fillOpacity={0.2} strokeWidth={2} name="Speed" />
+              <Area type="monotone" dataKey="speed" stroke="#f59e0b" fill="#f59e0b" fillOpacity={0.2} strokeWidth={2} name={`Speed (${unitLabel('velocity')})`} />
+              {selectionArea}
+              {fitLine}
             </AreaChart>
           </ResponsiveContainer>
         );
       
+      case 'acceleration':
+        return (
+          <ResponsiveContainer width="100%" height={150}>
+            <LineChart data={chartData} {...selectionHandlers}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#1e293b" />
+              <XAxis dataKey="time" stroke="#475569" fontSize={10} tickFormatter={(v) => `${v.toFixed(1)}s`} />
+              <YAxis stroke="#475569" fontSize={10} />
+              <Tooltip contentStyle={{ background: '#0f172a', border: '1px solid #334155', borderRadius: '8px', fontSize: '11px' }} />
+              <Line type="monotone" dataKey="accelerationX" stroke="#3b82f6" strokeWidth={2} dot={false} name={`aX (${unitLabel('acceleration')})`} />
+              <Line type="monotone" dataKey="accelerationY" stroke="#22c55e" strokeWidth={2} dot={false} name={`aY (${unitLabel('acceleration')})`} />
+              {selectionArea}
+              {fitLine}
+            </LineChart>
+          </ResponsiveContainer>
+        );
+      
+      case 'force':
+        return (
+          <ResponsiveContainer width="100%" height={150}>
+            <LineChart data={chartData} {...selectionHandlers}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#1e293b" />
+              <XAxis dataKey="time" stroke="#475569" fontSize={10} tickFormatter={(v) => `${v.toFixed(1)}s`} />
+              <YAxis stroke="#475569" fontSize={10} />
+              <Tooltip contentStyle={{ background: '#0f172a', border: '1px solid #334155', borderRadius: '8px', fontSize: '11px' }} />
+              <Line type="monotone" dataKey="netForceX" stroke="#f97316" strokeWidth={2} dot={false} name={`Net Fx (${unitLabel('force')})`} />
+              <Line type="monotone" dataKey="netForceY" stroke="#a855f7" strokeWidth={2} dot={false} name={`Net Fy (${unitLabel('force')})`} />
+              {selectionArea}
+              {fitLine}
+            </LineChart>
+          </ResponsiveContainer>
+        );
+      
       case 'energy':
         return (
           <ResponsiveContainer width="100%" height={150}>
-            <AreaChart data={displayData}>
+            <AreaChart data={chartData} {...selectionHandlers}>
               <CartesianGrid strokeDasharray="3 3" stroke="#1e293b" />
               <XAxis dataKey="time" stroke="#475569" fontSize={10} tickFormatter={(v) => `${v.toFixed(1)}s`} />
               <YAxis stroke="#475569" fontSize={10} />
               <Tooltip contentStyle={{ background: '#0f172a', border: '1px solid #334155', borderRadius: '8px', fontSize: '11px' }} />
-              <Area type="monotone" dataKey="potentialEnergy" stroke="#3b82f6" fill="#3b82f6" fillOpacity={0.3} strokeWidth={2} stackId="1" name="PE" />
-              <Area type="monotone" dataKey="kineticEnergy" stroke="#ef4444" fill="#ef4444" fillOpacity={0.3} strokeWidth={2} stackId="1" name="KE" />
+              <Area type="monotone" dataKey="potentialEnergy" stroke="#3b82f6" fill="#3b82f6" fillOpacity={0.3} strokeWidth={2} stackId="1" name={`PE (${unitLabel('energy')})`} />
+              <Area type="monotone" dataKey="kineticEnergy" stroke="#ef4444" fill="#ef4444" fillOpacity={0.3} strokeWidth={2} stackId="1" name={`KE (${unitLabel('energy')})`} />
+              {selectionArea}
+              {fitLine}
             </AreaChart>
           </ResponsiveContainer>
         );
@@ -74,11 +348,14 @@ const GraphsPanel: React.FC<GraphsPanelProps> = ({
           {[
             { type: 'position' as const, icon: <TrendingUp size={14} />, label: 'Position' },
             { type: 'velocity' as const, icon: <Activity size={14} />, label: 'Velocity' },
+            { type: 'acceleration' as const, icon: <Gauge size={14} />, label: 'Accel.' },
+            { type: 'force' as const, icon: <MoveUpRight size={14} />, label: 'Force' },
             { type: 'energy' as const, icon: <Zap size={14} />, label: 'Energy' },
+            { type: 'compare' as const, icon: <Layers size={14} />, label: 'Compare' },
           ].map(g => (
             <button
               key={g.type}
-              onClick={() => onGraphTypeChange(g.type)}
+              onClick={() => { onGraphTypeChange(g.type); clearFit(); }}
               className={`time-btn ${graphType === g.type ? 'active' : ''}`}
               style={{ display: 'flex', alignItems: 'center', gap: '6px' }}
             >
@@ -92,12 +369,70 @@ const GraphsPanel: React.FC<GraphsPanelProps> = ({
       </div>
       
       <div className="graph-container">
-        {displayData.length > 0 ? renderGraph() : (
+        {graphType === 'compare' ? renderCompareGraph() : displayData.length > 0 ? renderGraph() : (
           <div style={{ height: '150px', display: 'flex', alignItems: 'center', justifyContent: 'center', color: '#64748b', fontSize: '13px' }}>
             Select an object to see live data
           </div>
         )}
       </div>
+
+      <CurveFitControls
+        targets={fitTargets}
+        target={target}
+        onTargetChange={setFitTarget}
+        model={fitModel}
+        onModelChange={setFitModel}
+        range={fitRange}
+        onClearRange={clearFit}
+        pointCount={fitPoints.length}
+        result={fit}
+      />
+
+      <div className="graphs-recording">
+        <button
+          onClick={onToggleRecording}
+          className={`recording-btn ${isRecording ? 'active' : ''}`}
+          title={isRecording ? 'Stop recording' : 'Record every point of the selected object'}
+        >
+          {isRecording ? <Square size={10} fill="currentColor" /> : <Circle size={10} fill="currentColor" />}
+          {isRecording ? 'Stop' : 'Record'}
+        </button>
+        <span className="recording-info">
+          {recording
+            ? `${recording.points.length} points · ${recording.objectLabel}`
+            : 'No recording yet'}
+        </span>
+        <button
+          onClick={() => setShowColumns(!showColumns)}
+          className={`time-btn ${showColumns ? 'active' : ''}`}
+          style={{ display: 'flex', alignItems: 'center', gap: '4px' }}
+          title="Columns to export"
+        >
+          <Columns3 size={12} /> {columns.length}
+        </button>
+        {(['csv', 'json'] as const).map(format => (
+          <button
+            key={format}
+            onClick={() => onExport(format, columns)}
+            disabled={!recording || recording.points.length === 0 || columns.length === 0}
+            className="time-btn"
+            style={{ display: 'flex', alignItems: 'center', gap: '4px' }}
+          >
+            <Download size={12} /> {format.toUpperCase()}
+          </button>
+        ))}
+      </div>
+
+      {showColumns && (
+        <div className="export-columns">
+          {GRAPH_COLUMNS.map(c => (
+            <label key={c.key}>
+              <input type="checkbox" checked={columns.includes(c.key)} onChange={() => toggleColumn(c.key)} />
+              {c.label} ({unitLabel(c.quantity)})
+            </label>
+          ))}
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,142 @@
+import React, { useState } from 'react';
+import { Save, Trash2, X } from 'lucide-react';
+import { MaterialPreset } from '../types';
+import { deleteUserMaterial, findMaterial, saveUserMaterial } from '../utils/userMaterials';
+
+interface MaterialEditorProps {
+  /** User material being edited, or null for a new one. */
+  materialKey: string | null;
+  /** Starting values for a new material, usually the selected body's. */
+  template: MaterialPreset;
+  onSaved: (key: string) => void;
+  onDeleted: () => void;
+  onClose: () => void;
+}
+
+type NumberField = 'density' | 'friction' | 'restitution' | 'frictionAir';
+
+const NUMBER_FIELDS: { key: NumberField; label: string; title: string; step: string }[] = [
+  { key: 'density', label: 'Density', title: 'Kilograms per square pixel, like the presets (wood 0.0006)', step: '0.0001' },
+  { key: 'friction', label: 'Kinetic μ', title: 'Friction while sliding', step: '0.01' },
+  { key: 'restitution', label: 'Bounce', title: 'Coefficient of restitution, 0 to 1', step: '0.01' },
+  { key: 'frictionAir', label: 'Air drag', title: 'Velocity lost to the air each step, 0 to 0.99', step: '0.001' }
+];
+
+function validate(material: MaterialPreset): string | null {
+  if (!material.name.trim()) return 'Give the material a name.';
+  if (!(material.density > 0)) return 'Density must be above zero.';
+  if (material.friction < 0 || (material.frictionStatic ?? 0) < 0) return 'Friction cannot be negative.';
+  if (material.restitution < 0) return 'Bounce cannot be negative.';
+  if (material.frictionAir < 0 || material.frictionAir > 0.99) return 'Air drag must be between 0 and 0.99.';
+  return null;
+}
+
+/** Form for a user material; saving stores it in the browser and hands back its key. */
+const MaterialEditor: React.FC<MaterialEditorProps> = ({ materialKey, template, onSaved, onDeleted, onClose }) => {
+  const [draft, setDraft] = useState<MaterialPreset>(() => {
+    const existing = materialKey ? findMaterial(materialKey) : undefined;
+    return existing ? { ...existing } : { ...template, name: '' };
+  });
+  const [error, setError] = useState<string | null>(null);
+
+  const update = (changes: Partial<MaterialPreset>) => setDraft(prev => ({ ...prev, ...changes }));
+
+  // Storage writes throw when the quota is exhausted; show that rather than losing the edit
+  const runStorageAction = (action: () => void) => {
+    try {
+      action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not update saved materials.');
+    }
+  };
+
+  const handleSave = () => {
+    const problem = validate(draft);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+    runStorageAction(() => onSaved(saveUserMaterial(draft, materialKey ?? undefined)));
+  };
+
+  const handleDelete = () => {
+    if (!materialKey) return;
+    runStorageAction(() => {
+      deleteUserMaterial(materialKey);
+      onDeleted();
+    });
+  };
+
+  return (
+    <div className="material-editor">
+      <div className="material-editor-name">
+        <input
+          type="color"
+          value={draft.color}
+          onChange={(e) => update({ color: e.target.value })}
+          title="Colour"
+        />
+        <input
+          type="text"
+          value={draft.name}
+          placeholder="Material name"
+          onChange={(e) => update({ name: e.target.value })}
+        />
+      </div>
+
+      <div className="material-fields">
+        {NUMBER_FIELDS.map(field => (
+          <label key={field.key} title={field.title}>
+            <span>{field.label}</span>
+            <input
+              type="number"
+              min="0"
+              step={field.step}
+              value={draft[field.key]}
+              onChange={(e) => update({ [field.key]: parseFloat(e.target.value) || 0 })}
+            />
+          </label>
+        ))}
+        <label title="Friction a resting contact holds before it slips; leave empty for Matter's default">
+          <span>Static μ</span>
+          <input
+            type="number"
+            min="0"
+            step="0.01"
+            value={draft.frictionStatic ?? ''}
+            onChange={(e) => update({ frictionStatic: e.target.value === '' ? undefined : parseFloat(e.target.value) || 0 })}
+          />
+        </label>
+      </div>
+
+      <div className="material-flags">
+        <label>
+          <input type="checkbox" checked={!!draft.magnetic} onChange={(e) => update({ magnetic: e.target.checked })} />
+          Magnetic
+        </label>
+        <label>
+          <input type="checkbox" checked={!!draft.conductive} onChange={(e) => update({ conductive: e.target.checked })} />
+          Conductive
+        </label>
+      </div>
+
+      {error && <div className="material-editor-error">{error}</div>}
+
+      <div className="material-editor-actions">
+        <button className="primary" onClick={handleSave}>
+          <Save size={12} /> Save & Apply
+        </button>
+        {materialKey && (
+          <button onClick={handleDelete} title="Delete this material and its pair overrides">
+            <Trash2 size={12} /> Delete
+          </button>
+        )}
+        <button onClick={onClose}>
+          <X size={12} /> Cancel
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default MaterialEditor;
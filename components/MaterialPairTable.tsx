@@ -0,0 +1,98 @@
+import React, { useState } from 'react';
+import { Plus, X } from 'lucide-react';
+import { deletePairOverride, findMaterial, getPairOverrides, listMaterials, savePairOverride } from '../utils/userMaterials';
+
+/**
+ * Friction and bounce for particular pairs of materials in the 2D lab. Matter otherwise
+ * takes the lower friction and the higher bounce of the two bodies.
+ */
+const MaterialPairTable: React.FC = () => {
+  const materials = listMaterials();
+  const [pairs, setPairs] = useState(getPairOverrides);
+  const [a, setA] = useState(materials[0]?.[0] ?? '');
+  const [b, setB] = useState(materials[0]?.[0] ?? '');
+  const [friction, setFriction] = useState(0.5);
+  const [frictionStatic, setFrictionStatic] = useState<number | undefined>(undefined);
+  const [restitution, setRestitution] = useState(0.3);
+  const [error, setError] = useState<string | null>(null);
+
+  const nameOf = (key: string) => findMaterial(key)?.name ?? key;
+
+  const runStorageAction = (action: () => void) => {
+    try {
+      action();
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not update pair overrides.');
+    }
+    setPairs(getPairOverrides());
+  };
+
+  const handleAdd = () => {
+    if (!a || !b) return;
+    runStorageAction(() => savePairOverride({
+      a,
+      b,
+      friction: Math.max(0, friction),
+      frictionStatic: frictionStatic === undefined ? undefined : Math.max(0, frictionStatic),
+      restitution: Math.max(0, restitution)
+    }));
+  };
+
+  return (
+    <div className="material-pairs">
+      {pairs.length === 0 && <div className="material-pairs-empty">No overrides yet</div>}
+      {pairs.map(pair => (
+        <div key={`${pair.a}:${pair.b}`} className="material-pair-row">
+          <span className="names">{nameOf(pair.a)} · {nameOf(pair.b)}</span>
+          <span className="value">μk {pair.friction}</span>
+          {pair.frictionStatic !== undefined && <span className="value">μs {pair.frictionStatic}</span>}
+          <span className="value">e {pair.restitution}</span>
+          <button onClick={() => runStorageAction(() => deletePairOverride(pair.a, pair.b))} title="Remove override">
+            <X size={10} />
+          </button>
+        </div>
+      ))}
+
+      <div className="material-pair-add">
+        <select value={a} onChange={(e) => setA(e.target.value)}>
+          {materials.map(([key, material]) => <option key={key} value={key}>{material.name}</option>)}
+        </select>
+        <select value={b} onChange={(e) => setB(e.target.value)}>
+          {materials.map(([key, material]) => <option key={key} value={key}>{material.name}</option>)}
+        </select>
+        <input
+          type="number"
+          min="0"
+          step="0.01"
+          value={friction}
+          onChange={(e) => setFriction(parseFloat(e.target.value) || 0)}
+          title="Kinetic friction coefficient, while sliding"
+        />
+        <input
+          type="number"
+          min="0"
+          step="0.01"
+          value={frictionStatic ?? ''}
+          placeholder="μs"
+          onChange={(e) => setFrictionStatic(e.target.value === '' ? undefined : parseFloat(e.target.value) || 0)}
+          title="Static friction coefficient, how much a resting contact holds before it slips; leave empty to keep the materials' own"
+        />
+        <input
+          type="number"
+          min="0"
+          step="0.01"
+          value={restitution}
+          onChange={(e) => setRestitution(parseFloat(e.target.value) || 0)}
+          title="Coefficient of restitution"
+        />
+        <button onClick={handleAdd} title="Add or replace the override for this pair">
+          <Plus size={12} />
+        </button>
+      </div>
+      {error && <div className="material-editor-error">{error}</div>}
+    </div>
+  );
+};
+
+export default MaterialPairTable;
@@ -0,0 +1,239 @@
+import React, { useMemo, useState } from 'react';
+import { Shapes, X, Undo2, Eraser, Plus, Trash2, Save } from 'lucide-react';
+import { CompoundPart, PhysicsObjectDefinition, ShapeSpec, Vector2D } from '../types';
+import { applyMaterial } from '../data/materials';
+import { findMaterial, listMaterials } from '../utils/userMaterials';
+import { isSimpleOutline, shapeExtent, shapeOutlines } from '../utils/shapes';
+import { saveUserObject } from '../utils/userObjects';
+import { formatQuantity } from '../utils/units';
+
+interface ObjectBuilderProps {
+  onSaved: (definition: PhysicsObjectDefinition) => void;
+  onClose: () => void;
+}
+
+type BuilderMode = 'polygon' | 'trapezoid' | 'compound';
+
+const MODES: { id: BuilderMode; label: string; title: string }[] = [
+  { id: 'polygon', label: 'Draw', title: 'Click to place corners; concave outlines are split into convex parts' },
+  { id: 'trapezoid', label: 'Trapezoid', title: 'Bottom width, height and top width' },
+  { id: 'compound', label: 'Compound', title: 'Boxes and balls glued into one rigid body' }
+];
+
+// The drawing area, 1:1 with canvas pixels
+const AREA_WIDTH = 280;
+const AREA_HEIGHT = 200;
+const CENTER = { x: AREA_WIDTH / 2, y: AREA_HEIGHT / 2 };
+
+const DEFAULT_PARTS: CompoundPart[] = [
+  { type: 'rectangle', x: 0, y: 0, width: 120, height: 20 },
+  { type: 'circle', x: -45, y: 25, radius: 15 },
+  { type: 'circle', x: 45, y: 25, radius: 15 }
+];
+
+const toPoints = (outline: Vector2D[], offset: Vector2D = CENTER) =>
+  outline.map(v => `${v.x + offset.x},${v.y + offset.y}`).join(' ');
+
+const NumberInput: React.FC<{ label: string; value: number; min?: number; onChange: (value: number) => void }> = ({ label, value, min, onChange }) => (
+  <label>
+    <span>{label}</span>
+    <input type="number" min={min} step="1" value={value} onChange={(e) => onChange(parseFloat(e.target.value) || 0)} />
+  </label>
+);
+
+/**
+ * Dialog for drawing a polygon, sizing a trapezoid or gluing primitives together, then
+ * saving the result with a material to the "My Objects" category.
+ */
+const ObjectBuilder: React.FC<ObjectBuilderProps> = ({ onSaved, onClose }) => {
+  const materials = listMaterials();
+  const [name, setName] = useState('');
+  const [mode, setMode] = useState<BuilderMode>('polygon');
+  const [materialKey, setMaterialKey] = useState('wood');
+  const [isStatic, setIsStatic] = useState(false);
+  const [points, setPoints] = useState<Vector2D[]>([]);
+  const [trapezoid, setTrapezoid] = useState({ width: 120, height: 50, topWidth: 60 });
+  const [parts, setParts] = useState<CompoundPart[]>(DEFAULT_PARTS);
+  const [error, setError] = useState<string | null>(null);
+
+  const shape: ShapeSpec | null = useMemo(() => {
+    if (mode === 'polygon') return points.length >= 3 && isSimpleOutline(points) ? { type: 'polygon', vertices: points } : null;
+    if (mode === 'trapezoid') {
+      const { width, height, topWidth } = trapezoid;
+      if (width <= 0 || height <= 0 || topWidth <= 0 || topWidth >= width) return null;
+      return { type: 'trapezoid', width, height, slope: 1 - topWidth / width };
+    }
+    return parts.length > 0 ? { type: 'compound', parts } : null;
+  }, [mode, points, trapezoid, parts]);
+
+  const outlines = useMemo(() => (shape ? shapeOutlines(shape) : []), [shape]);
+  const extent = useMemo(() => (shape ? shapeExtent(shape) : null), [shape]);
+  const material = findMaterial(materialKey);
+
+  const problem = mode === 'polygon'
+    ? points.length < 3 ? 'Place at least three corners.' : !shape ? 'The outline crosses itself.' : null
+    : mode === 'trapezoid' && !shape ? 'The top must be narrower than the bottom, and every size above zero.'
+    : mode === 'compound' && !shape ? 'Add at least one part.' : null;
+
+  const handleAreaClick = (e: React.MouseEvent<SVGSVGElement>) => {
+    if (mode !== 'polygon') return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    setPoints(prev => [...prev, {
+      x: Math.round((e.clientX - rect.left) * AREA_WIDTH / rect.width),
+      y: Math.round((e.clientY - rect.top) * AREA_HEIGHT / rect.height)
+    }]);
+  };
+
+  const updatePart = (index: number, changes: Partial<CompoundPart>) =>
+    setParts(prev => prev.map((part, i) => (i === index ? { ...part, ...changes } : part)));
+
+  const addPart = (type: 'rectangle' | 'circle') =>
+    setParts(prev => [...prev, type === 'rectangle'
+      ? { type, x: 0, y: -30, width: 40, height: 40 }
+      : { type, x: 0, y: -30, radius: 20 }]);
+
+  const handleSave = () => {
+    if (!shape || !material) return;
+    const options = applyMaterial(material);
+    try {
+      const saved = saveUserObject({
+        ...shape,
+        label: name,
+        options: {
+          ...options,
+          isStatic,
+          render: { fillStyle: material.color, strokeStyle: material.color, lineWidth: 2 }
+        },
+        customData: { material: materialKey }
+      });
+      onSaved(saved);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not save the object.');
+    }
+  };
+
+  return (
+    <>
+      <div className="backdrop" onClick={onClose} />
+      <div className="object-builder">
+        <div className="object-builder-header">
+          <Shapes size={14} />
+          <span>Build Object</span>
+          <button onClick={onClose} title="Close">
+            <X size={14} />
+          </button>
+        </div>
+
+        <div className="object-builder-row">
+          <input type="text" value={name} placeholder="Object name" onChange={(e) => setName(e.target.value)} />
+          <div className="time-controls">
+            {MODES.map(m => (
+              <button
+                key={m.id}
+                onClick={() => setMode(m.id)}
+                className={`time-btn ${mode === m.id ? 'active' : ''}`}
+                title={m.title}
+              >
+                {m.label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <svg
+          className={`object-builder-area ${mode === 'polygon' ? 'drawing' : ''}`}
+          viewBox={`0 0 ${AREA_WIDTH} ${AREA_HEIGHT}`}
+          onClick={handleAreaClick}
+        >
+          {mode === 'polygon' ? (
+            <>
+              {points.length >= 2 && (
+                <polygon points={toPoints(points, { x: 0, y: 0 })} fill={`${material?.color ?? '#6366f1'}55`} stroke={material?.color ?? '#6366f1'} />
+              )}
+              {points.map((p, i) => <circle key={i} cx={p.x} cy={p.y} r={3} className={i === 0 ? 'first' : ''} />)}
+            </>
+          ) : (
+            outlines.map((outline, i) => (
+              <polygon key={i} points={toPoints(outline)} fill={`${material?.color ?? '#6366f1'}55`} stroke={material?.color ?? '#6366f1'} />
+            ))
+          )}
+        </svg>
+
+        {mode === 'polygon' && (
+          <div className="object-builder-row">
+            <span className="object-builder-hint">
+              {outlines.length > 1 ? `Concave: split into ${outlines.length} convex parts` : 'Click to place corners'}
+            </span>
+            <button onClick={() => setPoints(prev => prev.slice(0, -1))} disabled={points.length === 0} title="Remove the last corner">
+              <Undo2 size={12} />
+            </button>
+            <button onClick={() => setPoints([])} disabled={points.length === 0} title="Clear the outline">
+              <Eraser size={12} />
+            </button>
+          </div>
+        )}
+
+        {mode === 'trapezoid' && (
+          <div className="object-builder-fields">
+            <NumberInput label="Bottom" value={trapezoid.width} min={1} onChange={(width) => setTrapezoid({ ...trapezoid, width })} />
+            <NumberInput label="Height" value={trapezoid.height} min={1} onChange={(height) => setTrapezoid({ ...trapezoid, height })} />
+            <NumberInput label="Top" value={trapezoid.topWidth} min={1} onChange={(topWidth) => setTrapezoid({ ...trapezoid, topWidth })} />
+          </div>
+        )}
+
+        {mode === 'compound' && (
+          <div className="object-builder-parts">
+            {parts.map((part, i) => (
+              <div key={i} className="object-builder-fields">
+                <span className="part-type">{part.type === 'circle' ? 'Ball' : 'Box'}</span>
+                <NumberInput label="x" value={part.x} onChange={(x) => updatePart(i, { x })} />
+                <NumberInput label="y" value={part.y} onChange={(y) => updatePart(i, { y })} />
+                {part.type === 'circle' ? (
+                  <NumberInput label="r" value={part.radius ?? 20} min={1} onChange={(radius) => updatePart(i, { radius })} />
+                ) : (
+                  <>
+                    <NumberInput label="w" value={part.width ?? 40} min={1} onChange={(width) => updatePart(i, { width })} />
+                    <NumberInput label="h" value={part.height ?? 40} min={1} onChange={(height) => updatePart(i, { height })} />
+                  </>
+                )}
+                <button onClick={() => setParts(prev => prev.filter((_, j) => j !== i))} title="Remove part">
+                  <Trash2 size={12} />
+                </button>
+              </div>
+            ))}
+            <div className="object-builder-row">
+              <button onClick={() => addPart('rectangle')}><Plus size={12} /> Box</button>
+              <button onClick={() => addPart('circle')}><Plus size={12} /> Ball</button>
+            </div>
+          </div>
+        )}
+
+        <div className="object-builder-row">
+          <select value={materialKey} onChange={(e) => setMaterialKey(e.target.value)}>
+            {materials.map(([key, m]) => <option key={key} value={key}>{m.name}</option>)}
+          </select>
+          <label className="object-builder-check">
+            <input type="checkbox" checked={isStatic} onChange={(e) => setIsStatic(e.target.checked)} />
+            Locked
+          </label>
+          {extent && material && (
+            <span className="object-builder-hint">{formatQuantity('mass', material.density * extent.area)}</span>
+          )}
+        </div>
+
+        {(error || problem) && <div className="material-editor-error">{error ?? problem}</div>}
+
+        <div className="material-editor-actions">
+          <button className="primary" onClick={handleSave} disabled={!shape || !material}>
+            <Save size={12} /> Save to My Objects
+          </button>
+          <button onClick={onClose}>
+            <X size={12} /> Cancel
+          </button>
+        </div>
+      </div>
+    </>
+  );
+};
+
+export default ObjectBuilder;
@@ -1,19 +1,103 @@
-import React, { useEffect, useRef, useCallback, forwardRef, useImperativeHandle } from 'react';
+import React, { useEffect, useRef, useState, useCallback, forwardRef, useImperativeHandle } from 'react';
 import Matter from 'matter-js';
-import { ToolType, PhysicsObjectDefinition, SceneObject, PhysicsState, VisualizationSettings, GraphDataPoint } from '../types';
+import { ToolType, ConstraintType, Vector2D, PhysicsObjectDefinition, SceneObject, SceneConstraint, SceneSnapshot, ObjectDimensions, Instrument, InstrumentType, SensorReading, PhysicsState, VisualizationSettings, GraphDataPoint, TimelineStatus } from '../types';
 import { getObjectById } from '../data/objects';
 import { getExperimentById } from '../data/experiments';
+import { applyMaterial } from '../data/materials';
+import { findMaterial } from '../utils/userMaterials';
+import { installPairOverrides } from '../utils/materialPairs';
+import { createShapeBody } from '../utils/shapes';
+import { rememberUserObject } from '../utils/userObjects';
+import {
+  createSceneConstraint,
+  addSceneConstraint,
+  removeSceneConstraint,
+  setConstraintProperty,
+  getConstraintProperty,
+  constraintHasLength,
+  applyConstraintBehaviors,
+  distanceToConstraint
+} from '../utils/constraints';
+import {
+  GizmoHandleKind,
+  HANDLE_RADIUS,
+  getObjectDimensions,
+  getGizmoHandles,
+  findHandleAt,
+  rotationFromPointer,
+  dimensionsFromPointer,
+  formatDegrees,
+  rebuildBodyGeometry
+} from '../utils/gizmos';
+import { createUndoHistory } from '../utils/undoHistory';
+import {
+  EmitterProperty,
+  createEmitterState,
+  applyEmitterForces,
+  getEmitterType,
+  setEmitterProperty,
+  isRocketBurning,
+  isOnDirectionHandle,
+  directionFromPointer,
+  drawEmitterField,
+  drawRocketFlame
+} from '../utils/emitters';
+import { createSimulationLoop, getSimulationTime, seedSimulation, SimulationLoop } from '../utils/simulationLoop';
+import { createForceTracker, getConstrainedBodyIds } from '../utils/forces';
+import { createAppliedForces, drawAppliedForce, drawSlingshot, slingshotImpulse } from '../utils/appliedForces';
+import { drawFreeBodyDiagram, renderFreeBodyDiagramImage } from '../utils/freeBodyDiagram';
+import { createCollisionTracker, drawCollisionPoints } from '../utils/collisions';
+import { drawEnergyColors } from '../utils/energyColors';
+import { TrajectoryPrediction, predictTrajectory, drawTrajectory } from '../utils/trajectory';
+import { createSceneRecorder, frameIndexAt, frameMatchesScene, restoreFrame } from '../utils/timeline';
+import { SYSTEM_SERIES_ID, graphPointFromState, systemGraphPoint } from '../utils/graphSeries';
+import { engineGravityScale, STANDARD_GRAVITY, toMeters, velocityToSI } from '../utils/units';
+import { applyFluidForces, drawFluid, getFluid } from '../utils/fluids';
+import {
+  InstrumentHandle,
+  createInstrument,
+  findInstrumentHandle,
+  dragInstrument,
+  toggleStopwatch,
+  triggerStopwatches,
+  drawInstrument
+} from '../utils/instruments';
+import {
+  SensorState,
+  getSensorType,
+  matchSensorPair,
+  createSensorReading,
+  formatSpeed,
+  formatEnergy,
+  drawSensorLabel
+} from '../utils/sensors';
 
 interface PhysicsCanvasProps {
   tool: ToolType;
+  constraintType: ConstraintType;
   isPaused: boolean;
   gravityScale: number;
+  pixelsPerMeter: number;
   timeScale: number;
   visualization: VisualizationSettings;
   selectedObjectId: string | null;
+  selectedConstraintId: string | null;
   onObjectSelect: (object: SceneObject | null) => void;
+  onConstraintSelect: (constraint: SceneConstraint | null) => void;
   onPhysicsUpdate: (state: PhysicsState | null) => void;
   onGraphDataUpdate: (data: GraphDataPoint) => void;
+  /** Objects (or the system) on the compare graph, by id. */
+  pinnedObjectIds: string[];
+  /** One point per pinned series each step, time in simulation seconds. */
+  onSeriesDataUpdate: (points: Record<string, GraphDataPoint>) => void;
+  onSensorReading: (reading: SensorReading) => void;
+  onTimelineUpdate: (status: TimelineStatus) => void;
+  /**
+   * The scene was resumed from an earlier frame; graph points after `graphTime` (or pinned
+   * series points after `time`, in simulation seconds) no longer happened.
+   */
+  onTimelineBranch: (graphTime: number, time: number) => void;
+  onFileDrop: (file: File) => void;
 }
 
 export interface PhysicsCanvasRef {
@@ -21,52 +105,227 @@ export interface PhysicsCanvasRef {
   clear: () => void;
   stepFrame: () => void;
   modifySelectedProperty: (property: string, value: number | boolean) => void;
+  /** Gives the selected body a built-in or user material: density (and so mass), friction, bounce, drag and colour. */
+  applyMaterialToSelected: (materialName: string) => void;
+  /** Pushes the selected body: an impulse (N·s) when `seconds` is 0, else a force (N) held that long. y up. */
+  applyForceToSelected: (force: Vector2D, seconds: number) => void;
   toggleSelectedStatic: () => void;
   deleteSelected: () => void;
   resetSelectedPosition: () => void;
   getSceneObjects: () => SceneObject[];
   loadExperiment: (experimentId: string) => void;
+  modifySelectedConstraint: (property: string, value: number) => void;
+  modifySelectedEmitter: (property: EmitterProperty, value: number | string) => void;
+  deleteSelectedConstraint: () => void;
+  undo: () => void;
+  redo: () => void;
+  getSceneSnapshot: () => SceneSnapshot;
+  loadSceneSnapshot: (snapshot: SceneSnapshot) => void;
+  captureThumbnail: () => string | undefined;
+  captureFreeBodyDiagram: () => string | undefined;
+  addInstrument: (type: InstrumentType) => void;
+  /** Pauses on a recorded frame; the App pauses the simulation alongside. */
+  seekTimeline: (index: number) => void;
+  replayTimeline: (speed: number) => void;
+  stopReplay: () => void;
+  /** Simulates onward from the frame on screen, discarding the frames after it. */
+  branchTimeline: () => void;
 }
 
+type TunableBodyProperty = 'mass' | 'friction' | 'restitution' | 'frictionAir';
+const TUNABLE_BODY_PROPERTIES: TunableBodyProperty[] = ['mass', 'friction', 'restitution', 'frictionAir'];
+
+const CONSTRAINT_HIT_DISTANCE = 8;
+const THUMBNAIL_WIDTH = 240;
+const THUMBNAIL_HEIGHT = 150;
+// Real ms between forward simulations of the predicted trajectory
+const TRAJECTORY_REFRESH_INTERVAL = 50;
+// Real ms between timeline updates to the App while simulating live
+const TIMELINE_REPORT_INTERVAL = 100;
+
+const toWorldPoint = (body: Matter.Body, localPoint: { x: number; y: number }) =>
+  Matter.Vector.add(body.position, Matter.Vector.rotate(localPoint, body.angle));
+
+const setBodyStatic = (body: Matter.Body, isStatic: boolean) => {
+  Matter.Body.setStatic(body, isStatic);
+  body.render.opacity = isStatic ? 0.7 : 1;
+};
+
+const setBodyProperty = (body: Matter.Body, property: TunableBodyProperty, value: number) => {
+  if (property === 'mass') Matter.Body.setMass(body, value);
+  else body[property] = value;
+};
+
+/** What a material preset sets on a body, kept so a change of material can be undone. */
+interface BodyMaterial {
+  name?: string;
+  density: number;
+  friction: number;
+  frictionStatic: number;
+  restitution: number;
+  frictionAir: number;
+  color?: string;
+}
+
+const readBodyMaterial = (sceneObj: SceneObject): BodyMaterial => ({
+  name: sceneObj.customData.material as string | undefined,
+  // A locked body's density reads as infinite; its own is kept for unlocking
+  density: sceneObj.body.isStatic
+    ? (sceneObj.body as Matter.Body & { _original?: { density: number } })._original?.density ?? sceneObj.body.density
+    : sceneObj.body.density,
+  friction: sceneObj.body.friction,
+  frictionStatic: sceneObj.body.frictionStatic,
+  restitution: sceneObj.body.restitution,
+  frictionAir: sceneObj.body.frictionAir,
+  color: sceneObj.body.render.fillStyle
+});
+
+const presetMaterial = (name: string): BodyMaterial | undefined => {
+  const preset = findMaterial(name);
+  if (!preset) return undefined;
+  const options = applyMaterial(preset);
+  return {
+    name,
+    density: options.density,
+    friction: options.friction,
+    frictionStatic: options.frictionStatic,
+    restitution: options.restitution,
+    frictionAir: options.frictionAir,
+    color: options.render.fillStyle
+  };
+};
+
+/**
+ * Density sets the mass from the body's area. A locked body is unlocked for the change and
+ * locked again, so it gets the new mass back when it is unlocked later.
+ */
+const setBodyMaterial = (body: Matter.Body, material: BodyMaterial) => {
+  if (body.isStatic) {
+    Matter.Body.setStatic(body, false);
+    Matter.Body.setDensity(body, material.density);
+    Matter.Body.setStatic(body, true);
+  } else {
+    Matter.Body.setDensity(body, material.density);
+  }
+  body.friction = material.friction;
+  body.frictionStatic = material.frictionStatic;
+  body.restitution = material.restitution;
+  body.frictionAir = material.frictionAir;
+  body.parts.forEach(part => { part.render.fillStyle = material.color; });
+};
+
+const setObjectMaterial = (sceneObj: SceneObject, material: BodyMaterial) => {
+  setBodyMaterial(sceneObj.body, material);
+  if (material.name) sceneObj.customData.material = material.name;
+  else delete sceneObj.customData.material;
+};
+
+const sameDimensions = (a: ObjectDimensions, b: ObjectDimensions) =>
+  a.width === b.width && a.height === b.height && a.radius === b.radius;
+
+// Built-in objects exist everywhere; a My Objects definition has to travel with the scene
+const definitionToCarry = (definitionId: string) => {
+  const definition = getObjectById(definitionId);
+  return definition?.category === 'custom' ? definition : undefined;
+};
+
+const placeBody = (body: Matter.Body, position: { x: number; y: number }, angle: number) => {
+  Matter.Body.setPosition(body, position);
+  Matter.Body.setAngle(body, angle);
+  Matter.Body.setVelocity(body, { x: 0, y: 0 });
+  Matter.Body.setAngularVelocity(body, 0);
+};
+
 const PhysicsCanvas = forwardRef<PhysicsCanvasRef, PhysicsCanvasProps>(({ 
   tool, 
+  constraintType,
   isPaused, 
   gravityScale,
+  pixelsPerMeter,
   timeScale,
   visualization,
   selectedObjectId,
+  selectedConstraintId,
   onObjectSelect,
+  onConstraintSelect,
   onPhysicsUpdate,
-  onGraphDataUpdate
+  onGraphDataUpdate,
+  pinnedObjectIds,
+  onSeriesDataUpdate,
+  onSensorReading,
+  onTimelineUpdate,
+  onTimelineBranch,
+  onFileDrop
 }, ref) => {
   const sceneRef = useRef<HTMLDivElement>(null);
   const engineRef = useRef<Matter.Engine | null>(null);
   const renderRef = useRef<Matter.Render | null>(null);
-  const runnerRef = useRef<Matter.Runner | null>(null);
+  const loopRef = useRef<SimulationLoop | null>(null);
   const sceneObjectsRef = useRef<Map<number, SceneObject>>(new Map());
+  const sceneConstraintsRef = useRef<Map<string, SceneConstraint>>(new Map());
+  const pendingConstraintRef = useRef<{ body: Matter.Body; localPoint: { x: number; y: number } } | null>(null);
+  const pointerRef = useRef<{ x: number; y: number } | null>(null);
+  const gizmoDragRef = useRef<{ kind: GizmoHandleKind; sceneObj: SceneObject; wasStatic: boolean } | null>(null);
+  const instrumentsRef = useRef<Instrument[]>([]);
+  const instrumentDragRef = useRef<{ instrument: Instrument; handle: InstrumentHandle; last: { x: number; y: number }; moved: boolean } | null>(null);
+  const emitterDragRef = useRef<SceneObject | null>(null);
+  // Body being dragged with the pointer tool; velocity is what it would be thrown with
+  const draggedBodyRef = useRef<{ body: Matter.Body; originalStatic: boolean; lastPos: { x: number; y: number }; startPos: { x: number; y: number }; startAngle: number; velocity?: { x: number; y: number } } | null>(null);
+  const trajectoryRef = useRef<{ bodyId: number; computedAt: number; prediction: TrajectoryPrediction } | null>(null);
+  const suppressClickRef = useRef(false);
+  // Body being pulled back with the slingshot tool, and where it is pulled to
+  const slingshotRef = useRef<{ body: Matter.Body; pointer: { x: number; y: number } } | null>(null);
+  const sensorStatesRef = useRef<Map<number, SensorState>>(new Map());
   const motionTrailsRef = useRef<Map<number, { x: number; y: number }[]>>(new Map());
-  const startTimeRef = useRef<number>(Date.now());
+  // Simulation time (ms) that graph time counts from
+  const graphStartRef = useRef(0);
   const overlayCanvasRef = useRef<HTMLCanvasElement | null>(null);
+  const [history] = useState(createUndoHistory);
+  const [emitterState] = useState(createEmitterState);
+  const [forceTracker] = useState(createForceTracker);
+  const [appliedForces] = useState(createAppliedForces);
+  const [collisionTracker] = useState(createCollisionTracker);
+  const [recorder] = useState(createSceneRecorder);
+  // Recorded frame on screen while scrubbing or replaying; null while simulating live
+  const timelineCursorRef = useRef<number | null>(null);
+  const replayFrameRef = useRef<number | null>(null);
+  const lastTimelineReportRef = useRef(0);
   
   const toolRef = useRef(tool);
+  const isPausedRef = useRef(isPaused);
   const selectedObjectIdRef = useRef(selectedObjectId);
+  const selectedConstraintIdRef = useRef(selectedConstraintId);
   const visualizationRef = useRef(visualization);
   const gravityScaleRef = useRef(gravityScale);
   const onObjectSelectRef = useRef(onObjectSelect);
+  const onConstraintSelectRef = useRef(onConstraintSelect);
   const onPhysicsUpdateRef = useRef(onPhysicsUpdate);
   const onGraphDataUpdateRef = useRef(onGraphDataUpdate);
+  const onSensorReadingRef = useRef(onSensorReading);
+  const pinnedObjectIdsRef = useRef(pinnedObjectIds);
+  const onSeriesDataUpdateRef = useRef(onSeriesDataUpdate);
+  const onTimelineUpdateRef = useRef(onTimelineUpdate);
+  const onTimelineBranchRef = useRef(onTimelineBranch);
 
-  useEffect(() => { toolRef.current = tool; }, [tool]);
+  useEffect(() => {
+    toolRef.current = tool;
+    pendingConstraintRef.current = null;
+  }, [tool]);
   useEffect(() => { selectedObjectIdRef.current = selectedObjectId; }, [selectedObjectId]);
+  useEffect(() => { selectedConstraintIdRef.current = selectedConstraintId; }, [selectedConstraintId]);
   useEffect(() => { visualizationRef.current = visualization; }, [visualization]);
   useEffect(() => { gravityScaleRef.current = gravityScale; }, [gravityScale]);
   useEffect(() => { onObjectSelectRef.current = onObjectSelect; }, [onObjectSelect]);
+  useEffect(() => { onConstraintSelectRef.current = onConstraintSelect; }, [onConstraintSelect]);
   useEffect(() => { onPhysicsUpdateRef.current = onPhysicsUpdate; }, [onPhysicsUpdate]);
   useEffect(() => { onGraphDataUpdateRef.current = onGraphDataUpdate; }, [onGraphDataUpdate]);
+  useEffect(() => { onSensorReadingRef.current = onSensorReading; }, [onSensorReading]);
+  useEffect(() => { pinnedObjectIdsRef.current = pinnedObjectIds; }, [pinnedObjectIds]);
+  useEffect(() => { onSeriesDataUpdateRef.current = onSeriesDataUpdate; }, [onSeriesDataUpdate]);
+  useEffect(() => { onTimelineUpdateRef.current = onTimelineUpdate; }, [onTimelineUpdate]);
+  useEffect(() => { onTimelineBranchRef.current = onTimelineBranch; }, [onTimelineBranch]);
 
   const createBody = useCallback((def: PhysicsObjectDefinition, x: number, y: number): Matter.Body | null => {
-    let body: Matter.Body | null = null;
-    
     const renderOptions = {
       fillStyle: def.options.render?.fillStyle || '#6366f1',
       strokeStyle: def.options.render?.strokeStyle || '#4f46e5',
@@ -87,88 +346,238 @@ const PhysicsCanvas = forwardRef<PhysicsCanvasRef, PhysicsCanvasProps>(({
       render: renderOptions
     };
     
-    if (def.type === 'rectangle') {
-      const chamferRadius = Math.min((def.width || 50), (def.height || 50)) * 0.08;
-      body = Matter.Bodies.rectangle(x, y, def.width || 50, def.height || 50, {
-        ...baseOptions,
-        chamfer: { radius: chamferRadius }
-      });
-    } else if (def.type === 'circle') {
-      body = Matter.Bodies.circle(x, y, def.radius || 25, baseOptions);
-    } else if (def.type === 'polygon') {
-      body = Matter.Bodies.polygon(x, y, def.sides || 3, def.radius || 30, baseOptions);
+    return createShapeBody(def, x, y, baseOptions);
+  }, []);
+
+  const resizeSceneObject = useCallback((sceneObj: SceneObject, dimensions: ObjectDimensions) => {
+    const def = getObjectById(sceneObj.definitionId);
+    if (!def) return;
+    const template = createBody({ ...def, ...dimensions }, 0, 0);
+    if (!template) return;
+    rebuildBodyGeometry(sceneObj.body, template);
+    sceneObj.dimensions = dimensions;
+  }, [createBody]);
+
+  const getSelectedGizmo = useCallback(() => {
+    const currentTool = toolRef.current;
+    if (currentTool !== ToolType.ROTATE && currentTool !== ToolType.RESIZE) return null;
+    const selId = selectedObjectIdRef.current;
+    const sceneObj = selId ? sceneObjectsRef.current.get(parseInt(selId)) : undefined;
+    if (!sceneObj) return null;
+    const def = getObjectById(sceneObj.definitionId);
+    const dims = getObjectDimensions(sceneObj, def);
+    const mode: 'rotate' | 'resize' = currentTool === ToolType.ROTATE ? 'rotate' : 'resize';
+    return { sceneObj, dims, handles: getGizmoHandles(sceneObj.body, mode, dims, def) };
+  }, []);
+
+  const removeBodyConstraints = useCallback((body: Matter.Body): SceneConstraint[] => {
+    if (!engineRef.current) return [];
+    const world = engineRef.current.world;
+    const removed: SceneConstraint[] = [];
+    sceneConstraintsRef.current.forEach((sc, id) => {
+      if (sc.constraint.bodyA === body || sc.constraint.bodyB === body) {
+        removeSceneConstraint(world, sc);
+        sceneConstraintsRef.current.delete(id);
+        removed.push(sc);
+        if (selectedConstraintIdRef.current === id) onConstraintSelectRef.current(null);
+      }
+    });
+    Matter.Composite.allConstraints(world)
+      .filter(c => c.bodyA === body || c.bodyB === body)
+      .forEach(c => Matter.Composite.remove(world, c));
+    return removed;
+  }, []);
+
+  const reportTimeline = useCallback(() => {
+    const size = recorder.size();
+    const cursor = timelineCursorRef.current;
+    const index = cursor ?? size - 1;
+    const frame = cursor === null ? undefined : recorder.frame(cursor);
+    onTimelineUpdateRef.current({
+      frameCount: size,
+      index,
+      startTime: (recorder.frame(0)?.time ?? 0) / 1000,
+      time: (recorder.frame(index)?.time ?? 0) / 1000,
+      endTime: (recorder.frame(size - 1)?.time ?? 0) / 1000,
+      replaying: replayFrameRef.current !== null,
+      canBranch: !frame || frameMatchesScene(frame, [...sceneObjectsRef.current.values()].map(obj => obj.body))
+    });
+  }, [recorder]);
+
+  const stopReplay = useCallback(() => {
+    if (replayFrameRef.current === null) return;
+    cancelAnimationFrame(replayFrameRef.current);
+    replayFrameRef.current = null;
+    reportTimeline();
+  }, [reportTimeline]);
+
+  /** A fresh scene starts at t = 0 with the default seed, so it replays identically. */
+  const restartSimulationClock = useCallback(() => {
+    if (!engineRef.current) return;
+    engineRef.current.timing.timestamp = 0;
+    graphStartRef.current = 0;
+    seedSimulation();
+    stopReplay();
+    recorder.clear();
+    timelineCursorRef.current = null;
+    reportTimeline();
+  }, [recorder, stopReplay, reportTimeline]);
+
+  const markGraphStart = useCallback(() => {
+    graphStartRef.current = engineRef.current?.timing.timestamp ?? 0;
+  }, []);
+
+  /**
+   * Removes every scene body and constraint, leaving only the boundary walls.
+   */
+  const clearWorld = useCallback(() => {
+    if (!engineRef.current) return;
+    const world = engineRef.current.world;
+    Matter.Composite.allBodies(world)
+      .filter(b => b.label !== 'Boundary')
+      .forEach(b => Matter.Composite.remove(world, b));
+    Matter.Composite.allConstraints(world)
+      .forEach(c => Matter.Composite.remove(world, c));
+    sceneObjectsRef.current.clear();
+    sceneConstraintsRef.current.clear();
+    pendingConstraintRef.current = null;
+    instrumentsRef.current = [];
+    sensorStatesRef.current.clear();
+    emitterState.fuel.clear();
+    forceTracker.clear();
+    appliedForces.clear();
+    collisionTracker.clear();
+    history.clear();
+    motionTrailsRef.current.clear();
+    onObjectSelectRef.current(null);
+    onConstraintSelectRef.current(null);
+    restartSimulationClock();
+  }, [history, emitterState, forceTracker, appliedForces, collisionTracker, restartSimulationClock]);
+
+  const attachConstraint = useCallback((sceneConstraint: SceneConstraint) => {
+    if (!engineRef.current) return;
+    addSceneConstraint(engineRef.current.world, sceneConstraint);
+    sceneConstraintsRef.current.set(sceneConstraint.id, sceneConstraint);
+  }, []);
+
+  const detachConstraint = useCallback((sceneConstraint: SceneConstraint) => {
+    if (!engineRef.current) return;
+    removeSceneConstraint(engineRef.current.world, sceneConstraint);
+    sceneConstraintsRef.current.delete(sceneConstraint.id);
+    if (selectedConstraintIdRef.current === sceneConstraint.id) onConstraintSelectRef.current(null);
+  }, []);
+
+  const attachSceneObject = useCallback((sceneObj: SceneObject, sceneConstraints: SceneConstraint[] = []) => {
+    if (!engineRef.current) return;
+    Matter.Composite.add(engineRef.current.world, sceneObj.body);
+    sceneObjectsRef.current.set(sceneObj.body.id, sceneObj);
+    sceneConstraints.forEach(attachConstraint);
+  }, [attachConstraint]);
+
+  /**
+   * Takes an object (and every constraint touching it) out of the world, returning the
+   * scene constraints that went with it so an undo can put them back.
+   */
+  const detachSceneObject = useCallback((sceneObj: SceneObject): SceneConstraint[] => {
+    if (!engineRef.current) return [];
+    const removed = removeBodyConstraints(sceneObj.body);
+    Matter.Composite.remove(engineRef.current.world, sceneObj.body);
+    sceneObjectsRef.current.delete(sceneObj.body.id);
+    motionTrailsRef.current.delete(sceneObj.body.id);
+    if (selectedObjectIdRef.current === sceneObj.id) {
+      onObjectSelectRef.current(null);
+      onPhysicsUpdateRef.current(null);
     }
-    
-    return body;
+    return removed;
+  }, [removeBodyConstraints]);
+
+  const eraseSceneObject = useCallback((sceneObj: SceneObject) => {
+    const removed = detachSceneObject(sceneObj);
+    history.record({
+      type: 'remove_object',
+      data: { objectId: sceneObj.id, definitionId: sceneObj.definitionId },
+      undo: () => attachSceneObject(sceneObj, removed),
+      redo: () => { detachSceneObject(sceneObj); }
+    });
+  }, [history, attachSceneObject, detachSceneObject]);
+
+  const eraseConstraint = useCallback((sceneConstraint: SceneConstraint) => {
+    detachConstraint(sceneConstraint);
+    history.record({
+      type: 'remove_constraint',
+      data: { constraintId: sceneConstraint.id, constraintType: sceneConstraint.type },
+      undo: () => attachConstraint(sceneConstraint),
+      redo: () => detachConstraint(sceneConstraint)
+    });
+  }, [history, attachConstraint, detachConstraint]);
+
+  const toggleBodyStatic = useCallback((body: Matter.Body) => {
+    const wasStatic = body.isStatic;
+    setBodyStatic(body, !wasStatic);
+    history.record({
+      type: 'modify_property',
+      data: { objectId: body.id.toString(), property: 'isStatic', from: wasStatic, to: !wasStatic },
+      undo: () => setBodyStatic(body, wasStatic),
+      redo: () => setBodyStatic(body, !wasStatic)
+    });
+  }, [history]);
+
+  const findConstraintAt = useCallback((point: { x: number; y: number }): SceneConstraint | null => {
+    let closest: SceneConstraint | null = null;
+    let closestDistance = CONSTRAINT_HIT_DISTANCE;
+    sceneConstraintsRef.current.forEach(sc => {
+      const distance = distanceToConstraint(sc.constraint, point);
+      if (distance < closestDistance) {
+        closest = sc;
+        closestDistance = distance;
+      }
+    });
+    return closest;
   }, []);
 
+  /**
+   * Reads a body in SI units with y pointing up: position is measured from the bottom-left
+   * corner of the canvas, and potential energy from its bottom edge.
+   */
   const calculatePhysicsState = useCallback((body: Matter.Body): PhysicsState => {
     const canvasHeight = renderRef.current?.canvas?.height || 600;
-    const speed = Matter.Vector.magnitude(body.velocity);
     const mass = body.mass;
-    const kineticEnergy = 0.5 * mass * speed * speed * 100;
-    const heightFromBottom = canvasHeight - body.position.y;
-    const potentialEnergy = mass * gravityScaleRef.current * 9.81 * (heightFromBottom / 100) * 10;
+    const velocity = { x: velocityToSI(body.velocity.x), y: -velocityToSI(body.velocity.y) };
+    const speed = Math.hypot(velocity.x, velocity.y);
+    const g = gravityScaleRef.current * STANDARD_GRAVITY;
+    const height = toMeters(canvasHeight - body.position.y);
+    const kineticEnergy = 0.5 * mass * speed * speed;
+    const potentialEnergy = Math.max(0, mass * g * height);
+    const dynamics = forceTracker.dynamics.get(body.id);
     
     return {
-      position: { x: body.position.x, y: body.position.y },
-      velocity: { x: body.velocity.x * 60, y: body.velocity.y * 60 },
-      acceleration: { x: 0, y: gravityScaleRef.current * 9.81 },
-      angle: body.angle,
-      angularVelocity: body.angularVelocity,
-      force: { x: body.force.x, y: body.force.y },
+      position: { x: toMeters(body.position.x), y: height },
+      velocity,
+      acceleration: dynamics ? { ...dynamics.acceleration } : { x: 0, y: 0 },
+      angle: -body.angle,
+      angularVelocity: -body.angularVelocity * 60,
+      force: dynamics ? { ...dynamics.forces.net } : { x: 0, y: 0 },
       mass: mass,
-      speed: speed * 60,
+      speed,
       kineticEnergy: kineticEnergy,
-      potentialEnergy: Math.max(0, potentialEnergy),
-      totalEnergy: kineticEnergy + Math.max(0, potentialEnergy),
-      momentum: { x: mass * body.velocity.x * 60, y: mass * body.velocity.y * 60 }
+      potentialEnergy,
+      totalEnergy: kineticEnergy + potentialEnergy,
+      momentum: { x: mass * velocity.x, y: mass * velocity.y },
+      forces: dynamics?.forces
     };
-  }, []);
+  }, [forceTracker]);
 
   const applyForceEmitters = useCallback(() => {
-    if (!engineRef.current) return;
-    
-    const bodies = Matter.Composite.allBodies(engineRef.current.world);
-    const forceEmitters: SceneObject[] = [];
-    sceneObjectsRef.current.forEach(obj => {
-      if (obj.customData?.emitterType) forceEmitters.push(obj);
-    });
-    
-    forceEmitters.forEach(emitter => {
-      const emitterBody = emitter.body;
-      const emitterType = emitter.customData?.emitterType as string;
-      const strength = (emitter.customData?.emitterStrength as number) || 0.001;
-      const direction = ((emitter.customData?.emitterDirection as number) || 0) * (Math.PI / 180);
-      
-      bodies.forEach(body => {
-        if (body === emitterBody || body.isStatic || body.label === 'Boundary') return;
-        
-        const distance = Matter.Vector.magnitude(
-          Matter.Vector.sub(body.position, emitterBody.position)
-        );
-        
-        if (emitterType === 'fan' && distance < 300) {
-          const forceMag = strength * (1 - distance / 300);
-          Matter.Body.applyForce(body, body.position, {
-            x: Math.cos(direction) * forceMag,
-            y: Math.sin(direction) * forceMag
-          });
-        }
-        
-        if (emitterType === 'gravity_well' && distance < 250 && distance > 30) {
-          const dir = Matter.Vector.normalise(
-            Matter.Vector.sub(emitterBody.position, body.position)
-          );
-          const forceMag = strength * body.mass * 50000 / (distance * distance);
-          Matter.Body.applyForce(body, body.position, {
-            x: dir.x * forceMag,
-            y: dir.y * forceMag
-          });
-        }
-      });
-    });
-  }, []);
+    const engine = engineRef.current;
+    if (!engine) return;
+    applyEmitterForces(
+      sceneObjectsRef.current,
+      Matter.Composite.allBodies(engine.world),
+      emitterState,
+      engine.timing.timestamp,
+      engine.timing.lastDelta
+    );
+  }, [emitterState]);
 
   const drawOverlay = useCallback(() => {
     if (!overlayCanvasRef.current || !engineRef.current) return;
@@ -182,9 +591,79 @@ const PhysicsCanvas = forwardRef<PhysicsCanvasRef, PhysicsCanvasProps>(({
     
     ctx.clearRect(0, 0, overlayCanvasRef.current.width, overlayCanvasRef.current.height);
     
+    sceneObjectsRef.current.forEach(sceneObj => {
+      if (getFluid(sceneObj)) drawFluid(ctx, sceneObj);
+    });
+    
+    sceneObjectsRef.current.forEach(sceneObj => {
+      if (getEmitterType(sceneObj)) drawEmitterField(ctx, sceneObj, sceneObj.id === selId);
+    });
+    
+    sceneConstraintsRef.current.forEach(sc => {
+      const a = Matter.Constraint.pointAWorld(sc.constraint);
+      const b = Matter.Constraint.pointBWorld(sc.constraint);
+      
+      if (sc.type === 'slider') {
+        const angle = (sc.railAngle ?? 0) + (sc.constraint.bodyB?.angle ?? 0);
+        const reach = 2000;
+        ctx.strokeStyle = 'rgba(34, 211, 238, 0.35)';
+        ctx.lineWidth = 2;
+        ctx.setLineDash([8, 6]);
+        ctx.beginPath();
+        ctx.moveTo(b.x - Math.cos(angle) * reach, b.y - Math.sin(angle) * reach);
+        ctx.lineTo(b.x + Math.cos(angle) * reach, b.y + Math.sin(angle) * reach);
+        ctx.stroke();
+        ctx.setLineDash([]);
+      }
+      
+      if (sc.id === selectedConstraintIdRef.current) {
+        ctx.strokeStyle = '#6366f1';
+        ctx.lineWidth = 6;
+        ctx.lineCap = 'round';
+        ctx.shadowColor = '#6366f1';
+        ctx.shadowBlur = 12;
+        ctx.beginPath();
+        ctx.moveTo(a.x, a.y);
+        ctx.lineTo(b.x, b.y);
+        ctx.stroke();
+        ctx.beginPath();
+        ctx.arc(b.x, b.y, 6, 0, Math.PI * 2);
+        ctx.stroke();
+        ctx.shadowBlur = 0;
+      }
+    });
+    
+    const pending = pendingConstraintRef.current;
+    if (pending) {
+      const anchor = toWorldPoint(pending.body, pending.localPoint);
+      const target = pointerRef.current || anchor;
+      ctx.strokeStyle = '#fbbf24';
+      ctx.fillStyle = '#fbbf24';
+      ctx.lineWidth = 2;
+      ctx.setLineDash([6, 4]);
+      ctx.beginPath();
+      ctx.moveTo(anchor.x, anchor.y);
+      ctx.lineTo(target.x, target.y);
+      ctx.stroke();
+      ctx.setLineDash([]);
+      ctx.beginPath();
+      ctx.arc(anchor.x, anchor.y, 5, 0, Math.PI * 2);
+      ctx.fill();
+    }
+    
     const bodies = Matter.Composite.allBodies(engineRef.current.world)
       .filter(b => b.label !== 'Boundary');
     
+    if (vis.showEnergyColors) {
+      const energies = new Map<number, number>();
+      bodies.forEach(body => {
+        if (!body.isStatic && !body.isSensor && sceneObjectsRef.current.has(body.id)) {
+          energies.set(body.id, calculatePhysicsState(body).kineticEnergy);
+        }
+      });
+      drawEnergyColors(ctx, bodies, energies);
+    }
+    
     bodies.forEach(body => {
       const sceneObj = sceneObjectsRef.current.get(body.id);
       if (!sceneObj) return;
@@ -240,7 +719,8 @@ const PhysicsCanvas = forwardRef<PhysicsCanvasRef, PhysicsCanvasProps>(({
         }
       }
       
-      if (vis.showForceVectors && !body.isStatic) {
+      // The selected body gets a full free-body diagram below
+      if (vis.showForceVectors && !body.isStatic && body.id.toString() !== selId) {
         const gravityForce = body.mass * gravity * 20;
         ctx.strokeStyle = '#f59e0b';
         ctx.lineWidth = 2;
@@ -268,13 +748,231 @@ const PhysicsCanvas = forwardRef<PhysicsCanvasRef, PhysicsCanvasProps>(({
         ctx.shadowBlur = 0;
       }
     });
-  }, []);
+    
+    if (vis.showCollisionPoints) {
+      drawCollisionPoints(ctx, collisionTracker, engineRef.current.timing.timestamp);
+    }
+    
+    sceneObjectsRef.current.forEach(sceneObj => {
+      if (getEmitterType(sceneObj) === 'rocket' && isRocketBurning(emitterState, sceneObj)) {
+        drawRocketFlame(ctx, sceneObj, emitterState);
+      }
+    });
+    
+    if (vis.showTrajectoryPrediction) {
+      // A body being dragged is predicted as if let go now, otherwise the selected one
+      const dragged = draggedBodyRef.current;
+      const selected = selId ? sceneObjectsRef.current.get(parseInt(selId))?.body : undefined;
+      const target = dragged && !dragged.originalStatic
+        ? { body: dragged.body, velocity: dragged.velocity ?? { x: 0, y: 0 } }
+        : selected && !selected.isStatic ? { body: selected, velocity: selected.velocity } : null;
+      
+      if (target) {
+        const now = performance.now();
+        let cached = trajectoryRef.current;
+        if (!cached || cached.bodyId !== target.body.id || now - cached.computedAt > TRAJECTORY_REFRESH_INTERVAL) {
+          cached = {
+            bodyId: target.body.id,
+            computedAt: now,
+            prediction: predictTrajectory(
+              engineRef.current, target.body, target.velocity, sceneObjectsRef.current, emitterState,
+              { width: overlayCanvasRef.current.width, height: overlayCanvasRef.current.height }
+            )
+          };
+          trajectoryRef.current = cached;
+        }
+        drawTrajectory(ctx, cached.prediction);
+      }
+    }
+    
+    const selectedDynamics = selId ? forceTracker.dynamics.get(parseInt(selId)) : undefined;
+    const selectedBody = selId ? sceneObjectsRef.current.get(parseInt(selId))?.body : undefined;
+    if (vis.showForceVectors && selectedBody && selectedDynamics) {
+      drawFreeBodyDiagram(ctx, selectedBody, selectedDynamics);
+    }
+    
+    const now = engineRef.current?.timing.timestamp ?? 0;
+    sceneObjectsRef.current.forEach(sceneObj => {
+      const force = appliedForces.activeForce(sceneObj.body.id, now);
+      if (force) drawAppliedForce(ctx, sceneObj.body, force);
+    });
+    if (slingshotRef.current) drawSlingshot(ctx, slingshotRef.current.body, slingshotRef.current.pointer);
+    
+    sceneObjectsRef.current.forEach(sceneObj => {
+      const sensorType = getSensorType(sceneObj);
+      if (!sensorType) return;
+      const state = sensorStatesRef.current.get(sceneObj.body.id);
+      
+      if (sensorType === 'speed_gate') {
+        drawSensorLabel(ctx, sceneObj.body, sensorType, state?.lastReading
+          ? [formatSpeed(state.lastReading.speed), `${state.passes} ${state.passes === 1 ? 'pass' : 'passes'}`]
+          : ['Waiting']);
+        return;
+      }
+      
+      const inside = [...(state?.occupants ?? [])]
+        .map(id => sceneObjectsRef.current.get(id))
+        .filter((obj): obj is SceneObject => !!obj)
+        .map(obj => calculatePhysicsState(obj.body));
+      drawSensorLabel(ctx, sceneObj.body, sensorType, inside.length > 0
+        ? [
+            `KE ${formatEnergy(inside.reduce((sum, s) => sum + s.kineticEnergy, 0))}`,
+            `PE ${formatEnergy(inside.reduce((sum, s) => sum + s.potentialEnergy, 0))}`
+          ]
+        : ['Empty']);
+    });
+    
+    if (vis.showMeasurements) {
+      const now = engineRef.current?.timing.timestamp ?? 0;
+      instrumentsRef.current.forEach(instrument => {
+        const target = instrument.targetObjectId
+          ? sceneObjectsRef.current.get(parseInt(instrument.targetObjectId))
+          : undefined;
+        if (target) instrument.end = { ...target.body.position };
+        drawInstrument(ctx, instrument, now);
+      });
+    }
+    
+    const gizmo = getSelectedGizmo();
+    if (gizmo) {
+      const { body } = gizmo.sceneObj;
+      const dragging = gizmoDragRef.current;
+      ctx.strokeStyle = '#818cf8';
+      ctx.fillStyle = '#0f172a';
+      ctx.lineWidth = 2;
+      gizmo.handles.forEach(handle => {
+        ctx.beginPath();
+        if (handle.kind === 'rotate') {
+          ctx.moveTo(body.position.x, body.position.y);
+          ctx.lineTo(handle.x, handle.y);
+          ctx.stroke();
+          ctx.beginPath();
+          ctx.arc(handle.x, handle.y, HANDLE_RADIUS, 0, Math.PI * 2);
+        } else {
+          ctx.rect(handle.x - HANDLE_RADIUS + 1, handle.y - HANDLE_RADIUS + 1, (HANDLE_RADIUS - 1) * 2, (HANDLE_RADIUS - 1) * 2);
+        }
+        ctx.fill();
+        ctx.stroke();
+      });
+      
+      if (dragging && gizmo.handles.length > 0) {
+        const anchor = gizmo.handles.find(h => h.kind === dragging.kind) || gizmo.handles[0];
+        const label = dragging.kind === 'rotate'
+          ? formatDegrees(body.angle)
+          : dragging.kind === 'radius'
+            ? `r ${gizmo.dims.radius} px`
+            : `${gizmo.dims.width} × ${gizmo.dims.height} px`;
+        ctx.font = '600 12px JetBrains Mono, monospace';
+        const textWidth = ctx.measureText(label).width;
+        ctx.fillStyle = 'rgba(15, 23, 42, 0.9)';
+        ctx.fillRect(anchor.x + 12, anchor.y - 22, textWidth + 12, 20);
+        ctx.fillStyle = '#e0e7ff';
+        ctx.fillText(label, anchor.x + 18, anchor.y - 8);
+      }
+    }
+  }, [calculatePhysicsState, getSelectedGizmo, emitterState, forceTracker, appliedForces, collisionTracker]);
+
+  /**
+   * Re-reports the current selection after an undo/redo, dropping it if the object or
+   * constraint no longer exists so the properties panel never edits a detached body.
+   */
+  const syncSelection = useCallback(() => {
+    const selId = selectedObjectIdRef.current;
+    const sceneObj = selId ? sceneObjectsRef.current.get(parseInt(selId)) : undefined;
+    if (sceneObj) {
+      onPhysicsUpdateRef.current(calculatePhysicsState(sceneObj.body));
+    } else if (selId) {
+      onObjectSelectRef.current(null);
+      onPhysicsUpdateRef.current(null);
+    }
+    
+    const constraintId = selectedConstraintIdRef.current;
+    if (constraintId) {
+      const sc = sceneConstraintsRef.current.get(constraintId);
+      onConstraintSelectRef.current(sc ? { ...sc } : null);
+    }
+    drawOverlay();
+  }, [calculatePhysicsState, drawOverlay]);
+
+  const showTimelineFrame = useCallback((index: number) => {
+    const engine = engineRef.current;
+    const frame = recorder.frame(index);
+    if (!engine || !frame) return;
+    // The App pauses too, but not before the loop's next frame could step the restored scene
+    if (loopRef.current) loopRef.current.enabled = false;
+    timelineCursorRef.current = index;
+    const bodies = new Map([...sceneObjectsRef.current.values()].map(obj => [obj.body.id, obj.body]));
+    restoreFrame(frame, bodies, emitterState);
+    engine.timing.timestamp = frame.time;
+    forceTracker.clear();
+    appliedForces.clear();
+    collisionTracker.clear();
+    motionTrailsRef.current.clear();
+    
+    const selId = selectedObjectIdRef.current;
+    const selected = selId ? sceneObjectsRef.current.get(parseInt(selId)) : undefined;
+    if (selected) onPhysicsUpdateRef.current(calculatePhysicsState(selected.body));
+    drawOverlay();
+    reportTimeline();
+  }, [recorder, emitterState, forceTracker, appliedForces, collisionTracker, calculatePhysicsState, drawOverlay, reportTimeline]);
+
+  const branchTimeline = useCallback(() => {
+    const cursor = timelineCursorRef.current;
+    stopReplay();
+    if (cursor === null) return;
+    const frame = recorder.frame(cursor);
+    const bodies = [...sceneObjectsRef.current.values()].map(obj => obj.body);
+    if (!frame || !frameMatchesScene(frame, bodies)) {
+      // Objects added or removed since then can't be put back, so carry on from the newest frame
+      const last = recorder.frame(recorder.size() - 1);
+      if (last && engineRef.current) {
+        restoreFrame(last, new Map(bodies.map(body => [body.id, body])), emitterState);
+        engineRef.current.timing.timestamp = last.time;
+      }
+      timelineCursorRef.current = null;
+      drawOverlay();
+      reportTimeline();
+      return;
+    }
+    recorder.truncate(cursor);
+    timelineCursorRef.current = null;
+    onTimelineBranchRef.current((frame.time - graphStartRef.current) / 1000, frame.time / 1000);
+    reportTimeline();
+  }, [recorder, emitterState, stopReplay, drawOverlay, reportTimeline]);
+
+  const replayTimeline = useCallback((speed: number) => {
+    stopReplay();
+    const last = recorder.size() - 1;
+    if (last < 1) return;
+    const cursor = timelineCursorRef.current;
+    // Replaying from the live end starts over from the oldest frame
+    let time = recorder.frame(cursor === null || cursor >= last ? 0 : cursor)!.time;
+    let previous: number | null = null;
+    
+    const tick = (now: number) => {
+      time += previous === null ? 0 : (now - previous) * speed;
+      previous = now;
+      const index = frameIndexAt(recorder, time);
+      replayFrameRef.current = index < last ? requestAnimationFrame(tick) : null;
+      showTimelineFrame(index);
+    };
+    replayFrameRef.current = requestAnimationFrame(tick);
+    reportTimeline();
+  }, [recorder, stopReplay, showTimelineFrame, reportTimeline]);
+
+  useEffect(() => () => stopReplay(), [stopReplay]);
 
   useEffect(() => {
     if (!sceneRef.current) return;
 
     const engine = Matter.Engine.create({ enableSleeping: false });
+    engine.gravity.scale = engineGravityScale();
     engineRef.current = engine;
+    const removePairOverrides = installPairOverrides(body => {
+      const sceneObj = sceneObjectsRef.current.get(body.id);
+      const material = sceneObj?.body === body ? sceneObj.customData.material : undefined;
+      return typeof material === 'string' ? material : undefined;
+    });
 
     const render = Matter.Render.create({
       element: sceneRef.current,
@@ -348,12 +1046,9 @@ const PhysicsCanvas = forwardRef<PhysicsCanvasRef, PhysicsCanvasProps>(({
     Matter.Composite.add(engine.world, mouseConstraint);
     render.mouse = mouse;
     
-    // Custom Drag State
-    const draggedBodyRef = { current: null as { body: Matter.Body; originalStatic: boolean; lastPos: { x: number; y: number } } | null };
-
     Matter.Events.on(mouseConstraint, 'mousedown', (event) => {
       const currentTool = toolRef.current;
-      if (currentTool !== ToolType.POINTER) return;
+      if (currentTool !== ToolType.POINTER || instrumentDragRef.current || emitterDragRef.current) return;
       
       const mousePosition = event.mouse.position;
       const bodies = Matter.Query.point(Matter.Composite.allBodies(engine.world), mousePosition);
@@ -369,14 +1064,16 @@ const PhysicsCanvas = forwardRef<PhysicsCanvasRef, PhysicsCanvasProps>(({
     });
 
     Matter.Events.on(mouseConstraint, 'startdrag', (event: any) => {
-      if (toolRef.current !== ToolType.POINTER) return;
+      if (toolRef.current !== ToolType.POINTER || instrumentDragRef.current || emitterDragRef.current) return;
       const body = event.body;
       if (body.label === 'Boundary') return; 
 
       draggedBodyRef.current = {
         body,
         originalStatic: body.isStatic,
-        lastPos: { ...body.position }
+        lastPos: { ...body.position },
+        startPos: { ...body.position },
+        startAngle: body.angle
       };
       
       Matter.Body.setStatic(body, true);
@@ -399,11 +1096,26 @@ const PhysicsCanvas = forwardRef<PhysicsCanvasRef, PhysicsCanvasProps>(({
         // Apply throwing velocity
         Matter.Body.setVelocity(dragData.body, dragData.velocity);
       }
+      
+      const { body, startPos, startAngle } = dragData;
+      const endPos = { ...body.position };
+      const endAngle = body.angle;
+      if (Matter.Vector.magnitude(Matter.Vector.sub(endPos, startPos)) > 1) {
+        history.record({
+          type: 'move_object',
+          data: { objectId: body.id.toString(), from: startPos, to: endPos },
+          undo: () => placeBody(body, startPos, startAngle),
+          redo: () => placeBody(body, endPos, endAngle)
+        });
+      }
       draggedBodyRef.current = null;
     });
     
     Matter.Events.on(engine, 'beforeUpdate', () => {
-        applyForceEmitters();
+        const bodies = Matter.Composite.allBodies(engine.world);
+        forceTracker.measure(bodies, applyForceEmitters, 'emitter');
+        forceTracker.measure(bodies, () => applyFluidForces(sceneObjectsRef.current, bodies, engine.gravity), 'buoyancy', 'drag');
+        forceTracker.measure(bodies, () => appliedForces.apply(bodies, engine.timing.timestamp), 'applied');
         
         const dragData = draggedBodyRef.current as any;
         if (dragData) {
@@ -418,13 +1130,61 @@ const PhysicsCanvas = forwardRef<PhysicsCanvasRef, PhysicsCanvasProps>(({
     });
 
 
+    Matter.Events.on(engine, 'collisionStart', (event) => {
+      let triggered = false;
+      event.pairs.forEach(pair => {
+        const match = matchSensorPair(pair);
+        if (!match || match.body.isStatic) return;
+        
+        // Fans, wells and fluid tanks are sensor bodies too, but only lab sensors trigger stopwatches
+        const sensorObj = sceneObjectsRef.current.get(match.sensor.id);
+        const sensorType = sensorObj && getSensorType(sensorObj);
+        if (!sensorObj || !sensorType) return;
+        triggered = true;
+        
+        let state = sensorStatesRef.current.get(match.sensor.id);
+        if (!state) {
+          state = { occupants: new Set(), passes: 0 };
+          sensorStatesRef.current.set(match.sensor.id, state);
+        }
+        // Compound bodies touch with several parts at once; count the body once
+        if (state.occupants.has(match.body.id)) return;
+        state.occupants.add(match.body.id);
+        
+        const reading = createSensorReading(
+          sensorObj, sensorType, match.body, calculatePhysicsState(match.body), getSimulationTime(engine)
+        );
+        state.lastReading = reading;
+        if (sensorType === 'speed_gate') state.passes++;
+        onSensorReadingRef.current(reading);
+      });
+      if (triggered) triggerStopwatches(instrumentsRef.current, engine.timing.timestamp);
+    });
+    
+    Matter.Events.on(engine, 'collisionEnd', (event) => {
+      event.pairs.forEach(pair => {
+        const match = matchSensorPair(pair);
+        if (match) sensorStatesRef.current.get(match.sensor.id)?.occupants.delete(match.body.id);
+      });
+    });
+
     Matter.Render.run(render);
-    const runner = Matter.Runner.create();
-    runnerRef.current = runner;
-    Matter.Runner.run(runner, engine);
+    seedSimulation();
+    const loop = createSimulationLoop(engine);
+    loop.enabled = !isPausedRef.current;
+    loopRef.current = loop;
 
     
     Matter.Events.on(engine, 'afterUpdate', () => {
+      applyConstraintBehaviors(sceneConstraintsRef.current.values());
+      forceTracker.update(engine, getConstrainedBodyIds(engine.world));
+      collisionTracker.update(engine);
+      recorder.record(engine.timing.timestamp, [...sceneObjectsRef.current.values()].map(obj => obj.body), emitterState);
+      const now = performance.now();
+      if (now - lastTimelineReportRef.current > TIMELINE_REPORT_INTERVAL) {
+        lastTimelineReportRef.current = now;
+        reportTimeline();
+      }
       drawOverlay();
       
       const selId = selectedObjectIdRef.current;
@@ -435,20 +1195,29 @@ const PhysicsCanvas = forwardRef<PhysicsCanvasRef, PhysicsCanvasProps>(({
           const state = calculatePhysicsState(body);
           onPhysicsUpdateRef.current(state);
           
-          const elapsed = (Date.now() - startTimeRef.current) / 1000;
-          onGraphDataUpdateRef.current({
-            time: elapsed,
-            positionX: state.position.x,
-            positionY: state.position.y,
-            velocityX: state.velocity.x,
-            velocityY: state.velocity.y,
-            speed: state.speed,
-            kineticEnergy: state.kineticEnergy,
-            potentialEnergy: state.potentialEnergy,
-            totalEnergy: state.totalEnergy
-          });
+          const elapsed = getSimulationTime(engine) - graphStartRef.current / 1000;
+          onGraphDataUpdateRef.current(graphPointFromState(state, elapsed));
         }
       }
+      
+      // Pinned series share simulation time, so they line up whatever is selected
+      const pinned = pinnedObjectIdsRef.current;
+      if (pinned.length > 0) {
+        const time = getSimulationTime(engine);
+        const points: Record<string, GraphDataPoint> = {};
+        pinned.forEach(id => {
+          if (id === SYSTEM_SERIES_ID) {
+            const states = [...sceneObjectsRef.current.values()]
+              .filter(obj => !obj.body.isStatic && !obj.body.isSensor)
+              .map(obj => calculatePhysicsState(obj.body));
+            points[id] = systemGraphPoint(states, time);
+            return;
+          }
+          const sceneObj = sceneObjectsRef.current.get(parseInt(id));
+          if (sceneObj) points[id] = graphPointFromState(calculatePhysicsState(sceneObj.body), time);
+        });
+        onSeriesDataUpdateRef.current(points);
+      }
     });
 
     const handleResize = () => {
@@ -469,12 +1238,13 @@ const PhysicsCanvas = forwardRef<PhysicsCanvasRef, PhysicsCanvasProps>(({
     return () => {
       window.removeEventListener('resize', handleResize);
       Matter.Events.off(engine, 'beforeUpdate', applyForceEmitters);
+      removePairOverrides();
       Matter.Render.stop(render);
-      Matter.Runner.stop(runner);
+      loop.stop();
       if (render.canvas) render.canvas.remove();
       if (overlayCanvasRef.current) overlayCanvasRef.current.remove();
     };
-  }, [applyForceEmitters, calculatePhysicsState, drawOverlay]);
+  }, [applyForceEmitters, calculatePhysicsState, drawOverlay, reportTimeline, history, emitterState, forceTracker, appliedForces, collisionTracker, recorder]);
 
   useEffect(() => {
     if (engineRef.current) {
@@ -483,10 +1253,20 @@ const PhysicsCanvas = forwardRef<PhysicsCanvasRef, PhysicsCanvasProps>(({
   }, [gravityScale]);
 
   useEffect(() => {
-    if (runnerRef.current) {
-      runnerRef.current.enabled = !isPaused;
+    if (engineRef.current) {
+      engineRef.current.gravity.scale = engineGravityScale(pixelsPerMeter);
+    }
+  }, [pixelsPerMeter]);
+
+  useEffect(() => {
+    isPausedRef.current = isPaused;
+    // Playing from a rewound frame carries on from there
+    if (!isPaused) branchTimeline();
+    else reportTimeline();
+    if (loopRef.current) {
+      loopRef.current.enabled = !isPaused;
     }
-  }, [isPaused]);
+  }, [isPaused, branchTimeline, reportTimeline]);
 
   useEffect(() => {
     if (engineRef.current) {
@@ -502,30 +1282,25 @@ const PhysicsCanvas = forwardRef<PhysicsCanvasRef, PhysicsCanvasProps>(({
         Matter.Body.setVelocity(obj.body, { x: 0, y: 0 });
         Matter.Body.setAngularVelocity(obj.body, 0);
       });
+      emitterState.fuel.clear();
+      forceTracker.clear();
+      appliedForces.clear();
+      collisionTracker.clear();
       motionTrailsRef.current.clear();
-      startTimeRef.current = Date.now();
+      instrumentsRef.current.forEach(instrument => {
+        if (instrument.stopwatch) instrument.stopwatch = { state: 'idle', startedAt: 0, elapsed: 0 };
+      });
+      restartSimulationClock();
     },
     clear: () => {
-      if (!engineRef.current) return;
-      const bodies = Matter.Composite.allBodies(engineRef.current.world);
-      bodies.forEach(b => {
-        if (b.label !== 'Boundary') {
-          Matter.Composite.remove(engineRef.current!.world, b);
-        }
-      });
-      const constraints = Matter.Composite.allConstraints(engineRef.current.world);
-      constraints.forEach(c => {
-        Matter.Composite.remove(engineRef.current!.world, c);
-      });
-      sceneObjectsRef.current.clear();
-      motionTrailsRef.current.clear();
-      onObjectSelectRef.current(null);
-      startTimeRef.current = Date.now();
+      clearWorld();
     },
     stepFrame: () => {
-      if (engineRef.current) {
-        Matter.Engine.update(engineRef.current, 1000 / 60);
+      if (loopRef.current) {
+        branchTimeline();
+        loopRef.current.step();
         drawOverlay();
+        reportTimeline();
       }
     },
     modifySelectedProperty: (property: string, value: number | boolean) => {
@@ -533,37 +1308,56 @@ const PhysicsCanvas = forwardRef<PhysicsCanvasRef, PhysicsCanvasProps>(({
       if (!selId || !engineRef.current) return;
       const body = Matter.Composite.allBodies(engineRef.current.world)
         .find(b => b.id === parseInt(selId));
-      if (!body) return;
+      if (!body || !TUNABLE_BODY_PROPERTIES.includes(property as TunableBodyProperty)) return;
       
-      if (property === 'mass') Matter.Body.setMass(body, value as number);
-      else if (property === 'friction') body.friction = value as number;
-      else if (property === 'restitution') body.restitution = value as number;
-      else if (property === 'frictionAir') body.frictionAir = value as number;
+      const key = property as TunableBodyProperty;
+      const previous = body[key];
+      setBodyProperty(body, key, value as number);
+      history.record({
+        type: 'modify_property',
+        data: { objectId: selId, property, from: previous, to: value },
+        mergeKey: `${selId}:${property}`,
+        undo: () => setBodyProperty(body, key, previous),
+        redo: () => setBodyProperty(body, key, value as number)
+      });
+    },
+    applyMaterialToSelected: (materialName: string) => {
+      const selId = selectedObjectIdRef.current;
+      const sceneObj = selId ? sceneObjectsRef.current.get(parseInt(selId)) : undefined;
+      const material = presetMaterial(materialName);
+      if (!sceneObj || !material) return;
+      const previous = readBodyMaterial(sceneObj);
+      setObjectMaterial(sceneObj, material);
+      history.record({
+        type: 'modify_property',
+        data: { objectId: selId, property: 'material', from: previous.name, to: materialName },
+        undo: () => setObjectMaterial(sceneObj, previous),
+        redo: () => setObjectMaterial(sceneObj, material)
+      });
+      syncSelection();
+    },
+    applyForceToSelected: (force: Vector2D, seconds: number) => {
+      const selId = selectedObjectIdRef.current;
+      const sceneObj = selId ? sceneObjectsRef.current.get(parseInt(selId)) : undefined;
+      if (!sceneObj || sceneObj.body.isStatic || !engineRef.current) return;
+      if (seconds > 0) {
+        appliedForces.addForce(sceneObj.body.id, force, seconds, engineRef.current.timing.timestamp);
+      } else {
+        appliedForces.addImpulse(sceneObj.body.id, force);
+      }
+      drawOverlay();
     },
     toggleSelectedStatic: () => {
       const selId = selectedObjectIdRef.current;
       if (!selId || !engineRef.current) return;
       const body = Matter.Composite.allBodies(engineRef.current.world)
         .find(b => b.id === parseInt(selId));
-      if (body) {
-        Matter.Body.setStatic(body, !body.isStatic);
-        body.render.opacity = body.isStatic ? 0.7 : 1;
-      }
+      if (body) toggleBodyStatic(body);
     },
     deleteSelected: () => {
       const selId = selectedObjectIdRef.current;
-      if (!selId || !engineRef.current) return;
-      const body = Matter.Composite.allBodies(engineRef.current.world)
-        .find(b => b.id === parseInt(selId));
-      if (body) {
-        const constraints = Matter.Composite.allConstraints(engineRef.current.world)
-          .filter(c => c.bodyA === body || c.bodyB === body);
-        constraints.forEach(c => Matter.Composite.remove(engineRef.current!.world, c));
-        Matter.Composite.remove(engineRef.current.world, body);
-        sceneObjectsRef.current.delete(body.id);
-        motionTrailsRef.current.delete(body.id);
-        onObjectSelectRef.current(null);
-      }
+      const sceneObj = selId ? sceneObjectsRef.current.get(parseInt(selId)) : undefined;
+      if (sceneObj) eraseSceneObject(sceneObj);
     },
     resetSelectedPosition: () => {
       const selId = selectedObjectIdRef.current;
@@ -583,17 +1377,7 @@ const PhysicsCanvas = forwardRef<PhysicsCanvasRef, PhysicsCanvasProps>(({
       const experiment = getExperimentById(experimentId);
       if (!experiment) return;
       
-      const bodies = Matter.Composite.allBodies(engineRef.current.world);
-      bodies.forEach(b => {
-        if (b.label !== 'Boundary') {
-          Matter.Composite.remove(engineRef.current!.world, b);
-        }
-      });
-      const constraints = Matter.Composite.allConstraints(engineRef.current.world);
-      constraints.forEach(c => Matter.Composite.remove(engineRef.current!.world, c));
-      sceneObjectsRef.current.clear();
-      motionTrailsRef.current.clear();
-      onObjectSelectRef.current(null);
+      clearWorld();
       
       const createdBodies: Matter.Body[] = [];
       
@@ -623,13 +1407,13 @@ const PhysicsCanvas = forwardRef<PhysicsCanvasRef, PhysicsCanvasProps>(({
           body: body,
           initialPosition: { x: objConfig.x, y: objConfig.y },
           initialAngle: body.angle,
-          customData: definition.customData || {},
+          customData: { ...definition.customData },
           createdAt: Date.now()
         };
         sceneObjectsRef.current.set(body.id, sceneObject);
       });
       
-      experiment.constraints.forEach((constraintConfig: { type: string; objectAIndex: number; objectBIndex?: number; length?: number; stiffness?: number }) => {
+      experiment.constraints.forEach((constraintConfig) => {
         const bodyA = createdBodies[constraintConfig.objectAIndex];
         const bodyB = constraintConfig.objectBIndex !== undefined ? createdBodies[constraintConfig.objectBIndex] : null;
         
@@ -651,15 +1435,256 @@ const PhysicsCanvas = forwardRef<PhysicsCanvasRef, PhysicsCanvasProps>(({
         
         const constraint = Matter.Constraint.create(constraintOptions);
         Matter.Composite.add(engineRef.current!.world, constraint);
+        sceneConstraintsRef.current.set(constraint.id.toString(), {
+          id: constraint.id.toString(),
+          constraint,
+          type: constraintConfig.type,
+          bodyAId: bodyA.id.toString(),
+          bodyBId: bodyB?.id.toString(),
+          stiffness: constraint.stiffness
+        });
       });
       
-      startTimeRef.current = Date.now();
-    }
-  }), [drawOverlay, calculatePhysicsState, createBody]);
+      experiment.measurements?.forEach(measurement => {
+        if (measurement.type === 'energy_display') return;
+        const instrument = createInstrument(measurement.type, measurement.position, measurement.end, measurement.armB);
+        const target = measurement.targetObjectIndex !== undefined ? createdBodies[measurement.targetObjectIndex] : undefined;
+        if (target) instrument.targetObjectId = target.id.toString();
+        instrumentsRef.current.push(instrument);
+      });
+      
+    },
+    modifySelectedConstraint: (property: string, value: number) => {
+      const selId = selectedConstraintIdRef.current;
+      const sc = selId ? sceneConstraintsRef.current.get(selId) : undefined;
+      if (!sc) return;
+      const previous = getConstraintProperty(sc, property);
+      setConstraintProperty(sc, property, value);
+      history.record({
+        type: 'modify_property',
+        data: { constraintId: sc.id, property, from: previous, to: value },
+        mergeKey: `constraint:${sc.id}:${property}`,
+        undo: () => setConstraintProperty(sc, property, previous),
+        redo: () => setConstraintProperty(sc, property, value)
+      });
+    },
+    modifySelectedEmitter: (property: EmitterProperty, value: number | string) => {
+      const selId = selectedObjectIdRef.current;
+      const sceneObj = selId ? sceneObjectsRef.current.get(parseInt(selId)) : undefined;
+      if (!sceneObj || !getEmitterType(sceneObj)) return;
+      const previous = sceneObj.customData[property];
+      setEmitterProperty(sceneObj, property, value);
+      history.record({
+        type: 'modify_property',
+        data: { objectId: sceneObj.id, property, from: previous, to: value },
+        mergeKey: `${sceneObj.id}:${property}`,
+        undo: () => setEmitterProperty(sceneObj, property, previous),
+        redo: () => setEmitterProperty(sceneObj, property, value)
+      });
+      drawOverlay();
+    },
+    deleteSelectedConstraint: () => {
+      const selId = selectedConstraintIdRef.current;
+      const sc = selId ? sceneConstraintsRef.current.get(selId) : undefined;
+      if (sc) eraseConstraint(sc);
+    },
+    undo: () => {
+      if (history.undo()) syncSelection();
+    },
+    redo: () => {
+      if (history.redo()) syncSelection();
+    },
+    getSceneSnapshot: () => {
+      const sceneObjects = Array.from(sceneObjectsRef.current.values());
+      const indexOf = (body: Matter.Body | null | undefined) =>
+        body ? sceneObjects.findIndex(obj => obj.body === body) : -1;
+      
+      const objects = sceneObjects.map(obj => {
+        const { body } = obj;
+        return {
+          definitionId: obj.definitionId,
+          position: { ...body.position },
+          angle: body.angle,
+          velocity: { ...body.velocity },
+          angularVelocity: body.angularVelocity,
+          isStatic: body.isStatic,
+          initialPosition: { ...obj.initialPosition },
+          initialAngle: obj.initialAngle,
+          dimensions: obj.dimensions,
+          material: {
+            // Static bodies report infinite mass; their density already fixes it on reload
+            mass: body.isStatic ? undefined : body.mass,
+            friction: body.friction,
+            frictionStatic: body.frictionStatic,
+            frictionAir: body.frictionAir,
+            restitution: body.restitution
+          },
+          customData: obj.customData,
+          definition: definitionToCarry(obj.definitionId)
+        };
+      });
+      
+      const constraints: SceneSnapshot['constraints'] = [];
+      sceneConstraintsRef.current.forEach(sc => {
+        const objectAIndex = indexOf(sc.constraint.bodyA);
+        if (objectAIndex < 0) return;
+        const objectBIndex = indexOf(sc.constraint.bodyB);
+        constraints.push({
+          type: sc.type,
+          objectAIndex,
+          objectBIndex: objectBIndex >= 0 ? objectBIndex : undefined,
+          pointA: Matter.Constraint.pointAWorld(sc.constraint),
+          pointB: Matter.Constraint.pointBWorld(sc.constraint),
+          length: sc.constraint.length,
+          stiffness: getConstraintProperty(sc, 'stiffness'),
+          damping: getConstraintProperty(sc, 'damping'),
+          railAngle: sc.railAngle,
+          lockedAngle: sc.lockedAngle
+        });
+      });
+      
+      // Body ids change on reload, so a ruler's target is saved by its place in `objects`
+      const instruments = instrumentsRef.current.map(instrument => {
+        const targetIndex = sceneObjects.findIndex(obj => obj.id === instrument.targetObjectId);
+        return {
+          ...instrument,
+          targetObjectId: undefined,
+          targetObjectIndex: targetIndex >= 0 ? targetIndex : undefined,
+          stopwatch: instrument.stopwatch && { state: 'idle' as const, startedAt: 0, elapsed: 0 }
+        };
+      });
+      
+      return {
+        objects,
+        constraints,
+        instruments,
+        gravity: gravityScaleRef.current,
+        timeScale: engineRef.current?.timing.timeScale ?? 1,
+        visualization: { ...visualizationRef.current }
+      };
+    },
+    loadSceneSnapshot: (snapshot: SceneSnapshot) => {
+      if (!engineRef.current) return;
+      clearWorld();
+      
+      const createdBodies: (Matter.Body | null)[] = snapshot.objects.map(saved => {
+        if (saved.definition) rememberUserObject(saved.definition);
+        const definition = getObjectById(saved.definitionId);
+        const body = definition
+          ? createBody(saved.dimensions ? { ...definition, ...saved.dimensions } : definition, saved.position.x, saved.position.y)
+          : null;
+        if (!definition || !body) return null;
+        
+        // A material picked in the lab brings back its colour, and a locked body's density
+        const savedMaterial = saved.customData.material;
+        const picked = typeof savedMaterial === 'string' && savedMaterial !== definition.customData?.material
+          ? presetMaterial(savedMaterial)
+          : undefined;
+        if (picked) setBodyMaterial(body, picked);
+        
+        const { material } = saved;
+        if (material.mass !== undefined) Matter.Body.setMass(body, material.mass);
+        body.friction = material.friction;
+        body.frictionStatic = material.frictionStatic;
+        body.frictionAir = material.frictionAir;
+        body.restitution = material.restitution;
+        if (body.isStatic !== saved.isStatic) setBodyStatic(body, saved.isStatic);
+        Matter.Body.setAngle(body, saved.angle);
+        if (!saved.isStatic) {
+          Matter.Body.setVelocity(body, saved.velocity);
+          Matter.Body.setAngularVelocity(body, saved.angularVelocity);
+        }
+        
+        Matter.Composite.add(engineRef.current!.world, body);
+        sceneObjectsRef.current.set(body.id, {
+          id: body.id.toString(),
+          definitionId: definition.id,
+          body,
+          initialPosition: { ...saved.initialPosition },
+          initialAngle: saved.initialAngle,
+          customData: { ...saved.customData },
+          createdAt: Date.now(),
+          dimensions: saved.dimensions
+        });
+        return body;
+      });
+      
+      snapshot.constraints.forEach(saved => {
+        const bodyA = createdBodies[saved.objectAIndex];
+        const bodyB = saved.objectBIndex !== undefined ? createdBodies[saved.objectBIndex] : null;
+        if (!bodyA || (saved.objectBIndex !== undefined && !bodyB)) return;
+        
+        const sceneConstraint = createSceneConstraint(
+          saved.type,
+          { body: bodyA, point: saved.pointA },
+          { body: bodyB, point: saved.pointB },
+          saved.stiffness
+        );
+        if (constraintHasLength(saved.type)) setConstraintProperty(sceneConstraint, 'length', saved.length);
+        setConstraintProperty(sceneConstraint, 'damping', saved.damping);
+        if (saved.railAngle !== undefined) sceneConstraint.railAngle = saved.railAngle;
+        if (saved.lockedAngle !== undefined) sceneConstraint.lockedAngle = saved.lockedAngle;
+        attachConstraint(sceneConstraint);
+      });
+      
+      instrumentsRef.current = (snapshot.instruments ?? []).map(({ targetObjectIndex, ...instrument }) => {
+        const target = targetObjectIndex !== undefined ? createdBodies[targetObjectIndex] : undefined;
+        return { ...instrument, targetObjectId: target?.id.toString() };
+      });
+      drawOverlay();
+    },
+    captureThumbnail: () => {
+      const source = renderRef.current?.canvas;
+      if (!source) return undefined;
+      const thumbnail = document.createElement('canvas');
+      thumbnail.width = THUMBNAIL_WIDTH;
+      thumbnail.height = THUMBNAIL_HEIGHT;
+      const ctx = thumbnail.getContext('2d');
+      if (!ctx) return undefined;
+      
+      // Matter paints its background with CSS, so fill it in before copying the layers
+      ctx.fillStyle = '#070b14';
+      ctx.fillRect(0, 0, THUMBNAIL_WIDTH, THUMBNAIL_HEIGHT);
+      ctx.drawImage(source, 0, 0, THUMBNAIL_WIDTH, THUMBNAIL_HEIGHT);
+      if (overlayCanvasRef.current) {
+        ctx.drawImage(overlayCanvasRef.current, 0, 0, THUMBNAIL_WIDTH, THUMBNAIL_HEIGHT);
+      }
+      return thumbnail.toDataURL('image/jpeg', 0.75);
+    },
+    captureFreeBodyDiagram: () => {
+      const selId = selectedObjectIdRef.current;
+      const sceneObj = selId ? sceneObjectsRef.current.get(parseInt(selId)) : undefined;
+      const dynamics = sceneObj && forceTracker.dynamics.get(sceneObj.body.id);
+      if (!sceneObj || !dynamics) return undefined;
+      const label = (sceneObj.customData.label as string | undefined) ?? sceneObj.body.label;
+      return renderFreeBodyDiagramImage(sceneObj.body, dynamics, label);
+    },
+    addInstrument: (type: InstrumentType) => {
+      const width = sceneRef.current?.clientWidth ?? 800;
+      const height = sceneRef.current?.clientHeight ?? 600;
+      // Stagger new instruments so repeated clicks don't stack them exactly
+      const offset = (instrumentsRef.current.length % 5) * 24;
+      instrumentsRef.current.push(createInstrument(type, { x: width / 2 - 100 + offset, y: height / 3 + offset }));
+      drawOverlay();
+    },
+    seekTimeline: (index: number) => {
+      stopReplay();
+      showTimelineFrame(Math.max(0, Math.min(index, recorder.size() - 1)));
+    },
+    replayTimeline,
+    stopReplay,
+    branchTimeline
+  }), [drawOverlay, calculatePhysicsState, createBody, history, emitterState, forceTracker, appliedForces, collisionTracker, recorder, clearWorld, restartSimulationClock, attachConstraint, toggleBodyStatic, eraseSceneObject, eraseConstraint, syncSelection, showTimelineFrame, replayTimeline, stopReplay, branchTimeline, reportTimeline]);
 
   const handleDrop = (e: React.DragEvent) => {
     e.preventDefault();
     if (!engineRef.current || !sceneRef.current) return;
+    
+    const file = e.dataTransfer.files[0];
+    if (file) {
+      onFileDrop(file);
+      return;
+    }
 
     try {
       const data = e.dataTransfer.getData('application/json');
@@ -679,14 +1704,20 @@ const PhysicsCanvas = forwardRef<PhysicsCanvasRef, PhysicsCanvasProps>(({
           body: body,
           initialPosition: { x, y },
           initialAngle: body.angle,
-          customData: definition.customData || {},
+          customData: { ...definition.customData },
           createdAt: Date.now()
         };
         sceneObjectsRef.current.set(body.id, sceneObject);
+        history.record({
+          type: 'add_object',
+          data: { objectId: sceneObject.id, definitionId: definition.id },
+          undo: () => { detachSceneObject(sceneObject); },
+          redo: () => attachSceneObject(sceneObject)
+        });
         
         onObjectSelect(sceneObject);
         onPhysicsUpdate(calculatePhysicsState(body));
-        startTimeRef.current = Date.now();
+        markGraphStart();
       }
     } catch (err) {
       console.error("Failed to create object", err);
@@ -699,6 +1730,10 @@ const PhysicsCanvas = forwardRef<PhysicsCanvasRef, PhysicsCanvasProps>(({
   };
 
   const handleCanvasClick = (e: React.MouseEvent) => {
+    if (suppressClickRef.current) {
+      suppressClickRef.current = false;
+      return;
+    }
     if (tool !== ToolType.POINTER || !engineRef.current || !sceneRef.current) return;
     
     const rect = sceneRef.current.getBoundingClientRect();
@@ -713,14 +1748,75 @@ const PhysicsCanvas = forwardRef<PhysicsCanvasRef, PhysicsCanvasProps>(({
       if (sceneObj) {
         onObjectSelect(sceneObj);
         onPhysicsUpdate(calculatePhysicsState(clickedBody));
-        startTimeRef.current = Date.now();
+        markGraphStart();
       }
     } else {
+      const constraint = findConstraintAt({ x, y });
       onObjectSelect(null);
       onPhysicsUpdate(null);
+      onConstraintSelect(constraint);
     }
   };
 
+  const startGizmoDrag = (kind: GizmoHandleKind, sceneObj: SceneObject) => {
+    const body = sceneObj.body;
+    const wasStatic = body.isStatic;
+    const startAngle = body.angle;
+    const startDimensions = getObjectDimensions(sceneObj, getObjectById(sceneObj.definitionId));
+    if (kind === 'rotate' && !wasStatic) Matter.Body.setStatic(body, true);
+    gizmoDragRef.current = { kind, sceneObj, wasStatic };
+    
+    const handleMove = (moveEvent: MouseEvent) => {
+      if (!sceneRef.current) return;
+      const rect = sceneRef.current.getBoundingClientRect();
+      const pointer = { x: moveEvent.clientX - rect.left, y: moveEvent.clientY - rect.top };
+      if (kind === 'rotate') {
+        Matter.Body.setAngle(body, rotationFromPointer(body, pointer, moveEvent.shiftKey));
+      } else {
+        const def = getObjectById(sceneObj.definitionId);
+        const next = dimensionsFromPointer(body, kind, pointer, getObjectDimensions(sceneObj, def));
+        resizeSceneObject(sceneObj, next);
+      }
+      drawOverlay();
+    };
+    
+    const handleUp = () => {
+      window.removeEventListener('mousemove', handleMove);
+      window.removeEventListener('mouseup', handleUp);
+      if (kind === 'rotate' && !wasStatic) {
+        Matter.Body.setStatic(body, false);
+        Matter.Body.setAngularVelocity(body, 0);
+      }
+      gizmoDragRef.current = null;
+      
+      if (kind === 'rotate' && body.angle !== startAngle) {
+        const endAngle = body.angle;
+        history.record({
+          type: 'move_object',
+          data: { objectId: sceneObj.id, fromAngle: startAngle, toAngle: endAngle },
+          undo: () => Matter.Body.setAngle(body, startAngle),
+          redo: () => Matter.Body.setAngle(body, endAngle)
+        });
+      } else if (
+        kind !== 'rotate' && sceneObj.dimensions
+        && !sameDimensions(startDimensions, getObjectDimensions(sceneObj, getObjectById(sceneObj.definitionId)))
+      ) {
+        const endDimensions = sceneObj.dimensions;
+        history.record({
+          type: 'modify_property',
+          data: { objectId: sceneObj.id, property: 'dimensions', from: startDimensions, to: endDimensions },
+          undo: () => resizeSceneObject(sceneObj, startDimensions),
+          redo: () => resizeSceneObject(sceneObj, endDimensions)
+        });
+      }
+      onPhysicsUpdateRef.current(calculatePhysicsState(body));
+      drawOverlay();
+    };
+    
+    window.addEventListener('mousemove', handleMove);
+    window.addEventListener('mouseup', handleUp);
+  };
+
   const handleToolAction = (e: React.MouseEvent) => {
     if (!engineRef.current || !sceneRef.current) return;
     
@@ -731,27 +1827,232 @@ const PhysicsCanvas = forwardRef<PhysicsCanvasRef, PhysicsCanvasProps>(({
     const bodies = Matter.Query.point(Matter.Composite.allBodies(engineRef.current.world), { x, y });
     const clickedBody = bodies.find(b => b.label !== 'Boundary');
     
-    if (tool === ToolType.ERASER && clickedBody) {
-      const constraints = Matter.Composite.allConstraints(engineRef.current.world)
-        .filter(c => c.bodyA === clickedBody || c.bodyB === clickedBody);
-      constraints.forEach(c => Matter.Composite.remove(engineRef.current!.world, c));
-      Matter.Composite.remove(engineRef.current.world, clickedBody);
-      sceneObjectsRef.current.delete(clickedBody.id);
-      if (selectedObjectId === clickedBody.id.toString()) {
+    if (tool === ToolType.ROTATE || tool === ToolType.RESIZE) {
+      const gizmo = getSelectedGizmo();
+      const handle = gizmo ? findHandleAt(gizmo.handles, { x, y }) : null;
+      if (gizmo && handle) {
+        e.preventDefault();
+        startGizmoDrag(handle.kind, gizmo.sceneObj);
+        return;
+      }
+      const sceneObj = clickedBody ? sceneObjectsRef.current.get(clickedBody.id) : undefined;
+      if (sceneObj) {
+        selectedObjectIdRef.current = sceneObj.id;
+        onObjectSelect(sceneObj);
+        onPhysicsUpdate(calculatePhysicsState(sceneObj.body));
+      } else {
         onObjectSelect(null);
+        onPhysicsUpdate(null);
       }
+      drawOverlay();
+      return;
+    }
+    
+    if (tool === ToolType.ERASER && clickedBody) {
+      const sceneObj = sceneObjectsRef.current.get(clickedBody.id);
+      if (sceneObj) eraseSceneObject(sceneObj);
+    } else if (tool === ToolType.ERASER) {
+      const constraint = findConstraintAt({ x, y });
+      if (constraint) eraseConstraint(constraint);
+    }
+    
+    if (tool === ToolType.CONSTRAINT) {
+      const target = clickedBody && sceneObjectsRef.current.has(clickedBody.id) ? clickedBody : null;
+      const pending = pendingConstraintRef.current;
+      
+      if (!pending) {
+        if (target) {
+          const offset = Matter.Vector.sub({ x, y }, target.position);
+          pendingConstraintRef.current = { body: target, localPoint: Matter.Vector.rotate(offset, -target.angle) };
+        }
+        return;
+      }
+      
+      pendingConstraintRef.current = null;
+      if (target === pending.body) return;
+      
+      const sceneConstraint = createSceneConstraint(
+        constraintType,
+        { body: pending.body, point: toWorldPoint(pending.body, pending.localPoint) },
+        { body: target, point: { x, y } }
+      );
+      attachConstraint(sceneConstraint);
+      history.record({
+        type: 'add_constraint',
+        data: { constraintId: sceneConstraint.id, constraintType: sceneConstraint.type },
+        undo: () => detachConstraint(sceneConstraint),
+        redo: () => attachConstraint(sceneConstraint)
+      });
+      onObjectSelect(null);
+      onPhysicsUpdate(null);
+      onConstraintSelect(sceneConstraint);
+      drawOverlay();
     }
     
     if (tool === ToolType.PIN && clickedBody) {
-      Matter.Body.setStatic(clickedBody, !clickedBody.isStatic);
-      clickedBody.render.opacity = clickedBody.isStatic ? 0.7 : 1;
+      toggleBodyStatic(clickedBody);
+    }
+    
+    if (tool === ToolType.SLINGSHOT && clickedBody && !clickedBody.isStatic) {
+      const sceneObj = sceneObjectsRef.current.get(clickedBody.id);
+      if (sceneObj) {
+        e.preventDefault();
+        startSlingshot(sceneObj, { x, y });
+      }
+    }
+  };
+
+  /** Pull back from the body and let go to launch it with slingshotImpulse. */
+  const startSlingshot = (sceneObj: SceneObject, start: { x: number; y: number }) => {
+    const body = sceneObj.body;
+    selectedObjectIdRef.current = sceneObj.id;
+    onObjectSelect(sceneObj);
+    onPhysicsUpdate(calculatePhysicsState(body));
+    slingshotRef.current = { body, pointer: start };
+    drawOverlay();
+    
+    const handleMove = (moveEvent: MouseEvent) => {
+      if (!sceneRef.current || !slingshotRef.current) return;
+      const rect = sceneRef.current.getBoundingClientRect();
+      slingshotRef.current.pointer = { x: moveEvent.clientX - rect.left, y: moveEvent.clientY - rect.top };
+      drawOverlay();
+    };
+    
+    const handleUp = () => {
+      window.removeEventListener('mousemove', handleMove);
+      window.removeEventListener('mouseup', handleUp);
+      const sling = slingshotRef.current;
+      slingshotRef.current = null;
+      suppressClickRef.current = true;
+      if (sling && sceneObjectsRef.current.has(body.id)) {
+        appliedForces.addImpulse(body.id, slingshotImpulse(body, sling.pointer));
+      }
+      drawOverlay();
+    };
+    
+    window.addEventListener('mousemove', handleMove);
+    window.addEventListener('mouseup', handleUp);
+  };
+
+  /**
+   * Instruments sit above the bodies, so they get the first look at a press.
+   * Returns true when the press was handled.
+   */
+  const handleInstrumentPress = (e: React.MouseEvent): boolean => {
+    if (!sceneRef.current || !visualization.showMeasurements) return false;
+    if (tool !== ToolType.POINTER && tool !== ToolType.ERASER) return false;
+    
+    const rect = sceneRef.current.getBoundingClientRect();
+    const point = { x: e.clientX - rect.left, y: e.clientY - rect.top };
+    const hit = findInstrumentHandle(instrumentsRef.current, point);
+    if (!hit) return false;
+    
+    e.preventDefault();
+    if (tool === ToolType.ERASER) {
+      instrumentsRef.current = instrumentsRef.current.filter(i => i !== hit.instrument);
+      drawOverlay();
+      return true;
     }
+    
+    instrumentDragRef.current = { ...hit, last: point, moved: false };
+    
+    const handleMove = (moveEvent: MouseEvent) => {
+      const drag = instrumentDragRef.current;
+      if (!drag || !sceneRef.current) return;
+      const r = sceneRef.current.getBoundingClientRect();
+      const next = { x: moveEvent.clientX - r.left, y: moveEvent.clientY - r.top };
+      dragInstrument(drag.instrument, drag.handle, next, { x: next.x - drag.last.x, y: next.y - drag.last.y });
+      drag.last = next;
+      drag.moved = true;
+      drawOverlay();
+    };
+    
+    const handleUp = () => {
+      window.removeEventListener('mousemove', handleMove);
+      window.removeEventListener('mouseup', handleUp);
+      const drag = instrumentDragRef.current;
+      if (drag && !drag.moved && drag.instrument.type === 'stopwatch') {
+        toggleStopwatch(drag.instrument, engineRef.current?.timing.timestamp ?? 0);
+      }
+      instrumentDragRef.current = null;
+      suppressClickRef.current = true;
+      drawOverlay();
+    };
+    
+    window.addEventListener('mousemove', handleMove);
+    window.addEventListener('mouseup', handleUp);
+    return true;
+  };
+
+  /**
+   * Dragging the selected fan's arrow handle re-aims it. Returns true when the press was
+   * on the handle.
+   */
+  const handleEmitterHandlePress = (e: React.MouseEvent): boolean => {
+    if (!sceneRef.current || tool !== ToolType.POINTER) return false;
+    const selId = selectedObjectIdRef.current;
+    const sceneObj = selId ? sceneObjectsRef.current.get(parseInt(selId)) : undefined;
+    const rect = sceneRef.current.getBoundingClientRect();
+    const point = { x: e.clientX - rect.left, y: e.clientY - rect.top };
+    if (!sceneObj || !isOnDirectionHandle(sceneObj, point)) return false;
+    
+    e.preventDefault();
+    emitterDragRef.current = sceneObj;
+    const startDirection = sceneObj.customData.emitterDirection;
+    
+    const handleMove = (moveEvent: MouseEvent) => {
+      if (!sceneRef.current) return;
+      const r = sceneRef.current.getBoundingClientRect();
+      const pointer = { x: moveEvent.clientX - r.left, y: moveEvent.clientY - r.top };
+      setEmitterProperty(sceneObj, 'emitterDirection', directionFromPointer(sceneObj, pointer, moveEvent.shiftKey));
+      drawOverlay();
+    };
+    
+    const handleUp = () => {
+      window.removeEventListener('mousemove', handleMove);
+      window.removeEventListener('mouseup', handleUp);
+      emitterDragRef.current = null;
+      suppressClickRef.current = true;
+      
+      const endDirection = sceneObj.customData.emitterDirection;
+      if (endDirection !== startDirection) {
+        history.record({
+          type: 'modify_property',
+          data: { objectId: sceneObj.id, property: 'emitterDirection', from: startDirection, to: endDirection },
+          undo: () => setEmitterProperty(sceneObj, 'emitterDirection', startDirection),
+          redo: () => setEmitterProperty(sceneObj, 'emitterDirection', endDirection)
+        });
+      }
+      onPhysicsUpdateRef.current(calculatePhysicsState(sceneObj.body));
+      drawOverlay();
+    };
+    
+    window.addEventListener('mousemove', handleMove);
+    window.addEventListener('mouseup', handleUp);
+    return true;
+  };
+
+  const handleMouseDown = (e: React.MouseEvent) => {
+    suppressClickRef.current = false;
+    if (handleInstrumentPress(e)) return;
+    if (handleEmitterHandlePress(e)) return;
+    if (tool !== ToolType.POINTER) handleToolAction(e);
+  };
+
+  const handlePointerMove = (e: React.MouseEvent) => {
+    if (!sceneRef.current) return;
+    const rect = sceneRef.current.getBoundingClientRect();
+    pointerRef.current = { x: e.clientX - rect.left, y: e.clientY - rect.top };
+    if (pendingConstraintRef.current && isPaused) drawOverlay();
   };
 
   const getCursor = () => {
     if (tool === ToolType.ERASER) return 'crosshair';
     if (tool === ToolType.CONSTRAINT) return 'cell';
     if (tool === ToolType.PIN) return 'pointer';
+    if (tool === ToolType.ROTATE) return 'grab';
+    if (tool === ToolType.RESIZE) return 'nwse-resize';
+    if (tool === ToolType.SLINGSHOT) return 'crosshair';
     return 'default';
   };
 
@@ -762,7 +2063,8 @@ const PhysicsCanvas = forwardRef<PhysicsCanvasRef, PhysicsCanvasProps>(({
       onDrop={handleDrop}
       onDragOver={handleDragOver}
       onClick={tool === ToolType.POINTER ? handleCanvasClick : undefined}
-      onMouseDown={tool !== ToolType.POINTER ? handleToolAction : undefined}
+      onMouseDown={handleMouseDown}
+      onMouseMove={handlePointerMove}
       ref={sceneRef}
     >
       {visualization.showGrid && <div className="workspace-grid" />}
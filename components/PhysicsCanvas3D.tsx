@@ -1,11 +1,15 @@
-import React, { useRef, useState, useCallback, forwardRef, useImperativeHandle } from 'react';
+import React, { useRef, useState, useCallback, useEffect, forwardRef, useImperativeHandle } from 'react';
 import { Canvas, useFrame } from '@react-three/fiber';
 import { OrbitControls, Environment, Grid, PerspectiveCamera } from '@react-three/drei';
 import { Physics, RigidBody, CuboidCollider, RapierRigidBody } from '@react-three/rapier';
 import * as THREE from 'three';
-import { ToolType, PhysicsObjectDefinition, SceneObject, PhysicsState, VisualizationSettings, GraphDataPoint } from '../types';
+import { ToolType, PhysicsObjectDefinition, SceneObject, PhysicsState, VisualizationSettings, GraphDataPoint, MaterialPreset, Vector2D } from '../types';
 import { getExperimentById } from '../data/experiments';
 import { getObjectById } from '../data/objects';
+import { findMaterial } from '../utils/userMaterials';
+import { shapeExtent } from '../utils/shapes';
+import { createUndoHistory } from '../utils/undoHistory';
+import { STANDARD_GRAVITY, toMeters, toPixels } from '../utils/units';
 
 interface PhysicsCanvas3DProps {
   tool: ToolType;
@@ -25,6 +29,22 @@ export interface PhysicsCanvas3DRef {
   reset: () => void;
   resetSelected: () => void;
   loadExperiment: (experimentId: string) => void;
+  addObjectFromDrop: (e: React.DragEvent) => void;
+  undo: () => void;
+  redo: () => void;
+  applyMaterialToSelected: (materialName: string) => void;
+  /** Pushes the selected body: an impulse (N·s) when `seconds` is 0, else a force (N) held that long. y up. */
+  applyForceToSelected: (force: Vector2D, seconds: number) => void;
+}
+
+type Vec3 = { x: number; y: number; z: number };
+
+/** A push from the Apply Force section; Rapier keeps adding it each step until the body's forces are reset. */
+interface SustainedForce {
+  id: string;
+  force: Vec3;
+  /** Simulated seconds left. */
+  remaining: number;
 }
 
 interface Object3DData {
@@ -36,6 +56,9 @@ interface Object3DData {
   mass: number;
   restitution: number;
   friction: number;
+  /** Per second; only set once a material has been picked. */
+  linearDamping?: number;
+  material?: string;
   definitionId: string;
   label: string;
   isStatic: boolean;
@@ -43,21 +66,88 @@ interface Object3DData {
 
 import { useThree } from '@react-three/fiber';
 
+/**
+ * Builds a 3D object from a 2D definition at the same pixels-per-metre scale as the 2D
+ * lab, so a 40 px box is the same size and mass in both modes. Depth matches the width.
+ */
+function createObject3D(definition: PhysicsObjectDefinition, id: string, position: [number, number, number]): Object3DData {
+  const isCircle = definition.type === 'circle';
+  // Trapezoids, drawn outlines and compounds become the box around them, with their 2D area
+  const extent = definition.type === 'trapezoid' || definition.type === 'compound' || definition.vertices
+    ? shapeExtent(definition)
+    : null;
+  const width = extent?.width ?? (isCircle ? 2 * (definition.radius || 25) : definition.width || 50);
+  const height = extent?.height ?? (isCircle ? width : definition.height || 50);
+  const area = extent?.area ?? (isCircle ? Math.PI * (width / 2) ** 2 : width * height);
+  return {
+    id,
+    position,
+    shape: isCircle ? 'sphere' : 'box',
+    size: [toMeters(width), toMeters(height), toMeters(width)],
+    color: definition.options.render?.fillStyle || '#6366f1',
+    // Same kilograms as Matter.js gives the 2D body (density × area in px²)
+    mass: Math.max(0.01, (definition.options.density ?? 0.001) * area),
+    restitution: definition.options.restitution || 0.5,
+    friction: definition.options.friction || 0.5,
+    material: definition.customData?.material,
+    definitionId: definition.id,
+    label: definition.label,
+    isStatic: definition.options.isStatic || false
+  };
+}
+
+/**
+ * `obj` made of `preset`, with the mass the 2D body would get from the same density and
+ * Matter's per-step air friction as Rapier's per-second linear damping.
+ */
+function withMaterial(obj: Object3DData, name: string, preset: MaterialPreset): Object3DData {
+  const width = toPixels(obj.size[0]);
+  const height = toPixels(obj.size[1]);
+  const area = obj.shape === 'sphere' ? Math.PI * (width / 2) ** 2 : width * height;
+  return {
+    ...obj,
+    material: name,
+    color: preset.color,
+    mass: Math.max(0.01, preset.density * area),
+    friction: preset.friction,
+    restitution: preset.restitution,
+    linearDamping: -Math.log(1 - preset.frictionAir) * 60
+  };
+}
+
+/** What the App and PropertiesPanel see of a 3D object; there is no Matter body. */
+const toSceneObject = (obj: Object3DData): SceneObject => ({
+  id: obj.id,
+  definitionId: obj.definitionId,
+  body: null as any,
+  initialPosition: { x: obj.position[0], y: obj.position[1] },
+  initialAngle: 0,
+  customData: { label: obj.label, color: obj.color, material: obj.material },
+  createdAt: Date.now()
+});
+
 interface PhysicsObjectProps {
   data: Object3DData;
   isSelected: boolean;
   onClick: () => void;
   onPhysicsUpdate: (pos: THREE.Vector3, vel: THREE.Vector3, mass: number) => void;
+  onRegister: (body: RapierRigidBody | null) => void;
+  onMoveEnd: (from: Vec3, to: Vec3) => void;
   setOrbitEnabled: (enabled: boolean) => void;
 }
 
-function PhysicsObject({ data, isSelected, onClick, onPhysicsUpdate, setOrbitEnabled }: PhysicsObjectProps) {
+function PhysicsObject({ data, isSelected, onClick, onPhysicsUpdate, onRegister, onMoveEnd, setOrbitEnabled }: PhysicsObjectProps) {
   const rigidBodyRef = useRef<RapierRigidBody>(null);
   const [isDragging, setIsDragging] = useState(false);
   const dragStartRef = useRef<{ x: number; y: number; z: number } | null>(null);
   const planeIntersectPoint = useRef(new THREE.Vector3());
   const { camera, raycaster, gl } = useThree();
   
+  useEffect(() => {
+    onRegister(rigidBodyRef.current);
+    return () => onRegister(null);
+  }, []);
+  
   useFrame(() => {
     if (rigidBodyRef.current) {
       if (isDragging) {
@@ -85,6 +175,7 @@ function PhysicsObject({ data, isSelected, onClick, onPhysicsUpdate, setOrbitEna
     onClick();
     
     if (rigidBodyRef.current) {
+        dragStartRef.current = { ...rigidBodyRef.current.translation() };
         rigidBodyRef.current.setBodyType(2, true); // KinematicPositionBased
     }
   };
@@ -96,7 +187,14 @@ function PhysicsObject({ data, isSelected, onClick, onPhysicsUpdate, setOrbitEna
         const targetType = data.isStatic ? 1 : 0; // 1 = Fixed, 0 = Dynamic
         rigidBodyRef.current.setBodyType(targetType, true);
         rigidBodyRef.current.wakeUp();
+        
+        const from = dragStartRef.current;
+        const to = { ...rigidBodyRef.current.translation() };
+        if (from && Math.hypot(to.x - from.x, to.y - from.y, to.z - from.z) > 0.01) {
+          onMoveEnd(from, to);
+        }
     }
+    dragStartRef.current = null;
   };
   
   // We need to use useFrame to update position during drag because onPointerMove is only on the mesh surface, 
@@ -183,6 +281,7 @@ function PhysicsObject({ data, isSelected, onClick, onPhysicsUpdate, setOrbitEna
       restitution={data.restitution}
       friction={data.friction}
       mass={data.mass}
+      linearDamping={data.linearDamping}
       colliders={data.shape === 'sphere' ? 'ball' : data.shape === 'cylinder' ? 'hull' : 'cuboid'}
       // Need to listen to pointer up globally in case mouse leaves object?
       // React Three Fiber's event system handles capture? 
@@ -211,6 +310,8 @@ interface SceneProps {
   onSelectObject: (id: string) => void;
   onDeselectObject: () => void;
   onPhysicsUpdate: (id: string, pos: THREE.Vector3, vel: THREE.Vector3, mass: number) => void;
+  onRegisterBody: (id: string, body: RapierRigidBody | null) => void;
+  onMoveEnd: (id: string, from: Vec3, to: Vec3) => void;
   gravity: number;
   isPaused: boolean;
   showGrid: boolean;
@@ -218,7 +319,7 @@ interface SceneProps {
   setOrbitEnabled: (enabled: boolean) => void;
 }
 
-function Scene({ objects, selectedId, onSelectObject, onDeselectObject, onPhysicsUpdate, gravity, isPaused, showGrid, orbitEnabled, setOrbitEnabled }: SceneProps) {
+function Scene({ objects, selectedId, onSelectObject, onDeselectObject, onPhysicsUpdate, onRegisterBody, onMoveEnd, gravity, isPaused, showGrid, orbitEnabled, setOrbitEnabled }: SceneProps) {
   return (
     <>
       <PerspectiveCamera makeDefault position={[15, 15, 15]} fov={50} />
@@ -265,7 +366,7 @@ function Scene({ objects, selectedId, onSelectObject, onDeselectObject, onPhysic
       )}
       
       <Physics 
-        gravity={[0, -gravity * 9.81, 0]}
+        gravity={[0, -gravity * STANDARD_GRAVITY, 0]}
         paused={isPaused}
         timeStep={1/60}
       >
@@ -283,6 +384,8 @@ function Scene({ objects, selectedId, onSelectObject, onDeselectObject, onPhysic
             isSelected={selectedId === obj.id}
             onClick={() => onSelectObject(obj.id)}
             onPhysicsUpdate={(pos, vel, mass) => onPhysicsUpdate(obj.id, pos, vel, mass)}
+            onRegister={(body) => onRegisterBody(obj.id, body)}
+            onMoveEnd={(from, to) => onMoveEnd(obj.id, from, to)}
             setOrbitEnabled={setOrbitEnabled}
           />
         ))}
@@ -323,94 +426,47 @@ const PhysicsScene3D = forwardRef<PhysicsCanvas3DRef, PhysicsCanvas3DProps>(({
   const selectedIdRef = useRef<string | null>(null);
   const initialPositionsRef = useRef<Map<string, [number, number, number]>>(new Map());
   
+  const bodiesRef = useRef<Map<string, RapierRigidBody>>(new Map());
+  const sustainedForcesRef = useRef<SustainedForce[]>([]);
+  const [history] = useState(createUndoHistory);
+  
   selectedIdRef.current = selectedObjectId;
   
-  useImperativeHandle(ref, () => ({
-    deleteSelected: () => {
-      const selId = selectedIdRef.current;
-      if (selId) {
-        setObjects(prev => prev.filter(obj => obj.id !== selId));
-        initialPositionsRef.current.delete(selId);
-        onObjectSelect(null);
-        onPhysicsUpdate(null);
-      }
-    },
-    clear: () => {
-      setObjects([]);
-      initialPositionsRef.current.clear();
-      onObjectSelect(null);
-      onPhysicsUpdate(null);
-      setSceneKey(k => k + 1);
-    },
-    reset: () => {
-      setObjects(prev => prev.map(obj => {
-        const initialPos = initialPositionsRef.current.get(obj.id);
-        if (initialPos) {
-          return { ...obj, position: initialPos };
-        }
-        return obj;
-      }));
-      setSceneKey(k => k + 1);
-    },
-    resetSelected: () => {
-      const selId = selectedIdRef.current;
-      if (selId) {
-        const initialPos = initialPositionsRef.current.get(selId);
-        if (initialPos) {
-          setObjects(prev => prev.map(obj => 
-            obj.id === selId ? { ...obj, position: initialPos } : obj
-          ));
-          setSceneKey(k => k + 1);
-        }
-      }
-    },
-    loadExperiment: (experimentId: string) => {
-      const experiment = getExperimentById(experimentId);
-      if (!experiment) return;
-      
-      setObjects([]);
-      initialPositionsRef.current.clear();
+  const handleRegisterBody = useCallback((id: string, body: RapierRigidBody | null) => {
+    if (body) bodiesRef.current.set(id, body);
+    else bodiesRef.current.delete(id);
+  }, []);
+  
+  const addObjects = useCallback((added: Object3DData[]) => {
+    setObjects(prev => [...prev, ...added]);
+    added.forEach(obj => initialPositionsRef.current.set(obj.id, [...obj.position] as [number, number, number]));
+  }, []);
+  
+  const removeObject = useCallback((id: string) => {
+    setObjects(prev => prev.filter(obj => obj.id !== id));
+    initialPositionsRef.current.delete(id);
+    if (selectedIdRef.current === id) {
       onObjectSelect(null);
       onPhysicsUpdate(null);
-      
-      const newObjects: Object3DData[] = [];
-      
-      experiment.objects.forEach((objConfig, index) => {
-        const definition = getObjectById(objConfig.definitionId);
-        if (!definition) return;
-        
-        const position: [number, number, number] = [
-          (objConfig.x - 400) / 50,
-          (500 - objConfig.y) / 50 + 2,
-          (index - experiment.objects.length / 2) * 1.5
-        ];
-        
-        const newObject: Object3DData = {
-          id: `exp_${objectIdCounter.current++}`,
-          position: position,
-          shape: definition.type === 'circle' ? 'sphere' : 'box',
-          size: [
-            (definition.width || definition.radius || 50) / 50,
-            (definition.height || definition.radius || 50) / 50,
-            (definition.width || definition.radius || 50) / 50
-          ],
-          color: definition.options.render?.fillStyle || '#6366f1',
-          mass: Math.max(0.1, (definition.options.density || 0.001) * 500),
-          restitution: definition.options.restitution || 0.5,
-          friction: definition.options.friction || 0.5,
-          definitionId: definition.id,
-          label: definition.label,
-          isStatic: definition.options.isStatic || false
-        };
-        
-        newObjects.push(newObject);
-        initialPositionsRef.current.set(newObject.id, [...newObject.position] as [number, number, number]);
-      });
-      
-      setObjects(newObjects);
-      setSceneKey(k => k + 1);
     }
-  }), [onObjectSelect, onPhysicsUpdate]);
+  }, [onObjectSelect, onPhysicsUpdate]);
+  
+  const placeObject = useCallback((id: string, position: Vec3) => {
+    const body = bodiesRef.current.get(id);
+    if (!body) return;
+    body.setTranslation(position, true);
+    body.setLinvel({ x: 0, y: 0, z: 0 }, true);
+    body.setAngvel({ x: 0, y: 0, z: 0 }, true);
+  }, []);
+  
+  const handleMoveEnd = useCallback((id: string, from: Vec3, to: Vec3) => {
+    history.record({
+      type: 'move_object',
+      data: { objectId: id, from, to },
+      undo: () => placeObject(id, from),
+      redo: () => placeObject(id, to)
+    });
+  }, [history, placeObject]);
   
   const handleDrop = useCallback((e: React.DragEvent) => {
     e.preventDefault();
@@ -421,41 +477,16 @@ const PhysicsScene3D = forwardRef<PhysicsCanvas3DRef, PhysicsCanvas3DProps>(({
       
       const definition = JSON.parse(data) as PhysicsObjectDefinition;
       
-      const newObject: Object3DData = {
-        id: `obj3d_${objectIdCounter.current++}`,
-        position: [
-          (Math.random() - 0.5) * 8,
-          5 + Math.random() * 3,
-          (Math.random() - 0.5) * 8
-        ],
-        shape: definition.type === 'circle' ? 'sphere' : 'box',
-        size: [
-          (definition.width || definition.radius || 50) / 50,
-          (definition.height || definition.radius || 50) / 50,
-          (definition.width || definition.radius || 50) / 50
-        ],
-        color: definition.options.render?.fillStyle || '#6366f1',
-        mass: Math.max(0.1, (definition.options.density || 0.001) * 500),
-        restitution: definition.options.restitution || 0.5,
-        friction: definition.options.friction || 0.5,
-        definitionId: definition.id,
-        label: definition.label,
-        isStatic: definition.options.isStatic || false
-      };
+      const newObject = createObject3D(definition, `obj3d_${objectIdCounter.current++}`, [
+        (Math.random() - 0.5) * 8,
+        5 + Math.random() * 3,
+        (Math.random() - 0.5) * 8
+      ]);
       
       setObjects(prev => [...prev, newObject]);
       initialPositionsRef.current.set(newObject.id, [...newObject.position] as [number, number, number]);
       
-      const sceneObj: SceneObject = {
-        id: newObject.id,
-        definitionId: newObject.definitionId,
-        body: null as any,
-        initialPosition: { x: newObject.position[0], y: newObject.position[1] },
-        initialAngle: 0,
-        customData: { label: newObject.label, color: newObject.color },
-        createdAt: Date.now()
-      };
-      onObjectSelect(sceneObj);
+      onObjectSelect(toSceneObject(newObject));
       startTimeRef.current = Date.now();
     } catch (err) {
       console.error('Failed to create 3D object:', err);
@@ -472,20 +503,38 @@ const PhysicsScene3D = forwardRef<PhysicsCanvas3DRef, PhysicsCanvas3DProps>(({
     
     const obj = objects.find(o => o.id === id);
     if (obj) {
-      const sceneObj: SceneObject = {
-        id: obj.id,
-        definitionId: obj.definitionId,
-        body: null as any,
-        initialPosition: { x: obj.position[0], y: obj.position[1] },
-        initialAngle: 0,
-        customData: { label: obj.label, color: obj.color },
-        createdAt: Date.now()
-      };
-      onObjectSelect(sceneObj);
+      onObjectSelect(toSceneObject(obj));
       startTimeRef.current = Date.now();
     }
   }, [objects, onObjectSelect, tool]);
   
+  // Rapier can only drop all of a body's forces, so the ones still running are added back
+  useFrame((_, delta) => {
+    if (isPaused || sustainedForcesRef.current.length === 0) return;
+    const expired = new Set<string>();
+    sustainedForcesRef.current.forEach(f => {
+      f.remaining -= delta;
+      if (f.remaining <= 0) expired.add(f.id);
+    });
+    if (expired.size === 0) return;
+    sustainedForcesRef.current = sustainedForcesRef.current.filter(f => f.remaining > 0);
+    expired.forEach(id => {
+      const body = bodiesRef.current.get(id);
+      if (!body) return;
+      body.resetForces(true);
+      sustainedForcesRef.current.filter(f => f.id === id).forEach(f => body.addForce(f.force, true));
+    });
+  });
+  
+  const dropSustainedForces = () => {
+    sustainedForcesRef.current.forEach(f => bodiesRef.current.get(f.id)?.resetForces(true));
+    sustainedForcesRef.current = [];
+  };
+  
+  const activeForce = (id: string) => sustainedForcesRef.current
+    .filter(f => f.id === id)
+    .reduce((sum, f) => ({ x: sum.x + f.force.x, y: sum.y + f.force.y }), { x: 0, y: 0 });
+  
   const handleDeselectObject = useCallback(() => {
     onObjectSelect(null);
     onPhysicsUpdate(null);
@@ -496,15 +545,17 @@ const PhysicsScene3D = forwardRef<PhysicsCanvas3DRef, PhysicsCanvas3DProps>(({
     
     const speed = vel.length();
     const kineticEnergy = 0.5 * mass * speed * speed;
-    const potentialEnergy = mass * gravityScale * 9.81 * Math.max(0, pos.y);
+    const g = gravityScale * STANDARD_GRAVITY;
+    const potentialEnergy = mass * g * Math.max(0, pos.y);
+    const applied = activeForce(id);
     
     const state: PhysicsState = {
       position: { x: pos.x, y: pos.y },
       velocity: { x: vel.x, y: vel.y },
-      acceleration: { x: 0, y: -gravityScale * 9.81 },
+      acceleration: { x: applied.x / mass, y: applied.y / mass - g },
       angle: 0,
       angularVelocity: 0,
-      force: { x: 0, y: -mass * gravityScale * 9.81 },
+      force: { x: applied.x, y: applied.y - mass * g },
       mass: mass,
       speed: speed,
       kineticEnergy: kineticEnergy,
@@ -552,21 +603,32 @@ const PhysicsScene3D = forwardRef<PhysicsCanvas3DRef, PhysicsCanvas3DProps>(({
       // ... previous methods ...
       deleteSelected: () => {
         const selId = selectedIdRef.current;
-        if (selId) {
-          setObjects(prev => prev.filter(obj => obj.id !== selId));
-          initialPositionsRef.current.delete(selId);
-          onObjectSelect(null);
-          onPhysicsUpdate(null);
-        }
+        const removed = objects.find(obj => obj.id === selId);
+        if (!removed) return;
+        
+        // Bring it back where it was last seen rather than at its spawn point
+        const body = bodiesRef.current.get(removed.id);
+        const t = body?.translation();
+        const restored: Object3DData = t ? { ...removed, position: [t.x, t.y, t.z] } : removed;
+        removeObject(removed.id);
+        history.record({
+          type: 'remove_object',
+          data: { objectId: removed.id, definitionId: removed.definitionId },
+          undo: () => addObjects([restored]),
+          redo: () => removeObject(removed.id)
+        });
       },
       clear: () => {
         setObjects([]);
         initialPositionsRef.current.clear();
+        dropSustainedForces();
+        history.clear();
         onObjectSelect(null);
         onPhysicsUpdate(null);
         setSceneKey(k => k + 1);
       },
       reset: () => {
+        dropSustainedForces();
         setObjects(prev => prev.map(obj => {
           const initialPos = initialPositionsRef.current.get(obj.id);
           if (initialPos) {
@@ -595,6 +657,8 @@ const PhysicsScene3D = forwardRef<PhysicsCanvas3DRef, PhysicsCanvas3DProps>(({
           
           setObjects([]);
           initialPositionsRef.current.clear();
+          dropSustainedForces();
+          history.clear();
           onObjectSelect(null);
           onPhysicsUpdate(null);
           
@@ -605,28 +669,12 @@ const PhysicsScene3D = forwardRef<PhysicsCanvas3DRef, PhysicsCanvas3DProps>(({
             if (!definition) return;
             
             const position: [number, number, number] = [
-              (objConfig.x - 400) / 50,
-              (500 - objConfig.y) / 50 + 2,
+              toMeters(objConfig.x - 400),
+              toMeters(500 - objConfig.y) + 2,
               (index - experiment.objects.length / 2) * 1.5
             ];
             
-            const newObject: Object3DData = {
-              id: `exp_${objectIdCounter.current++}`,
-              position: position,
-              shape: definition.type === 'circle' ? 'sphere' : 'box',
-              size: [
-                (definition.width || definition.radius || 50) / 50,
-                (definition.height || definition.radius || 50) / 50,
-                (definition.width || definition.radius || 50) / 50
-              ],
-              color: definition.options.render?.fillStyle || '#6366f1',
-              mass: Math.max(0.1, (definition.options.density || 0.001) * 500),
-              restitution: definition.options.restitution || 0.5,
-              friction: definition.options.friction || 0.5,
-              definitionId: definition.id,
-              label: definition.label,
-              isStatic: definition.options.isStatic || false
-            };
+            const newObject = createObject3D(definition, `exp_${objectIdCounter.current++}`, position);
             
             newObjects.push(newObject);
             initialPositionsRef.current.set(newObject.id, [...newObject.position] as [number, number, number]);
@@ -644,47 +692,63 @@ const PhysicsScene3D = forwardRef<PhysicsCanvas3DRef, PhysicsCanvas3DProps>(({
             
             const definition = JSON.parse(data) as PhysicsObjectDefinition;
             
-            const newObject: Object3DData = {
-                id: `obj3d_${objectIdCounter.current++}`,
-                position: [
-                (Math.random() - 0.5) * 8,
-                5 + Math.random() * 3,
-                (Math.random() - 0.5) * 8
-                ],
-                shape: definition.type === 'circle' ? 'sphere' : 'box',
-                size: [
-                (definition.width || definition.radius || 50) / 50,
-                (definition.height || definition.radius || 50) / 50,
-                (definition.width || definition.radius || 50) / 50
-                ],
-                color: definition.options.render?.fillStyle || '#6366f1',
-                mass: Math.max(0.1, (definition.options.density || 0.001) * 500),
-                restitution: definition.options.restitution || 0.5,
-                friction: definition.options.friction || 0.5,
-                definitionId: definition.id,
-                label: definition.label,
-                isStatic: definition.options.isStatic || false
-            };
+            const newObject = createObject3D(definition, `obj3d_${objectIdCounter.current++}`, [
+              (Math.random() - 0.5) * 8,
+              5 + Math.random() * 3,
+              (Math.random() - 0.5) * 8
+            ]);
             
-            setObjects(prev => [...prev, newObject]);
-            initialPositionsRef.current.set(newObject.id, [...newObject.position] as [number, number, number]);
+            addObjects([newObject]);
+            history.record({
+              type: 'add_object',
+              data: { objectId: newObject.id, definitionId: newObject.definitionId },
+              undo: () => removeObject(newObject.id),
+              redo: () => addObjects([newObject])
+            });
             
-            const sceneObj: SceneObject = {
-                id: newObject.id,
-                definitionId: newObject.definitionId,
-                body: null as any,
-                initialPosition: { x: newObject.position[0], y: newObject.position[1] },
-                initialAngle: 0,
-                customData: { label: newObject.label, color: newObject.color },
-                createdAt: Date.now()
-            };
-            onObjectSelect(sceneObj);
+            onObjectSelect(toSceneObject(newObject));
             startTimeRef.current = Date.now();
           } catch (err) {
             console.error('Failed to add object:', err);
           }
+      },
+      
+      undo: () => { history.undo(); },
+      redo: () => { history.redo(); },
+
+      applyMaterialToSelected: (materialName: string) => {
+        const previous = objects.find(obj => obj.id === selectedIdRef.current);
+        const preset = findMaterial(materialName);
+        if (!previous || !preset) return;
+        const next = withMaterial(previous, materialName, preset);
+        // Position is only the spawn point, so swapping the data leaves the body where it is
+        const replace = (obj: Object3DData) => {
+          setObjects(prev => prev.map(o => (o.id === obj.id ? { ...obj, position: o.position } : o)));
+          if (selectedIdRef.current === obj.id) onObjectSelect(toSceneObject(obj));
+        };
+        replace(next);
+        history.record({
+          type: 'modify_property',
+          data: { objectId: previous.id, property: 'material', from: previous.material, to: materialName },
+          undo: () => replace(previous),
+          redo: () => replace(next)
+        });
+      },
+
+      applyForceToSelected: (force: Vector2D, seconds: number) => {
+        const selId = selectedIdRef.current;
+        const selected = objects.find(obj => obj.id === selId);
+        const body = selId ? bodiesRef.current.get(selId) : undefined;
+        if (!selected || selected.isStatic || !body) return;
+        const push = { x: force.x, y: force.y, z: 0 };
+        if (seconds > 0) {
+          body.addForce(push, true);
+          sustainedForcesRef.current.push({ id: selected.id, force: push, remaining: seconds });
+        } else {
+          body.applyImpulse(push, true);
+        }
       }
-  }));
+  }), [objects, history, addObjects, removeObject, onObjectSelect, onPhysicsUpdate]);
 
   return (
     <>
@@ -696,6 +760,8 @@ const PhysicsScene3D = forwardRef<PhysicsCanvas3DRef, PhysicsCanvas3DProps>(({
         onSelectObject={handleSelectObject}
         onDeselectObject={handleDeselectObject}
         onPhysicsUpdate={handlePhysicsUpdate3D}
+        onRegisterBody={handleRegisterBody}
+        onMoveEnd={handleMoveEnd}
         gravity={gravityScale}
         isPaused={isPaused}
         showGrid={visualization.showGrid}
@@ -1,27 +1,487 @@
-import React from 'react';
-import { Box, Circle, RotateCw, Lock, Unlock, Target, Trash2, Zap, Activity, Gauge } from 'lucide-react';
-import { SceneObject, PhysicsState } from '../types';
+import React, { useState } from 'react';
+import { Box, Circle, RotateCw, Lock, Unlock, Target, Trash2, Zap, Activity, Gauge, Link, Wind, MoveUpRight, Download, Layers, Hand, Plus, Pencil, Combine } from 'lucide-react';
+import { SceneObject, SceneConstraint, PhysicsState, EmitterFalloff, ForceBreakdown, Vector2D, MaterialPreset } from '../types';
 import { getObjectById } from '../data/objects';
+import { CONSTRAINT_TYPES, constraintHasLength } from '../utils/constraints';
+import { EmitterProperty, RANGED_EMITTERS, getEmitterType, getEmitterSettings, getDefaultStrength } from '../utils/emitters';
+import { formatLength, formatQuantity, toSI, unitLabel } from '../utils/units';
+import { findMaterial, isUserMaterial, listMaterials } from '../utils/userMaterials';
+import MaterialEditor from './MaterialEditor';
+import MaterialPairTable from './MaterialPairTable';
 
 interface PropertiesPanelProps {
   selectedObject: SceneObject | null;
+  selectedConstraint: SceneConstraint | null;
   physicsState: PhysicsState | null;
   onPropertyChange: (property: string, value: number | boolean) => void;
-  onApplyForce: (fx: number, fy: number) => void;
+  /** Newtons y up, held for `seconds`; with `seconds` 0 the values are an impulse in N·s. */
+  onApplyForce: (fx: number, fy: number, seconds: number) => void;
   onApplyMaterial: (materialName: string) => void;
   onResetObject: () => void;
   onDeleteObject: () => void;
   onToggleStatic: () => void;
+  onConstraintChange: (property: string, value: number) => void;
+  onDeleteConstraint: () => void;
+  onEmitterChange: (property: EmitterProperty, value: number | string) => void;
+  onExportFreeBody: () => void;
 }
 
+const FALLOFF_OPTIONS: { value: EmitterFalloff; label: string }[] = [
+  { value: 'none', label: 'None' },
+  { value: 'linear', label: 'Linear' },
+  { value: 'inverse_square', label: '1/r²' }
+];
+
+const FORCE_ROWS: { key: keyof ForceBreakdown; label: string }[] = [
+  { key: 'gravity', label: 'Weight' },
+  { key: 'normal', label: 'Normal' },
+  { key: 'friction', label: 'Friction' },
+  { key: 'drag', label: 'Drag' },
+  { key: 'tension', label: 'Tension' },
+  { key: 'emitter', label: 'Emitters' },
+  { key: 'buoyancy', label: 'Buoyancy' },
+  { key: 'applied', label: 'Applied' }
+];
+
+// Forces below this many newtons are solver noise, not worth a row
+const MIN_LISTED_FORCE = 1e-3;
+
+const magnitude = (v: Vector2D) => Math.hypot(v.x, v.y);
+const direction = (v: Vector2D) => `${(Math.atan2(v.y, v.x) * 180 / Math.PI).toFixed(0)}°`;
+
+/**
+ * Net force next to m·a, so Newton's second law can be checked on any body. Directions are
+ * measured anticlockwise from +x.
+ */
+const ForceSection: React.FC<{ physicsState: PhysicsState; onExport: () => void }> = ({ physicsState, onExport }) => {
+  const forces = physicsState.forces;
+  if (!forces) return null;
+
+  const ma = { x: physicsState.mass * physicsState.acceleration.x, y: physicsState.mass * physicsState.acceleration.y };
+  const rows = FORCE_ROWS.filter(row => magnitude(forces[row.key]) >= MIN_LISTED_FORCE);
+
+  return (
+    <div className="properties-section">
+      <div className="section-title">
+        <MoveUpRight size={12} /> Forces
+      </div>
+      {rows.map(row => (
+        <div key={row.key} className="force-row">
+          <span className="label">{row.label}</span>
+          <span className="value">{formatQuantity('force', magnitude(forces[row.key]))}</span>
+          <span className="angle">{direction(forces[row.key])}</span>
+        </div>
+      ))}
+      <div className="force-row total">
+        <span className="label">Net force</span>
+        <span className="value">{formatQuantity('force', magnitude(forces.net))}</span>
+        <span className="angle">{direction(forces.net)}</span>
+      </div>
+      <div className="force-row total">
+        <span className="label">m · a</span>
+        <span className="value">{formatQuantity('force', magnitude(ma))}</span>
+        <span className="angle">{direction(ma)}</span>
+      </div>
+      <button className="action-btn" onClick={onExport} title="Save the selected body's free-body diagram as a PNG">
+        <Download size={16} /> Export Free-Body Diagram
+      </button>
+    </div>
+  );
+};
+
+/**
+ * Swatches for the built-in and user materials, the body's current one highlighted, with the
+ * editor for user materials and the pair override table.
+ */
+const MaterialSection: React.FC<{
+  current: unknown;
+  /** Starting values for a new material. */
+  template: MaterialPreset;
+  onApply: (materialName: string) => void;
+}> = ({ current, template, onApply }) => {
+  // null: a new material; undefined: the editor is closed
+  const [editing, setEditing] = useState<string | null | undefined>(undefined);
+  const [showPairs, setShowPairs] = useState(false);
+  const currentKey = typeof current === 'string' ? current : undefined;
+  const canEdit = currentKey !== undefined && isUserMaterial(currentKey);
+
+  const handleSaved = (key: string) => {
+    setEditing(undefined);
+    onApply(key);
+  };
+
+  return (
+    <div className="properties-section">
+      <div className="section-title">
+        <Layers size={12} /> Material
+        <div className="section-actions">
+          <button onClick={() => setEditing(null)} title="New material">
+            <Plus size={12} />
+          </button>
+          {canEdit && (
+            <button onClick={() => setEditing(currentKey)} title="Edit this material">
+              <Pencil size={12} />
+            </button>
+          )}
+          <button
+            className={showPairs ? 'active' : ''}
+            onClick={() => setShowPairs(!showPairs)}
+            title="Friction and bounce for pairs of materials (2D)"
+          >
+            <Combine size={12} />
+          </button>
+        </div>
+      </div>
+      {editing !== undefined ? (
+        <MaterialEditor
+          key={editing ?? 'new'}
+          materialKey={editing}
+          template={findMaterial(currentKey) ?? template}
+          onSaved={handleSaved}
+          onDeleted={() => setEditing(undefined)}
+          onClose={() => setEditing(undefined)}
+        />
+      ) : (
+        <div className="material-grid">
+          {listMaterials().map(([key, material]) => (
+            <button
+              key={key}
+              className={`material-swatch ${currentKey === key ? 'active' : ''}`}
+              onClick={() => onApply(key)}
+              title={`Density ${material.density} · friction ${material.friction} · bounce ${material.restitution}`}
+            >
+              <i style={{ background: material.color }} />
+              {material.name}
+            </button>
+          ))}
+        </div>
+      )}
+      {showPairs && <MaterialPairTable />}
+    </div>
+  );
+};
+
+/**
+ * Pushes the body with a known force for a set time, or kicks it with an impulse. Inputs are
+ * in the current unit system and handed on in SI.
+ */
+const ApplyForceSection: React.FC<{ onApply: (fx: number, fy: number, seconds: number) => void }> = ({ onApply }) => {
+  const [sustained, setSustained] = useState(false);
+  const [fx, setFx] = useState(10);
+  const [fy, setFy] = useState(0);
+  const [seconds, setSeconds] = useState(1);
+  const quantity = sustained ? 'force' : 'momentum';
+
+  const apply = () => {
+    if (sustained && !(seconds > 0)) return;
+    onApply(toSI(quantity, fx), toSI(quantity, fy), sustained ? seconds : 0);
+  };
+
+  return (
+    <div className="properties-section">
+      <div className="section-title">
+        <Hand size={12} /> Apply Force
+      </div>
+      <div className="property-options">
+        <span className="label">Type</span>
+        <div className="options">
+          <button className={!sustained ? 'active' : ''} onClick={() => setSustained(false)}>Impulse</button>
+          <button className={sustained ? 'active' : ''} onClick={() => setSustained(true)}>Sustained</button>
+        </div>
+      </div>
+      <div className="force-inputs">
+        <label>
+          <span>{sustained ? 'Fx' : 'Jx'}</span>
+          <input type="number" step="any" value={fx} onChange={(e) => setFx(parseFloat(e.target.value) || 0)} />
+        </label>
+        <label>
+          <span>{sustained ? 'Fy' : 'Jy'}</span>
+          <input type="number" step="any" value={fy} onChange={(e) => setFy(parseFloat(e.target.value) || 0)} />
+        </label>
+        <span className="unit">{unitLabel(quantity)}</span>
+      </div>
+      {sustained && (
+        <div className="force-inputs">
+          <label>
+            <span>For</span>
+            <input type="number" min="0" step="0.1" value={seconds} onChange={(e) => setSeconds(parseFloat(e.target.value) || 0)} />
+          </label>
+          <span className="unit">s</span>
+        </div>
+      )}
+      <button className="action-btn" onClick={apply} title="Y is up; the push starts with the next step">
+        <Hand size={16} /> {sustained ? 'Apply Force' : 'Apply Impulse'}
+      </button>
+    </div>
+  );
+};
+
+const EmitterSection: React.FC<{
+  sceneObject: SceneObject;
+  onChange: (property: EmitterProperty, value: number | string) => void;
+}> = ({ sceneObject, onChange }) => {
+  const type = getEmitterType(sceneObject);
+  const settings = getEmitterSettings(sceneObject);
+  if (!type || !settings) return null;
+
+  const defaultStrength = getDefaultStrength(sceneObject);
+  const hasDirection = type === 'fan' || type === 'wind' || type === 'rocket';
+  const hasRange = RANGED_EMITTERS.includes(type);
+
+  return (
+    <div className="properties-section">
+      <div className="section-title">
+        <Wind size={12} /> Emitter
+      </div>
+
+      <div className="property-slider">
+        <div className="header">
+          <span className="label">{type === 'rocket' ? 'Thrust' : 'Strength'}</span>
+          <span className="value">{Math.round(settings.strength / defaultStrength * 100)}%</span>
+        </div>
+        <input
+          type="range"
+          min="0"
+          max={defaultStrength * 5}
+          step={defaultStrength / 20}
+          value={settings.strength}
+          onChange={(e) => onChange('emitterStrength', parseFloat(e.target.value))}
+        />
+      </div>
+
+      {hasDirection && (
+        <div className="property-slider">
+          <div className="header">
+            <span className="label">{type === 'rocket' ? 'Thrust Angle' : 'Direction'}</span>
+            <span className="value">{settings.direction.toFixed(0)}°</span>
+          </div>
+          <input
+            type="range"
+            min="-180"
+            max="180"
+            step="1"
+            value={settings.direction}
+            onChange={(e) => onChange('emitterDirection', parseFloat(e.target.value))}
+          />
+        </div>
+      )}
+
+      {hasRange && (
+        <div className="property-slider">
+          <div className="header">
+            <span className="label">Range</span>
+            <span className="value">{formatLength(settings.range)}</span>
+          </div>
+          <input
+            type="range"
+            min="20"
+            max="800"
+            step="5"
+            value={settings.range}
+            onChange={(e) => onChange('emitterRange', parseFloat(e.target.value))}
+          />
+        </div>
+      )}
+
+      {type === 'gravity_well' && (
+        <div className="property-slider">
+          <div className="header">
+            <span className="label">Dead Zone</span>
+            <span className="value">{formatLength(settings.minRange)}</span>
+          </div>
+          <input
+            type="range"
+            min="0"
+            max="200"
+            step="1"
+            value={settings.minRange}
+            onChange={(e) => onChange('emitterMinRange', parseFloat(e.target.value))}
+          />
+        </div>
+      )}
+
+      {hasRange && (
+        <div className="property-options">
+          <span className="label">Falloff</span>
+          <div className="options">
+            {FALLOFF_OPTIONS.map(option => (
+              <button
+                key={option.value}
+                className={settings.falloff === option.value ? 'active' : ''}
+                onClick={() => onChange('emitterFalloff', option.value)}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {type === 'magnet' && (
+        <div className="property-options">
+          <span className="label">Polarity</span>
+          <div className="options">
+            {(['north', 'south'] as const).map(pole => (
+              <button
+                key={pole}
+                className={settings.polarity === pole ? 'active' : ''}
+                onClick={() => onChange('magnetPolarity', pole)}
+              >
+                {pole === 'north' ? 'North' : 'South'}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {type === 'wind' && (
+        <div className="property-slider">
+          <div className="header">
+            <span className="label">Gustiness</span>
+            <span className="value">{Math.round(settings.gustiness * 100)}%</span>
+          </div>
+          <input
+            type="range"
+            min="0"
+            max="1"
+            step="0.05"
+            value={settings.gustiness}
+            onChange={(e) => onChange('windGustiness', parseFloat(e.target.value))}
+          />
+        </div>
+      )}
+
+      {type === 'rocket' && (
+        <div className="property-slider">
+          <div className="header">
+            <span className="label">Fuel</span>
+            <span className="value">{settings.fuelSeconds.toFixed(1)} s</span>
+          </div>
+          <input
+            type="range"
+            min="0.5"
+            max="20"
+            step="0.5"
+            value={settings.fuelSeconds}
+            onChange={(e) => onChange('fuelSeconds', parseFloat(e.target.value))}
+          />
+        </div>
+      )}
+    </div>
+  );
+};
+
+const ConstraintProperties: React.FC<{
+  sceneConstraint: SceneConstraint;
+  onChange: (property: string, value: number) => void;
+  onDelete: () => void;
+}> = ({ sceneConstraint, onChange, onDelete }) => {
+  const { constraint, type } = sceneConstraint;
+  const typeInfo = CONSTRAINT_TYPES.find(ct => ct.type === type);
+  const bodyALabel = constraint.bodyA?.label || 'Body';
+  const bodyBLabel = constraint.bodyB?.label || 'World anchor';
+
+  return (
+    <div className="properties-panel">
+      <div className="properties-header">
+        <div className="properties-icon" style={{ backgroundColor: '#fbbf2420', color: '#fbbf24' }}>
+          <Link size={24} />
+        </div>
+        <div className="properties-title">
+          <h3>{typeInfo?.label || type} Constraint</h3>
+          <p>{bodyALabel} → {bodyBLabel}</p>
+        </div>
+      </div>
+
+      <div className="properties-content">
+        <div className="properties-section">
+          <div className="section-title">
+            <Gauge size={12} /> Properties
+          </div>
+
+          <div className="property-slider">
+            <div className="header">
+              <span className="label">Stiffness</span>
+              <span className="value">{sceneConstraint.stiffness.toFixed(3)}</span>
+            </div>
+            <input
+              type="range"
+              min="0.001"
+              max="1"
+              step="0.001"
+              value={sceneConstraint.stiffness}
+              onChange={(e) => onChange('stiffness', parseFloat(e.target.value))}
+            />
+          </div>
+
+          <div className="property-slider">
+            <div className="header">
+              <span className="label">Damping</span>
+              <span className="value">{constraint.damping.toFixed(2)}</span>
+            </div>
+            <input
+              type="range"
+              min="0"
+              max="0.5"
+              step="0.01"
+              value={constraint.damping}
+              onChange={(e) => onChange('damping', parseFloat(e.target.value))}
+            />
+          </div>
+
+          {constraintHasLength(type) && (
+            <div className="property-slider">
+              <div className="header">
+                <span className="label">Length</span>
+                <span className="value">{constraint.length.toFixed(0)} px</span>
+              </div>
+              <input
+                type="range"
+                min="0"
+                max="600"
+                step="1"
+                value={constraint.length}
+                onChange={(e) => onChange('length', parseFloat(e.target.value))}
+              />
+            </div>
+          )}
+        </div>
+
+        <div className="properties-section">
+          <button className="action-btn danger" onClick={onDelete}>
+            <Trash2 size={16} /> Delete Constraint
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
 const PropertiesPanel: React.FC<PropertiesPanelProps> = ({
   selectedObject,
+  selectedConstraint,
   physicsState,
   onPropertyChange,
+  onApplyForce,
+  onApplyMaterial,
   onResetObject,
   onDeleteObject,
-  onToggleStatic
+  onToggleStatic,
+  onConstraintChange,
+  onDeleteConstraint,
+  onEmitterChange,
+  onExportFreeBody
 }) => {
+  if (!selectedObject && selectedConstraint) {
+    return (
+      <ConstraintProperties
+        sceneConstraint={selectedConstraint}
+        onChange={onConstraintChange}
+        onDelete={onDeleteConstraint}
+      />
+    );
+  }
+
   if (!selectedObject || !physicsState) {
     return (
       <div className="properties-panel">
@@ -80,27 +540,35 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({
           <div className="state-grid">
             <div className="state-item">
               <div className="label">Position X</div>
-              <div className="value blue">{formatValue(physicsState.position.x)}</div>
+              <div className="value blue">{formatQuantity('length', physicsState.position.x)}</div>
             </div>
             <div className="state-item">
               <div className="label">Position Y</div>
-              <div className="value blue">{formatValue(physicsState.position.y)}</div>
+              <div className="value blue">{formatQuantity('length', physicsState.position.y)}</div>
             </div>
             <div className="state-item">
               <div className="label">Velocity X</div>
-              <div className="value green">{formatValue(physicsState.velocity.x)}</div>
+              <div className="value green">{formatQuantity('velocity', physicsState.velocity.x)}</div>
             </div>
             <div className="state-item">
               <div className="label">Velocity Y</div>
-              <div className="value green">{formatValue(physicsState.velocity.y)}</div>
+              <div className="value green">{formatQuantity('velocity', physicsState.velocity.y)}</div>
             </div>
             <div className="state-item">
               <div className="label">Speed</div>
-              <div className="value green">{formatValue(physicsState.speed)} m/s</div>
+              <div className="value green">{formatQuantity('velocity', physicsState.speed)}</div>
             </div>
             <div className="state-item">
               <div className="label">Mass</div>
-              <div className="value violet">{formatValue(physicsState.mass, 2)} kg</div>
+              <div className="value violet">{formatQuantity('mass', physicsState.mass)}</div>
+            </div>
+            <div className="state-item">
+              <div className="label">Acceleration</div>
+              <div className="value orange">{formatQuantity('acceleration', Math.hypot(physicsState.acceleration.x, physicsState.acceleration.y))}</div>
+            </div>
+            <div className="state-item">
+              <div className="label">Momentum</div>
+              <div className="value orange">{formatQuantity('momentum', Math.hypot(physicsState.momentum.x, physicsState.momentum.y))}</div>
             </div>
           </div>
         </div>
@@ -118,7 +586,7 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({
                 style={{ width: `${Math.min(100, physicsState.kineticEnergy * 0.5)}%` }}
               />
             </div>
-            <span className="value">{formatValue(physicsState.kineticEnergy)} J</span>
+            <span className="value">{formatQuantity('energy', physicsState.kineticEnergy, 1)}</span>
           </div>
           <div className="energy-row">
             <span className="label">Potential</span>
@@ -128,7 +596,7 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({
                 style={{ width: `${Math.min(100, physicsState.potentialEnergy * 0.5)}%` }}
               />
             </div>
-            <span className="value">{formatValue(physicsState.potentialEnergy)} J</span>
+            <span className="value">{formatQuantity('energy', physicsState.potentialEnergy, 1)}</span>
           </div>
           <div className="energy-row">
             <span className="label">Total</span>
@@ -138,10 +606,27 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({
                 style={{ width: `${Math.min(100, physicsState.totalEnergy * 0.5)}%` }}
               />
             </div>
-            <span className="value">{formatValue(physicsState.totalEnergy)} J</span>
+            <span className="value">{formatQuantity('energy', physicsState.totalEnergy, 1)}</span>
           </div>
         </div>
 
+        <ForceSection physicsState={physicsState} onExport={onExportFreeBody} />
+
+        {!isStatic && <ApplyForceSection onApply={onApplyForce} />}
+
+        <MaterialSection
+          current={selectedObject.customData?.material}
+          template={{
+            name: '',
+            density: Number.isFinite(selectedObject.body?.density) ? selectedObject.body.density : 0.001,
+            friction,
+            restitution,
+            frictionAir,
+            color: typeof fillColor === 'string' ? fillColor : '#6366f1'
+          }}
+          onApply={onApplyMaterial}
+        />
+
         {/* Properties - only show in 2D mode with body */}
         {!is3DMode && (
           <div className="properties-section">
@@ -152,7 +637,7 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({
             <div className="property-slider">
               <div className="header">
                 <span className="label">Mass</span>
-                <span className="value">{formatValue(physicsState.mass, 2)} kg</span>
+                <span className="value">{formatQuantity('mass', physicsState.mass)}</span>
               </div>
               <input
                 type="range"
@@ -212,6 +697,8 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({
           </div>
         )}
 
+        {!is3DMode && <EmitterSection sceneObject={selectedObject} onChange={onEmitterChange} />}
+
         {/* Actions */}
         <div className="properties-section">
           <button className="action-btn" onClick={onResetObject}>
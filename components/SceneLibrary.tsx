@@ -0,0 +1,192 @@
+import React, { useRef, useState } from 'react';
+import { ChevronDown, Library, Save, Pencil, Copy, Trash2, FolderOpen, Download, Upload } from 'lucide-react';
+import { SavedScene, SceneSnapshot } from '../types';
+import {
+  listSavedScenes,
+  saveScene,
+  renameSavedScene,
+  duplicateSavedScene,
+  deleteSavedScene,
+  parseSceneData
+} from '../utils/sceneStorage';
+import { SCENE_FILE_EXTENSION } from '../utils/sceneFile';
+
+interface SceneLibraryProps {
+  onCaptureScene: () => { snapshot: SceneSnapshot; thumbnail?: string } | null;
+  onLoadScene: (snapshot: SceneSnapshot, name: string) => void;
+  onExportFile: (name: string, snapshot?: SceneSnapshot) => void;
+  onImportFile: (file: File) => void;
+}
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+const SceneLibrary: React.FC<SceneLibraryProps> = ({ onCaptureScene, onLoadScene, onExportFile, onImportFile }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [scenes, setScenes] = useState<SavedScene[]>([]);
+  const [newName, setNewName] = useState('');
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = () => setScenes(listSavedScenes());
+
+  // Storage writes throw when the quota is exhausted; surface that instead of losing the save
+  const runStorageAction = (action: () => void) => {
+    try {
+      action();
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not update saved scenes.');
+    }
+    refresh();
+  };
+
+  const handleToggle = () => {
+    if (!isOpen) refresh();
+    setIsOpen(!isOpen);
+    setError(null);
+  };
+
+  const handleSave = () => {
+    const captured = onCaptureScene();
+    if (!captured) return;
+    runStorageAction(() => {
+      saveScene(newName || `Scene ${scenes.length + 1}`, captured.snapshot, captured.thumbnail);
+      setNewName('');
+    });
+  };
+
+  const handleLoad = (scene: SavedScene) => {
+    const snapshot = parseSceneData(scene);
+    if (!snapshot) {
+      setError(`"${scene.name}" could not be read.`);
+      return;
+    }
+    onLoadScene(snapshot, scene.name);
+    setIsOpen(false);
+  };
+
+  const handleExport = (scene: SavedScene) => {
+    const snapshot = parseSceneData(scene);
+    if (snapshot) onExportFile(scene.name, snapshot);
+    else setError(`"${scene.name}" could not be read.`);
+  };
+
+  const handleFileChosen = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    onImportFile(file);
+    setIsOpen(false);
+  };
+
+  const commitRename = () => {
+    if (renamingId) runStorageAction(() => renameSavedScene(renamingId, renameValue));
+    setRenamingId(null);
+  };
+
+  return (
+    <div className="experiment-selector">
+      <button onClick={handleToggle} className="experiment-btn">
+        <Library size={16} style={{ color: '#818cf8' }} />
+        <span>Scenes</span>
+        <ChevronDown
+          size={14}
+          style={{
+            transform: isOpen ? 'rotate(180deg)' : 'none',
+            transition: 'transform 0.2s'
+          }}
+        />
+      </button>
+
+      {isOpen && (
+        <>
+          <div className="backdrop" onClick={() => setIsOpen(false)} />
+
+          <div className="experiment-dropdown scene-library">
+            <div className="scene-library-save">
+              <input
+                type="text"
+                placeholder="Name this scene"
+                value={newName}
+                onChange={(e) => setNewName(e.target.value)}
+                onKeyDown={(e) => { if (e.key === 'Enter') handleSave(); }}
+              />
+              <button onClick={handleSave} title="Save current scene">
+                <Save size={14} /> Save
+              </button>
+            </div>
+
+            <div className="scene-library-files">
+              <button onClick={() => onExportFile(newName || 'scene')} title={`Download the current scene as ${SCENE_FILE_EXTENSION}`}>
+                <Download size={12} /> Export file
+              </button>
+              <button onClick={() => fileInputRef.current?.click()} title="Load a scene file (or drop it on the canvas)">
+                <Upload size={12} /> Import file
+              </button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept={`${SCENE_FILE_EXTENSION},.json,application/json`}
+                style={{ display: 'none' }}
+                onChange={handleFileChosen}
+              />
+            </div>
+
+            {error && <div className="scene-library-error">{error}</div>}
+
+            {scenes.length === 0 && (
+              <div className="scene-library-empty">No saved scenes yet.</div>
+            )}
+
+            {scenes.map(scene => (
+              <div key={scene.id} className="experiment-item scene-library-item">
+                <button className="thumbnail" onClick={() => handleLoad(scene)} title="Load scene">
+                  {scene.thumbnail
+                    ? <img src={scene.thumbnail} alt="" />
+                    : <FolderOpen size={18} />}
+                </button>
+                <div className="content">
+                  {renamingId === scene.id ? (
+                    <input
+                      type="text"
+                      autoFocus
+                      value={renameValue}
+                      onChange={(e) => setRenameValue(e.target.value)}
+                      onBlur={commitRename}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') commitRename();
+                        if (e.key === 'Escape') setRenamingId(null);
+                      }}
+                    />
+                  ) : (
+                    <div className="name" onClick={() => handleLoad(scene)}>{scene.name}</div>
+                  )}
+                  <div className="description">Saved {formatDate(scene.updatedAt)}</div>
+                  <div className="scene-library-actions">
+                    <button onClick={() => { setRenamingId(scene.id); setRenameValue(scene.name); }} title="Rename">
+                      <Pencil size={12} />
+                    </button>
+                    <button onClick={() => runStorageAction(() => duplicateSavedScene(scene.id))} title="Duplicate">
+                      <Copy size={12} />
+                    </button>
+                    <button onClick={() => handleExport(scene)} title="Export file">
+                      <Download size={12} />
+                    </button>
+                    <button className="danger" onClick={() => runStorageAction(() => deleteSavedScene(scene.id))} title="Delete">
+                      <Trash2 size={12} />
+                    </button>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default SceneLibrary;
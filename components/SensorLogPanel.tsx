@@ -0,0 +1,65 @@
+import React from 'react';
+import { X, Gauge, Trash2 } from 'lucide-react';
+import { SensorReading } from '../types';
+import { formatSpeed, formatEnergy } from '../utils/sensors';
+
+interface SensorLogPanelProps {
+  readings: SensorReading[];
+  isVisible: boolean;
+  onClose: () => void;
+  onClear: () => void;
+}
+
+const SensorLogPanel: React.FC<SensorLogPanelProps> = ({ readings, isVisible, onClose, onClear }) => {
+  if (!isVisible) return null;
+
+  return (
+    <div className="sensor-log-panel">
+      <div className="sensor-log-header">
+        <span><Gauge size={14} /> Sensor Log</span>
+        <div className="sensor-log-actions">
+          <button onClick={onClear} title="Clear log" disabled={readings.length === 0}>
+            <Trash2 size={14} />
+          </button>
+          <button onClick={onClose} title="Close">
+            <X size={14} />
+          </button>
+        </div>
+      </div>
+
+      {readings.length === 0 ? (
+        <div className="sensor-log-empty">
+          Add a Speed Gate or Energy Meter and send something through it.
+        </div>
+      ) : (
+        <table className="sensor-log-table">
+          <thead>
+            <tr>
+              <th>Time</th>
+              <th>Sensor</th>
+              <th>Body</th>
+              <th>Reading</th>
+            </tr>
+          </thead>
+          <tbody>
+            {/* Newest first */}
+            {[...readings].reverse().map(reading => (
+              <tr key={reading.id}>
+                <td>{reading.time.toFixed(2)} s</td>
+                <td className={reading.sensorType}>{reading.sensorLabel}</td>
+                <td>{reading.bodyLabel} #{reading.bodyId}</td>
+                <td>
+                  {reading.sensorType === 'speed_gate'
+                    ? formatSpeed(reading.speed)
+                    : `KE ${formatEnergy(reading.kineticEnergy)} · PE ${formatEnergy(reading.potentialEnergy)}`}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
+
+export default SensorLogPanel;
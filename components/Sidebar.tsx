@@ -11,14 +11,20 @@ import {
   ChevronDown,
   ChevronRight,
   Snowflake,
+  Droplets,
   Wind,
   Target,
   Gauge,
   RectangleHorizontal,
-  Search
+  Search,
+  Shapes,
+  Plus,
+  X
 } from 'lucide-react';
 import { PhysicsObjectDefinition } from '../types';
-import { PHYSICS_OBJECTS, OBJECT_CATEGORIES } from '../data/objects';
+import { OBJECT_CATEGORIES, getAllObjects } from '../data/objects';
+import { deleteUserObject } from '../utils/userObjects';
+import ObjectBuilder from './ObjectBuilder';
 
 interface SidebarProps {
   onDragStart: (e: React.DragEvent, object: PhysicsObjectDefinition) => void;
@@ -33,7 +39,9 @@ const getCategoryIcon = (categoryId: string) => {
     case 'springs': return <Link {...iconProps} />;
     case 'complex': return <Settings {...iconProps} />;
     case 'forces': return <Zap {...iconProps} />;
+    case 'fluids': return <Droplets {...iconProps} />;
     case 'tools': return <Ruler {...iconProps} />;
+    case 'custom': return <Shapes {...iconProps} />;
     default: return <Box {...iconProps} />;
   }
 };
@@ -43,9 +51,11 @@ const getObjectIcon = (obj: PhysicsObjectDefinition) => {
   const props = { size: 20, style: { color }, strokeWidth: 1.5 };
   
   if (obj.type === 'circle') return <Circle {...props} />;
+  if (obj.type === 'compound' || obj.vertices) return <Shapes {...props} />;
   if (obj.type === 'polygon') return <Triangle {...props} />;
-  if (obj.customData?.emitterType === 'fan') return <Wind {...props} />;
+  if (obj.customData?.emitterType === 'fan' || obj.customData?.emitterType === 'wind') return <Wind {...props} />;
   if (obj.customData?.emitterType) return <Target {...props} />;
+  if (obj.customData?.fluidType) return <Droplets {...props} />;
   if (obj.category === 'tools') return <Gauge {...props} />;
   if (obj.id.includes('ice')) return <Snowflake {...props} />;
   if ((obj.width || 0) > (obj.height || 0) * 2) return <RectangleHorizontal {...props} />;
@@ -55,7 +65,8 @@ const getObjectIcon = (obj: PhysicsObjectDefinition) => {
 const ObjectCard: React.FC<{
   object: PhysicsObjectDefinition;
   onDragStart: (e: React.DragEvent, obj: PhysicsObjectDefinition) => void;
-}> = ({ object, onDragStart }) => {
+  onDelete?: (obj: PhysicsObjectDefinition) => void;
+}> = ({ object, onDragStart, onDelete }) => {
   return (
     <div
       draggable
@@ -69,6 +80,15 @@ const ObjectCard: React.FC<{
       {object.options.isStatic && (
         <span className="static-badge">Static</span>
       )}
+      {onDelete && (
+        <button
+          className="object-delete"
+          onClick={() => onDelete(object)}
+          title="Remove from My Objects; scenes that use it keep their copy"
+        >
+          <X size={10} />
+        </button>
+      )}
     </div>
   );
 };
@@ -79,7 +99,8 @@ const CategorySection: React.FC<{
   isExpanded: boolean;
   onToggle: () => void;
   onDragStart: (e: React.DragEvent, obj: PhysicsObjectDefinition) => void;
-}> = ({ category, objects, isExpanded, onToggle, onDragStart }) => {
+  onDelete?: (obj: PhysicsObjectDefinition) => void;
+}> = ({ category, objects, isExpanded, onToggle, onDragStart, onDelete }) => {
   return (
     <div className="category-section">
       <button onClick={onToggle} className="category-header">
@@ -96,8 +117,11 @@ const CategorySection: React.FC<{
       {isExpanded && (
         <div className="category-objects">
           {objects.map(obj => (
-            <ObjectCard key={obj.id} object={obj} onDragStart={onDragStart} />
+            <ObjectCard key={obj.id} object={obj} onDragStart={onDragStart} onDelete={onDelete} />
           ))}
+          {category.id === 'custom' && objects.length === 0 && (
+            <p className="category-empty">Build an object to keep it here</p>
+          )}
         </div>
       )}
     </div>
@@ -109,6 +133,9 @@ const Sidebar: React.FC<SidebarProps> = ({ onDragStart }) => {
     new Set(['basic', 'ramps'])
   );
   const [searchQuery, setSearchQuery] = useState('');
+  const [objects, setObjects] = useState(getAllObjects);
+  const [showBuilder, setShowBuilder] = useState(false);
+  const [error, setError] = useState<string | null>(null);
 
   const toggleCategory = (categoryId: string) => {
     setExpandedCategories(prev => {
@@ -119,8 +146,26 @@ const Sidebar: React.FC<SidebarProps> = ({ onDragStart }) => {
     });
   };
 
+  const handleSaved = () => {
+    setObjects(getAllObjects());
+    setShowBuilder(false);
+    setExpandedCategories(prev => new Set(prev).add('custom'));
+  };
+
+  const handleDelete = (obj: PhysicsObjectDefinition) => {
+    try {
+      deleteUserObject(obj.id);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not delete the object.');
+    }
+    setObjects(getAllObjects());
+  };
+
+  const deleteHandler = (obj: PhysicsObjectDefinition) => (obj.category === 'custom' ? handleDelete : undefined);
+
   const filteredObjects = searchQuery
-    ? PHYSICS_OBJECTS.filter(obj => 
+    ? objects.filter(obj => 
         obj.label.toLowerCase().includes(searchQuery.toLowerCase()) ||
         obj.category.toLowerCase().includes(searchQuery.toLowerCase())
       )
@@ -130,7 +175,7 @@ const Sidebar: React.FC<SidebarProps> = ({ onDragStart }) => {
     <div className="sidebar">
       <div className="sidebar-header">
         <h2>Objects</h2>
-        <span className="badge">{PHYSICS_OBJECTS.length} items</span>
+        <span className="badge">{objects.length} items</span>
       </div>
       
       <div className="sidebar-search">
@@ -154,7 +199,7 @@ const Sidebar: React.FC<SidebarProps> = ({ onDragStart }) => {
             </p>
             <div className="category-objects">
               {filteredObjects.map(obj => (
-                <ObjectCard key={obj.id} object={obj} onDragStart={onDragStart} />
+                <ObjectCard key={obj.id} object={obj} onDragStart={onDragStart} onDelete={deleteHandler(obj)} />
               ))}
             </div>
           </div>
@@ -163,18 +208,25 @@ const Sidebar: React.FC<SidebarProps> = ({ onDragStart }) => {
             <CategorySection
               key={category.id}
               category={category}
-              objects={PHYSICS_OBJECTS.filter(obj => obj.category === category.id)}
+              objects={objects.filter(obj => obj.category === category.id)}
               isExpanded={expandedCategories.has(category.id)}
               onToggle={() => toggleCategory(category.id)}
               onDragStart={onDragStart}
+              onDelete={category.id === 'custom' ? handleDelete : undefined}
             />
           ))
         )}
       </div>
 
       <div className="sidebar-footer">
+        <button className="build-object-btn" onClick={() => setShowBuilder(true)}>
+          <Plus size={12} /> Build Object
+        </button>
+        {error && <div className="material-editor-error">{error}</div>}
         <p>Drag items onto the canvas</p>
       </div>
+
+      {showBuilder && <ObjectBuilder onSaved={handleSaved} onClose={() => setShowBuilder(false)} />}
     </div>
   );
 };
@@ -0,0 +1,87 @@
+import React, { useState } from 'react';
+import { History, Play, Square, GitBranch } from 'lucide-react';
+import { TimelineStatus } from '../types';
+
+interface TimelineScrubberProps {
+  status: TimelineStatus | null;
+  onSeek: (index: number) => void;
+  onReplay: (speed: number) => void;
+  onStopReplay: () => void;
+  onBranch: () => void;
+}
+
+const REPLAY_SPEEDS = [0.25, 0.5, 1, 2];
+
+const TimelineScrubber: React.FC<TimelineScrubberProps> = ({ status, onSeek, onReplay, onStopReplay, onBranch }) => {
+  const [replaySpeed, setReplaySpeed] = useState(1);
+  const frameCount = status?.frameCount ?? 0;
+  const index = status?.index ?? 0;
+  const rewound = frameCount > 0 && index < frameCount - 1;
+  // Objects were added or removed since this frame, so playing carries on from the newest one
+  const changedSince = rewound && status?.canBranch === false;
+
+  const handleSpeed = (speed: number) => {
+    setReplaySpeed(speed);
+    if (status?.replaying) onReplay(speed);
+  };
+
+  return (
+    <div className="timeline-scrubber">
+      <History size={14} className="timeline-icon" />
+      <button
+        className="timeline-btn"
+        onClick={() => (status?.replaying ? onStopReplay() : onReplay(replaySpeed))}
+        disabled={frameCount < 2}
+        title={status?.replaying ? 'Stop replay' : 'Replay'}
+      >
+        {status?.replaying ? <Square size={12} /> : <Play size={12} />}
+      </button>
+
+      <input
+        type="range"
+        min={0}
+        max={Math.max(0, frameCount - 1)}
+        value={index}
+        disabled={frameCount < 2}
+        onChange={(e) => onSeek(parseInt(e.target.value))}
+        className="timeline-slider"
+      />
+
+      <span className="timeline-time">
+        {(status?.time ?? 0).toFixed(2)} / {(status?.endTime ?? 0).toFixed(2)} s
+      </span>
+
+      {changedSince && (
+        <span
+          className="timeline-note"
+          title="Objects were added or removed after this moment, so it can be viewed but not resumed. Playing carries on from the newest frame."
+        >
+          View only
+        </span>
+      )}
+
+      <div className="time-controls">
+        {REPLAY_SPEEDS.map(speed => (
+          <button
+            key={speed}
+            onClick={() => handleSpeed(speed)}
+            className={`time-btn ${replaySpeed === speed ? 'active' : ''}`}
+          >
+            {speed}×
+          </button>
+        ))}
+      </div>
+
+      <button
+        className="timeline-btn"
+        onClick={onBranch}
+        disabled={!rewound || changedSince}
+        title={changedSince ? 'Objects were added or removed since this moment' : 'Resume simulating from this moment'}
+      >
+        <GitBranch size={12} />
+      </button>
+    </div>
+  );
+};
+
+export default TimelineScrubber;
@@ -13,13 +13,26 @@ import {
   Activity,
   Zap,
   SkipForward,
-  Gauge
+  Gauge,
+  RotateCw,
+  Maximize2,
+  ArrowUpRight,
+  Ruler,
+  DraftingCompass,
+  Timer,
+  Crosshair,
+  Flame,
+  Spline
 } from 'lucide-react';
-import { ToolType, VisualizationSettings } from '../types';
+import { ToolType, ConstraintType, InstrumentType, VisualizationSettings, UnitSettings, UnitSystem } from '../types';
+import { CONSTRAINT_TYPES } from '../utils/constraints';
+import { PIXELS_PER_METER_OPTIONS } from '../utils/units';
 
 interface ToolbarProps {
   currentTool: ToolType;
   setTool: (t: ToolType) => void;
+  constraintType: ConstraintType;
+  setConstraintType: (t: ConstraintType) => void;
   isPaused: boolean;
   setIsPaused: (p: boolean) => void;
   onClear: () => void;
@@ -28,14 +41,19 @@ interface ToolbarProps {
   setGravity: (g: number) => void;
   timeScale: number;
   setTimeScale: (t: number) => void;
+  units: UnitSettings;
+  setUnits: (u: UnitSettings) => void;
   visualization: VisualizationSettings;
   setVisualization: (v: VisualizationSettings) => void;
   onStepFrame: () => void;
+  onAddInstrument?: (type: InstrumentType) => void;
 }
 
 const Toolbar: React.FC<ToolbarProps> = ({ 
   currentTool, 
   setTool, 
+  constraintType,
+  setConstraintType,
   isPaused, 
   setIsPaused, 
   onClear,
@@ -44,9 +62,12 @@ const Toolbar: React.FC<ToolbarProps> = ({
   setGravity,
   timeScale,
   setTimeScale,
+  units,
+  setUnits,
   visualization,
   setVisualization,
-  onStepFrame
+  onStepFrame,
+  onAddInstrument
 }) => {
   
   const tools = [
@@ -54,6 +75,15 @@ const Toolbar: React.FC<ToolbarProps> = ({
     { type: ToolType.CONSTRAINT, icon: <LinkIcon size={15} /> },
     { type: ToolType.PIN, icon: <Lock size={15} /> },
     { type: ToolType.ERASER, icon: <Eraser size={15} /> },
+    { type: ToolType.ROTATE, icon: <RotateCw size={15} /> },
+    { type: ToolType.RESIZE, icon: <Maximize2 size={15} /> },
+    { type: ToolType.SLINGSHOT, icon: <ArrowUpRight size={15} /> },
+  ];
+
+  const instruments: { type: InstrumentType; label: string; icon: React.ReactNode }[] = [
+    { type: 'ruler', label: 'Add ruler', icon: <Ruler size={15} /> },
+    { type: 'protractor', label: 'Add protractor', icon: <DraftingCompass size={15} /> },
+    { type: 'stopwatch', label: 'Add stopwatch (starts/stops on sensors, click to control)', icon: <Timer size={15} /> },
   ];
 
   const timeScales = [
@@ -62,6 +92,11 @@ const Toolbar: React.FC<ToolbarProps> = ({
     { value: 2, label: '2×' },
   ];
 
+  const unitSystems: { value: UnitSystem; label: string; title: string }[] = [
+    { value: 'si', label: 'SI', title: 'Metres, kilograms, newtons, joules' },
+    { value: 'cgs', label: 'cgs', title: 'Centimetres, grams, dynes, ergs' },
+  ];
+
   const toggleVisualization = (key: keyof VisualizationSettings) => {
     setVisualization({ ...visualization, [key]: !visualization[key] });
   };
@@ -82,6 +117,21 @@ const Toolbar: React.FC<ToolbarProps> = ({
         ))}
       </div>
 
+      {currentTool === ToolType.CONSTRAINT && (
+        <div className="time-controls">
+          {CONSTRAINT_TYPES.map(ct => (
+            <button
+              key={ct.type}
+              onClick={() => setConstraintType(ct.type)}
+              className={`time-btn ${constraintType === ct.type ? 'active' : ''}`}
+              title={ct.description}
+            >
+              {ct.label}
+            </button>
+          ))}
+        </div>
+      )}
+
       <div className="toolbar-divider" />
 
       {/* Play/Pause */}
@@ -134,6 +184,32 @@ const Toolbar: React.FC<ToolbarProps> = ({
 
       <div className="toolbar-divider" />
 
+      {/* Units */}
+      <div className="time-controls">
+        {unitSystems.map(us => (
+          <button
+            key={us.value}
+            onClick={() => setUnits({ ...units, system: us.value })}
+            className={`time-btn ${units.system === us.value ? 'active' : ''}`}
+            title={us.title}
+          >
+            {us.label}
+          </button>
+        ))}
+        <select
+          value={units.pixelsPerMeter}
+          onChange={(e) => setUnits({ ...units, pixelsPerMeter: parseFloat(e.target.value) })}
+          className="scale-select"
+          title="Pixels per metre"
+        >
+          {PIXELS_PER_METER_OPTIONS.map(ppm => (
+            <option key={ppm} value={ppm}>{ppm} px/m</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="toolbar-divider" />
+
       {/* Visualizations */}
       <div className="toolbar-section">
         <button
@@ -150,6 +226,13 @@ const Toolbar: React.FC<ToolbarProps> = ({
         >
           <ArrowRight size={14} />
         </button>
+        <button
+          onClick={() => toggleVisualization('showForceVectors')}
+          className={`view-toggle ${visualization.showForceVectors ? 'active' : ''}`}
+          title="Forces"
+        >
+          <Zap size={14} />
+        </button>
         <button
           onClick={() => toggleVisualization('showMotionTrails')}
           className={`view-toggle ${visualization.showMotionTrails ? 'active' : ''}`}
@@ -157,8 +240,49 @@ const Toolbar: React.FC<ToolbarProps> = ({
         >
           <Activity size={14} />
         </button>
+        <button
+          onClick={() => toggleVisualization('showCollisionPoints')}
+          className={`view-toggle ${visualization.showCollisionPoints ? 'active' : ''}`}
+          title="Collision Points"
+        >
+          <Crosshair size={14} />
+        </button>
+        <button
+          onClick={() => toggleVisualization('showEnergyColors')}
+          className={`view-toggle ${visualization.showEnergyColors ? 'active' : ''}`}
+          title="Energy Colors"
+        >
+          <Flame size={14} />
+        </button>
+        <button
+          onClick={() => toggleVisualization('showTrajectoryPrediction')}
+          className={`view-toggle ${visualization.showTrajectoryPrediction ? 'active' : ''}`}
+          title="Trajectory Prediction"
+        >
+          <Spline size={14} />
+        </button>
       </div>
 
+      {onAddInstrument && (
+        <>
+          <div className="toolbar-divider" />
+
+          {/* Instruments */}
+          <div className="toolbar-section">
+            {instruments.map(instrument => (
+              <button
+                key={instrument.type}
+                onClick={() => onAddInstrument(instrument.type)}
+                className="tool-btn"
+                title={instrument.label}
+              >
+                {instrument.icon}
+              </button>
+            ))}
+          </div>
+        </>
+      )}
+
       <div className="toolbar-divider" />
 
       {/* Actions */}
@@ -8,9 +8,14 @@ export const EXPERIMENTS: ExperimentPreset[] = [
     objects: [
       { definitionId: 'ramp_45', x: 400, y: 450, angle: 0 },
       { definitionId: 'wooden_box', x: 340, y: 360, velocity: { x: 0, y: 0 } },
-      { definitionId: 'velocity_sensor', x: 520, y: 500 }
+      { definitionId: 'velocity_sensor', x: 520, y: 500 },
+      { definitionId: 'velocity_sensor', x: 720, y: 500 }
     ],
     constraints: [],
+    measurements: [
+      { type: 'stopwatch', position: { x: 560, y: 380 } },
+      { type: 'ruler', position: { x: 520, y: 420 }, end: { x: 720, y: 420 } }
+    ],
     initialSettings: {
       gravity: 1,
       timeScale: 1,
@@ -28,6 +33,9 @@ export const EXPERIMENTS: ExperimentPreset[] = [
     constraints: [
       { type: 'rope', objectAIndex: 0, objectBIndex: 1, stiffness: 0.9 }
     ],
+    measurements: [
+      { type: 'protractor', position: { x: 500, y: 100 }, end: { x: 500, y: 300 }, armB: { x: 350, y: 250 } }
+    ],
     initialSettings: {
       gravity: 1,
       timeScale: 1,
@@ -102,11 +110,15 @@ export const EXPERIMENTS: ExperimentPreset[] = [
       { definitionId: 'platform_small', x: 650, y: 450 }
     ],
     constraints: [],
+    measurements: [
+      { type: 'ruler', position: { x: 150, y: 400 }, targetObjectIndex: 1 }
+    ],
     initialSettings: {
       gravity: 1,
       timeScale: 0.5,
       showMotionTrails: true,
-      showVelocityVectors: true
+      showVelocityVectors: true,
+      showTrajectoryPrediction: true
     }
   },
   {
@@ -215,6 +227,24 @@ export const EXPERIMENTS: ExperimentPreset[] = [
       timeScale: 1,
       showForceVectors: true
     }
+  },
+  {
+    id: 'floating_sinking',
+    name: 'Floating & Sinking',
+    description: 'Drop cork, wood, ice and metal into water and compare how deep each one floats.',
+    objects: [
+      { definitionId: 'platform_large', x: 450, y: 510 },
+      { definitionId: 'water_tank', x: 450, y: 400 },
+      { definitionId: 'cork_block', x: 340, y: 200 },
+      { definitionId: 'wooden_box', x: 410, y: 180 },
+      { definitionId: 'ice_cube', x: 490, y: 200 },
+      { definitionId: 'metal_box', x: 560, y: 180 }
+    ],
+    constraints: [],
+    initialSettings: {
+      gravity: 1,
+      timeScale: 1
+    }
   }
 ];
 
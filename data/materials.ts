@@ -1,4 +1,4 @@
-import { MaterialPreset } from '../types';
+import { FluidPreset, MaterialPreset } from '../types';
 
 export const MATERIAL_PRESETS: Record<string, MaterialPreset> = {
   wood: {
@@ -15,7 +15,9 @@ export const MATERIAL_PRESETS: Record<string, MaterialPreset> = {
     friction: 0.4,
     restitution: 0.1,
     frictionAir: 0.005,
-    color: '#64748b'
+    color: '#64748b',
+    magnetic: true,
+    conductive: true
   },
   rubber: {
     name: 'Rubber',
@@ -83,14 +85,61 @@ export const MATERIAL_PRESETS: Record<string, MaterialPreset> = {
   }
 };
 
+export const FLUID_PRESETS: Record<string, FluidPreset> = {
+  water: {
+    name: 'Water',
+    density: 0.001,
+    friction: 0,
+    restitution: 0,
+    frictionAir: 0,
+    color: '#38bdf8',
+    drag: 0.5
+  },
+  oil: {
+    name: 'Oil',
+    density: 0.00092,
+    friction: 0,
+    restitution: 0,
+    frictionAir: 0,
+    color: '#eab308',
+    drag: 1.2
+  },
+  honey: {
+    name: 'Honey',
+    density: 0.0014,
+    friction: 0,
+    restitution: 0,
+    frictionAir: 0,
+    color: '#f59e0b',
+    drag: 8
+  }
+};
+
+export function getFluidByName(name: string): FluidPreset | undefined {
+  return FLUID_PRESETS[name.toLowerCase()];
+}
+
 export function getMaterialByName(name: string): MaterialPreset | undefined {
   return MATERIAL_PRESETS[name.toLowerCase()];
 }
 
+// Matter's own frictionStatic, for materials without a static coefficient
+const DEFAULT_FRICTION_STATIC = 0.5;
+
+/**
+ * Matter holds a resting contact until holding it would take more than friction × frictionStatic,
+ * so a static coefficient becomes its ratio to the kinetic one.
+ */
+export const matterFrictionStatic = (material: MaterialPreset) =>
+  material.frictionStatic !== undefined && material.friction > 0
+    ? material.frictionStatic / material.friction
+    : DEFAULT_FRICTION_STATIC;
+
 export function applyMaterial(material: MaterialPreset) {
   return {
     density: material.density,
     friction: material.friction,
+    frictionStatic: matterFrictionStatic(material),
     restitution: material.restitution,
     frictionAir: material.frictionAir,
     render: { fillStyle: material.color }
@@ -1,4 +1,5 @@
 import { PhysicsObjectDefinition } from '../types';
+import { findUserObject, listUserObjects } from '../utils/userObjects';
 
 export const PHYSICS_OBJECTS: PhysicsObjectDefinition[] = [
   // ============ BASIC SHAPES ============
@@ -513,7 +514,36 @@ export const PHYSICS_OBJECTS: PhysicsObjectDefinition[] = [
       label: 'Magnet',
       render: { fillStyle: '#dc2626', strokeStyle: '#b91c1c', lineWidth: 2 }
     },
-    customData: { emitterType: 'magnet', emitterStrength: 0.0001 }
+    customData: { emitterType: 'magnet', emitterStrength: 0.0001, magnetPolarity: 'north' }
+  },
+  {
+    id: 'magnet_south',
+    label: 'Magnet (S)',
+    category: 'forces',
+    type: 'rectangle',
+    width: 40,
+    height: 50,
+    options: {
+      isStatic: true,
+      label: 'Magnet (S)',
+      render: { fillStyle: '#2563eb', strokeStyle: '#1d4ed8', lineWidth: 2 }
+    },
+    customData: { emitterType: 'magnet', emitterStrength: 0.0001, magnetPolarity: 'south' }
+  },
+  {
+    id: 'wind_zone',
+    label: 'Wind Zone',
+    category: 'forces',
+    type: 'rectangle',
+    width: 240,
+    height: 160,
+    options: {
+      isStatic: true,
+      isSensor: true,
+      label: 'Wind Zone',
+      render: { fillStyle: '#38bdf8', strokeStyle: '#0ea5e9', lineWidth: 1, opacity: 0.15 }
+    },
+    customData: { emitterType: 'wind', emitterStrength: 0.0015, emitterDirection: 0, windGustiness: 0.4 }
   },
   {
     id: 'gravity_well',
@@ -543,7 +573,88 @@ export const PHYSICS_OBJECTS: PhysicsObjectDefinition[] = [
       label: 'Rocket',
       render: { fillStyle: '#ef4444', strokeStyle: '#dc2626', lineWidth: 2 }
     },
-    customData: { emitterType: 'rocket', emitterStrength: 0.015, emitterDirection: -90 }
+    customData: { emitterType: 'rocket', emitterStrength: 0.004, emitterDirection: -90, fuelSeconds: 3 }
+  },
+
+  // ============ FLUIDS ============
+  {
+    id: 'water_tank',
+    label: 'Water Tank',
+    category: 'fluids',
+    type: 'rectangle',
+    width: 320,
+    height: 200,
+    options: {
+      isStatic: true,
+      isSensor: true,
+      label: 'Water Tank',
+      render: { fillStyle: '#0c4a6e', strokeStyle: '#38bdf8', lineWidth: 2, opacity: 0.35 }
+    },
+    customData: { fluidType: 'water', fluidLevel: 0.8 }
+  },
+  {
+    id: 'oil_tank',
+    label: 'Oil Tank',
+    category: 'fluids',
+    type: 'rectangle',
+    width: 320,
+    height: 200,
+    options: {
+      isStatic: true,
+      isSensor: true,
+      label: 'Oil Tank',
+      render: { fillStyle: '#422006', strokeStyle: '#eab308', lineWidth: 2, opacity: 0.35 }
+    },
+    customData: { fluidType: 'oil', fluidLevel: 0.8 }
+  },
+  {
+    id: 'honey_tank',
+    label: 'Honey Tank',
+    category: 'fluids',
+    type: 'rectangle',
+    width: 320,
+    height: 200,
+    options: {
+      isStatic: true,
+      isSensor: true,
+      label: 'Honey Tank',
+      render: { fillStyle: '#451a03', strokeStyle: '#f59e0b', lineWidth: 2, opacity: 0.35 }
+    },
+    customData: { fluidType: 'honey', fluidLevel: 0.8 }
+  },
+  {
+    id: 'cork_block',
+    label: 'Cork Block',
+    category: 'fluids',
+    type: 'rectangle',
+    width: 40,
+    height: 40,
+    options: {
+      density: 0.00024,
+      friction: 0.6,
+      restitution: 0.5,
+      frictionAir: 0.02,
+      label: 'Cork Block',
+      render: { fillStyle: '#d6d3d1', strokeStyle: '#a8a29e', lineWidth: 2 }
+    },
+    customData: { material: 'cork' }
+  },
+  {
+    id: 'ice_cube',
+    label: 'Ice Cube',
+    category: 'fluids',
+    type: 'rectangle',
+    width: 40,
+    height: 40,
+    options: {
+      density: 0.0009,
+      friction: 0.05,
+      restitution: 0.2,
+      frictionAir: 0.002,
+      label: 'Ice Cube',
+      render: { fillStyle: '#a5f3fc', strokeStyle: '#67e8f9', lineWidth: 2, opacity: 0.85 }
+    },
+    customData: { material: 'ice' }
   },
 
   // ============ MEASUREMENT TOOLS ============
@@ -559,7 +670,8 @@ export const PHYSICS_OBJECTS: PhysicsObjectDefinition[] = [
       isSensor: true,
       label: 'Energy Meter',
       render: { fillStyle: '#059669', strokeStyle: '#047857', lineWidth: 2, opacity: 0.5 }
-    }
+    },
+    customData: { sensorType: 'energy_meter' }
   },
   {
     id: 'velocity_sensor',
@@ -573,7 +685,8 @@ export const PHYSICS_OBJECTS: PhysicsObjectDefinition[] = [
       isSensor: true,
       label: 'Speed Gate',
       render: { fillStyle: '#f59e0b', strokeStyle: '#d97706', lineWidth: 2, opacity: 0.5 }
-    }
+    },
+    customData: { sensorType: 'speed_gate' }
   }
 ];
 
@@ -584,13 +697,18 @@ export const OBJECT_CATEGORIES: { id: string; label: string; icon: string; color
   { id: 'springs', label: 'Springs & Connectors', icon: 'Link', color: '#fbbf24' },
   { id: 'complex', label: 'Complex Objects', icon: 'Settings', color: '#8b5cf6' },
   { id: 'forces', label: 'Force Emitters', icon: 'Zap', color: '#ef4444' },
-  { id: 'tools', label: 'Measurement Tools', icon: 'Ruler', color: '#10b981' }
+  { id: 'fluids', label: 'Fluids', icon: 'Droplets', color: '#0ea5e9' },
+  { id: 'tools', label: 'Measurement Tools', icon: 'Ruler', color: '#10b981' },
+  { id: 'custom', label: 'My Objects', icon: 'Shapes', color: '#ec4899' }
 ];
 
+/** The built-in objects followed by the ones made in the object builder. */
+export const getAllObjects = (): PhysicsObjectDefinition[] => [...PHYSICS_OBJECTS, ...listUserObjects()];
+
 export function getObjectById(id: string): PhysicsObjectDefinition | undefined {
-  return PHYSICS_OBJECTS.find(obj => obj.id === id);
+  return PHYSICS_OBJECTS.find(obj => obj.id === id) ?? findUserObject(id);
 }
 
 export function getObjectsByCategory(category: string): PhysicsObjectDefinition[] {
-  return PHYSICS_OBJECTS.filter(obj => obj.category === category);
+  return getAllObjects().filter(obj => obj.category === category);
 }
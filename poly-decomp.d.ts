@@ -0,0 +1,17 @@
+declare module 'poly-decomp' {
+  namespace decomp {
+    type Point = [number, number];
+    type Polygon = Point[];
+
+    /** True when no two edges of the closed polygon cross. */
+    function isSimple(polygon: Polygon): boolean;
+    /** Convex pieces of a simple polygon, by Bayazit's algorithm. */
+    function quickDecomp(polygon: Polygon): Polygon[];
+    /** Reorders the points counter-clockwise in place; true if they were reversed. */
+    function makeCCW(polygon: Polygon): boolean;
+    /** Drops collinear points in place and returns how many were removed. */
+    function removeCollinearPoints(polygon: Polygon, precision?: number): number;
+    function removeDuplicatePoints(polygon: Polygon, precision?: number): void;
+  }
+  export = decomp;
+}
@@ -6,7 +6,8 @@ export enum ToolType {
   ERASER = 'ERASER',
   PIN = 'PIN',
   ROTATE = 'ROTATE',
-  RESIZE = 'RESIZE'
+  RESIZE = 'RESIZE',
+  SLINGSHOT = 'SLINGSHOT'
 }
 
 export type ObjectCategory = 
@@ -17,31 +18,74 @@ export type ObjectCategory =
   | 'complex' 
   | 'forces' 
   | 'tools' 
-  | 'fluids';
+  | 'fluids'
+  | 'custom';
 
 export type ShapeType = 'rectangle' | 'circle' | 'polygon' | 'trapezoid' | 'compound';
 
+/** Outline of a body or of one part of a compound body, in px. */
+export interface ShapeSpec {
+  type: ShapeType;
+  width?: number;
+  height?: number;
+  radius?: number;
+  sides?: number;
+  /** Trapezoid only: the top edge is (1 − slope) × width. */
+  slope?: number;
+  /** A drawn outline, convex or concave; replaces `sides` for polygons. */
+  vertices?: { x: number; y: number }[];
+  /** Compound only. */
+  parts?: CompoundPart[];
+}
+
+/** A primitive glued into a compound body, centred at (x, y) from the body's origin. */
+export interface CompoundPart extends Omit<ShapeSpec, 'parts'> {
+  type: Exclude<ShapeType, 'compound'>;
+  x: number;
+  y: number;
+}
+
 export type ConstraintType = 'pin' | 'hinge' | 'spring' | 'rope' | 'slider' | 'weld';
 
 export interface MaterialPreset {
   name: string;
   density: number;
+  /** Kinetic friction coefficient. */
   friction: number;
+  /** Static friction coefficient; without one a body keeps Matter's default sticking threshold. */
+  frictionStatic?: number;
   restitution: number;
   frictionAir: number;
   color: string;
+  /** Pulled by magnets. */
+  magnetic?: boolean;
+  conductive?: boolean;
+}
+
+/** Friction and bounce for two materials in contact, in place of Matter's per-body combination. */
+export interface MaterialPairOverride {
+  a: string;
+  b: string;
+  /** Kinetic coefficient, while sliding. */
+  friction: number;
+  /** Static coefficient; without one the bodies' own static friction applies. */
+  frictionStatic?: number;
+  restitution: number;
+}
+
+export type EmitterType = 'fan' | 'magnet' | 'gravity_well' | 'wind' | 'rocket';
+
+export type EmitterFalloff = 'none' | 'linear' | 'inverse_square';
+
+/** A liquid for fluid tanks; `drag` scales the quadratic drag on submerged bodies. */
+export interface FluidPreset extends MaterialPreset {
+  drag: number;
 }
 
-export interface PhysicsObjectDefinition {
+export interface PhysicsObjectDefinition extends ShapeSpec {
   id: string;
   label: string;
   category: ObjectCategory;
-  type: ShapeType;
-  width?: number;
-  height?: number;
-  radius?: number;
-  sides?: number;
-  vertices?: { x: number; y: number }[];
   options: {
     density?: number;
     friction?: number;
@@ -65,11 +109,27 @@ export interface PhysicsObjectDefinition {
     material?: string;
     isMagnetic?: boolean;
     isConductive?: boolean;
-    emitterType?: 'fan' | 'magnet' | 'gravity_well' | 'wind' | 'rocket';
+    emitterType?: EmitterType;
     emitterStrength?: number;
+    /** Degrees; for rockets, relative to the body's own angle. */
     emitterDirection?: number;
+    /** Pixels from the emitter's centre that it reaches. */
+    emitterRange?: number;
+    /** Gravity wells and magnets ignore bodies closer than this. */
+    emitterMinRange?: number;
+    emitterFalloff?: EmitterFalloff;
+    magnetPolarity?: 'north' | 'south';
+    /** 0 for a steady wind, up to 1 for strong gusts. */
+    windGustiness?: number;
+    /** Seconds of thrust a rocket can burn. */
+    fuelSeconds?: number;
+    sensorType?: SensorType;
     springStiffness?: number;
     springDamping?: number;
+    /** Key into FLUID_PRESETS; makes the object a fluid tank. */
+    fluidType?: string;
+    /** How full the tank is, from 0 to 1. */
+    fluidLevel?: number;
   };
 }
 
@@ -81,6 +141,13 @@ export interface SceneObject {
   initialAngle: number;
   customData: Record<string, unknown>;
   createdAt: number;
+  dimensions?: ObjectDimensions;
+}
+
+export interface ObjectDimensions {
+  width?: number;
+  height?: number;
+  radius?: number;
 }
 
 export interface SceneConstraint {
@@ -89,6 +156,10 @@ export interface SceneConstraint {
   type: ConstraintType;
   bodyAId?: string;
   bodyBId?: string;
+  stiffness: number;
+  brace?: Constraint;
+  railAngle?: number;
+  lockedAngle?: number;
 }
 
 export interface Vector2D {
@@ -96,6 +167,23 @@ export interface Vector2D {
   y: number;
 }
 
+/** Where a body's net force comes from, in newtons with y pointing up. */
+export interface ForceBreakdown {
+  gravity: Vector2D;
+  normal: Vector2D;
+  friction: Vector2D;
+  /** Air resistance plus drag from fluids. */
+  drag: Vector2D;
+  /** Springs, ropes and other constraints. */
+  tension: Vector2D;
+  emitter: Vector2D;
+  buoyancy: Vector2D;
+  /** Pushes from the Apply Force section and the slingshot. */
+  applied: Vector2D;
+  net: Vector2D;
+}
+
+/** SI units (m, m/s, m/s², N, J, kg, rad) with y pointing up; see utils/units. */
 export interface PhysicsState {
   position: Vector2D;
   velocity: Vector2D;
@@ -109,8 +197,19 @@ export interface PhysicsState {
   potentialEnergy: number;
   totalEnergy: number;
   momentum: Vector2D;
+  /** Only in 2D, once the body has been simulated for a step. */
+  forces?: ForceBreakdown;
 }
 
+export type GraphType = 'position' | 'velocity' | 'acceleration' | 'force' | 'energy' | 'compare';
+
+/** An object, or the whole system, pinned to the compare graph. */
+export interface GraphSeries {
+  id: string;
+  label: string;
+}
+
+/** Same units as PhysicsState; time is simulation seconds. */
 export interface GraphDataPoint {
   time: number;
   positionX?: number;
@@ -120,11 +219,29 @@ export interface GraphDataPoint {
   speed?: number;
   accelerationX?: number;
   accelerationY?: number;
+  netForceX?: number;
+  netForceY?: number;
+  momentumX?: number;
+  momentumY?: number;
   kineticEnergy?: number;
   potentialEnergy?: number;
   totalEnergy?: number;
 }
 
+/** Every graph point recorded for one object, kept for export. */
+export interface RecordingSession {
+  objectId: string;
+  objectLabel: string;
+  definitionId: string;
+  sceneName: string;
+  /** In g, as set when recording started. */
+  gravity: number;
+  timeScale: number;
+  /** ISO date and time recording started. */
+  startedAt: string;
+  points: GraphDataPoint[];
+}
+
 export interface MeasurementData {
   type: 'distance' | 'angle' | 'time' | 'velocity' | 'force' | 'energy';
   value: number;
@@ -132,6 +249,42 @@ export interface MeasurementData {
   label?: string;
 }
 
+export type InstrumentType = 'ruler' | 'protractor' | 'stopwatch';
+
+export interface Instrument {
+  id: string;
+  type: InstrumentType;
+  /** Ruler start, protractor vertex, or stopwatch top-left corner. */
+  position: Vector2D;
+  /** Ruler end or the protractor's first arm. */
+  end: Vector2D;
+  /** The protractor's second arm. */
+  armB: Vector2D;
+  /** When set, the ruler end follows this object. */
+  targetObjectId?: string;
+  stopwatch?: {
+    state: 'idle' | 'running' | 'stopped';
+    startedAt: number;
+    elapsed: number;
+  };
+}
+
+export type SensorType = 'speed_gate' | 'energy_meter';
+
+/** One logged sensor event. Times are simulation seconds, speeds in m/s. */
+export interface SensorReading {
+  id: string;
+  sensorId: string;
+  sensorType: SensorType;
+  sensorLabel: string;
+  bodyId: string;
+  bodyLabel: string;
+  time: number;
+  speed: number;
+  kineticEnergy: number;
+  potentialEnergy: number;
+}
+
 export interface ExperimentPreset {
   id: string;
   name: string;
@@ -155,8 +308,10 @@ export interface ExperimentPreset {
     stiffness?: number;
   }>;
   measurements?: Array<{
-    type: 'ruler' | 'protractor' | 'energy_display';
+    type: 'ruler' | 'protractor' | 'energy_display' | 'stopwatch';
     position: Vector2D;
+    end?: Vector2D;
+    armB?: Vector2D;
     targetObjectIndex?: number;
   }>;
   initialSettings?: {
@@ -165,9 +320,18 @@ export interface ExperimentPreset {
     showVelocityVectors?: boolean;
     showForceVectors?: boolean;
     showMotionTrails?: boolean;
+    showTrajectoryPrediction?: boolean;
   };
 }
 
+export type UnitSystem = 'si' | 'cgs';
+
+export interface UnitSettings {
+  /** Canvas pixels that make one metre in the 2D lab (and in 3D objects built from it). */
+  pixelsPerMeter: number;
+  system: UnitSystem;
+}
+
 export interface VisualizationSettings {
   showGrid: boolean;
   showVelocityVectors: boolean;
@@ -180,6 +344,19 @@ export interface VisualizationSettings {
   showTrajectoryPrediction: boolean;
 }
 
+/** Where the 2D timeline stands; times are simulation seconds. */
+export interface TimelineStatus {
+  frameCount: number;
+  /** Frame on screen, the newest one while simulating live. */
+  index: number;
+  startTime: number;
+  time: number;
+  endTime: number;
+  replaying: boolean;
+  /** False when objects were added or removed after the frame on screen, so it can't be resumed. */
+  canBranch: boolean;
+}
+
 export interface TimeSettings {
   isPaused: boolean;
   timeScale: number;
@@ -210,6 +387,47 @@ export interface UndoAction {
   timestamp: number;
 }
 
+export interface SceneSnapshot {
+  objects: Array<{
+    definitionId: string;
+    position: Vector2D;
+    angle: number;
+    velocity: Vector2D;
+    angularVelocity: number;
+    isStatic: boolean;
+    initialPosition: Vector2D;
+    initialAngle: number;
+    dimensions?: ObjectDimensions;
+    material: {
+      mass?: number;
+      friction: number;
+      frictionStatic: number;
+      frictionAir: number;
+      restitution: number;
+    };
+    customData: Record<string, unknown>;
+    /** Copy of a My Objects definition, so the scene still loads where that object isn't saved. */
+    definition?: PhysicsObjectDefinition;
+  }>;
+  constraints: Array<{
+    type: ConstraintType;
+    objectAIndex: number;
+    objectBIndex?: number;
+    pointA: Vector2D;
+    pointB: Vector2D;
+    length: number;
+    stiffness: number;
+    damping: number;
+    railAngle?: number;
+    lockedAngle?: number;
+  }>;
+  /** Body ids change on reload, so a ruler's target is kept as an index into `objects`. */
+  instruments?: Array<Instrument & { targetObjectIndex?: number }>;
+  gravity: number;
+  timeScale: number;
+  visualization: VisualizationSettings;
+}
+
 export interface SavedScene {
   id: string;
   name: string;
@@ -0,0 +1,147 @@
+import Matter from 'matter-js';
+import { Vector2D } from '../types';
+import { forceFromSI, formatQuantity, toMeters, velocityFromSI } from './units';
+
+export interface AppliedForces {
+  /** Delivered whole at the start of the next step. Newton-seconds, y up. */
+  addImpulse: (bodyId: number, impulse: Vector2D) => void;
+  /** Pushes on the body every step for `seconds` of simulated time from `now` (ms). Newtons, y up. */
+  addForce: (bodyId: number, force: Vector2D, seconds: number, now: number) => void;
+  /**
+   * Applies what is due this step. Call from the engine's beforeUpdate, inside the force
+   * tracker's measure, so the pushes show up in the body's force breakdown.
+   */
+  apply: (bodies: Matter.Body[], now: number) => void;
+  /** Total sustained force on a body at `now`, or null when nothing is pushing it. */
+  activeForce: (bodyId: number, now: number) => Vector2D | null;
+  clear: () => void;
+}
+
+interface SustainedForce {
+  bodyId: number;
+  force: Vector2D;
+  /** Simulation ms the force stops at. */
+  until: number;
+}
+
+/** Launch speed, in m/s, per metre the slingshot is pulled back. */
+export const SLINGSHOT_SPEED_PER_METER = 4;
+
+const SLINGSHOT_COLOR = '#fb923c';
+const FORCE_ARROW_LENGTH = 60;
+const ARROW_HEAD = 9;
+
+export function createAppliedForces(): AppliedForces {
+  let impulses: { bodyId: number; impulse: Vector2D }[] = [];
+  let forces: SustainedForce[] = [];
+
+  return {
+    addImpulse: (bodyId, impulse) => {
+      impulses.push({ bodyId, impulse });
+    },
+
+    addForce: (bodyId, force, seconds, now) => {
+      forces.push({ bodyId, force, until: now + seconds * 1000 });
+    },
+
+    apply: (bodies, now) => {
+      forces = forces.filter(f => f.until >= now);
+      if (impulses.length === 0 && forces.length === 0) return;
+      const byId = new Map(bodies.map(body => [body.id, body]));
+
+      impulses.forEach(({ bodyId, impulse }) => {
+        const body = byId.get(bodyId);
+        if (!body || body.isStatic) return;
+        // Δv = J / m, with the canvas y axis pointing down
+        Matter.Body.setVelocity(body, {
+          x: body.velocity.x + velocityFromSI(impulse.x / body.mass),
+          y: body.velocity.y - velocityFromSI(impulse.y / body.mass)
+        });
+      });
+      impulses = [];
+
+      forces.forEach(({ bodyId, force }) => {
+        const body = byId.get(bodyId);
+        if (!body || body.isStatic) return;
+        Matter.Body.applyForce(body, body.position, { x: forceFromSI(force.x), y: -forceFromSI(force.y) });
+      });
+    },
+
+    activeForce: (bodyId, now) => {
+      const acting = forces.filter(f => f.bodyId === bodyId && f.until >= now);
+      if (acting.length === 0) return null;
+      return acting.reduce((sum, f) => ({ x: sum.x + f.force.x, y: sum.y + f.force.y }), { x: 0, y: 0 });
+    },
+
+    clear: () => {
+      impulses = [];
+      forces = [];
+    }
+  };
+}
+
+/**
+ * The impulse (N·s, y up) a slingshot pulled from the body's centre back to `pointer`
+ * launches it with: opposite the pull, at SLINGSHOT_SPEED_PER_METER per metre of pull.
+ */
+export function slingshotImpulse(body: Matter.Body, pointer: Vector2D): Vector2D {
+  // Metres from the pointer back to the body, y up
+  const pull = { x: toMeters(body.position.x - pointer.x), y: toMeters(pointer.y - body.position.y) };
+  const scale = SLINGSHOT_SPEED_PER_METER * body.mass;
+  return { x: pull.x * scale, y: pull.y * scale };
+}
+
+function drawArrow(ctx: CanvasRenderingContext2D, from: Vector2D, to: Vector2D, label: string) {
+  const angle = Math.atan2(to.y - from.y, to.x - from.x);
+  ctx.strokeStyle = SLINGSHOT_COLOR;
+  ctx.fillStyle = SLINGSHOT_COLOR;
+  ctx.lineWidth = 3;
+  ctx.lineCap = 'round';
+  ctx.beginPath();
+  ctx.moveTo(from.x, from.y);
+  ctx.lineTo(to.x, to.y);
+  ctx.stroke();
+
+  ctx.beginPath();
+  ctx.moveTo(to.x, to.y);
+  ctx.lineTo(to.x - ARROW_HEAD * Math.cos(angle - Math.PI / 6), to.y - ARROW_HEAD * Math.sin(angle - Math.PI / 6));
+  ctx.lineTo(to.x - ARROW_HEAD * Math.cos(angle + Math.PI / 6), to.y - ARROW_HEAD * Math.sin(angle + Math.PI / 6));
+  ctx.closePath();
+  ctx.fill();
+
+  ctx.font = '600 10px JetBrains Mono, monospace';
+  ctx.textAlign = Math.cos(angle) < -0.3 ? 'right' : Math.cos(angle) > 0.3 ? 'left' : 'center';
+  ctx.textBaseline = Math.sin(angle) > 0.3 ? 'top' : Math.sin(angle) < -0.3 ? 'bottom' : 'middle';
+  ctx.fillText(label, to.x + Math.cos(angle) * 6, to.y + Math.sin(angle) * 6);
+  ctx.textAlign = 'left';
+  ctx.textBaseline = 'alphabetic';
+}
+
+/** The pulled-back band from the body to the pointer, and the launch impulse as an arrow. */
+export function drawSlingshot(ctx: CanvasRenderingContext2D, body: Matter.Body, pointer: Vector2D) {
+  const { x, y } = body.position;
+  ctx.strokeStyle = SLINGSHOT_COLOR;
+  ctx.globalAlpha = 0.6;
+  ctx.lineWidth = 1.5;
+  ctx.setLineDash([4, 4]);
+  ctx.beginPath();
+  ctx.moveTo(x, y);
+  ctx.lineTo(pointer.x, pointer.y);
+  ctx.stroke();
+  ctx.setLineDash([]);
+  ctx.globalAlpha = 1;
+
+  const impulse = slingshotImpulse(body, pointer);
+  const size = Math.hypot(impulse.x, impulse.y);
+  if (size === 0) return;
+  drawArrow(ctx, { x, y }, { x: 2 * x - pointer.x, y: 2 * y - pointer.y }, `J ${formatQuantity('momentum', size)}`);
+}
+
+/** A sustained push on a body as a fixed-length arrow from its centre, labelled in newtons. */
+export function drawAppliedForce(ctx: CanvasRenderingContext2D, body: Matter.Body, force: Vector2D) {
+  const size = Math.hypot(force.x, force.y);
+  if (size === 0) return;
+  const { x, y } = body.position;
+  const to = { x: x + force.x / size * FORCE_ARROW_LENGTH, y: y - force.y / size * FORCE_ARROW_LENGTH };
+  drawArrow(ctx, { x, y }, to, `P ${formatQuantity('force', size)}`);
+}
@@ -0,0 +1,122 @@
+import Matter from 'matter-js';
+import { Vector2D } from '../types';
+import { forceToSI, formatQuantity } from './units';
+
+export interface ImpactRing {
+  /** Canvas pixels. */
+  point: Vector2D;
+  /** Newton-seconds delivered in the step the bodies first touched. */
+  impulse: number;
+  /** Simulation time (ms) of the impact. */
+  time: number;
+}
+
+export interface CollisionTracker {
+  /** Every point where two bodies touch after the last step. */
+  contacts: Vector2D[];
+  rings: ImpactRing[];
+  /** Reads the engine's collision pairs. Call from afterUpdate, once the solver has run. */
+  update: (engine: Matter.Engine) => void;
+  clear: () => void;
+}
+
+// Simulation ms a ring takes to fade out
+const RING_LIFETIME = 700;
+const MAX_RINGS = 40;
+// Resting bodies re-touch every few steps; impacts smaller than this (N·s) are not rings
+const MIN_RING_IMPULSE = 1e-3;
+const RING_BASE_RADIUS = 10;
+// Ring radius grows with the log of the impulse so a cannonball doesn't fill the screen
+const RING_RADIUS_PER_DOUBLING = 6;
+const RING_REFERENCE_IMPULSE = 0.01;
+const CONTACT_COLOR = '#f472b6';
+
+const pairContactCount = (pair: Matter.Pair) =>
+  (pair as Matter.Pair & { contactCount?: number }).contactCount ?? pair.contacts.length;
+
+export function createCollisionTracker(): CollisionTracker {
+  const tracker: CollisionTracker = {
+    contacts: [],
+    rings: [],
+
+    update: (engine) => {
+      const now = engine.timing.timestamp;
+      const dt = engine.timing.lastDelta;
+      const pairs = engine.pairs as Matter.Pairs & { collisionStart: Matter.Pair[]; collisionActive: Matter.Pair[] };
+
+      tracker.contacts = [];
+      [...pairs.collisionStart, ...pairs.collisionActive].forEach(pair => {
+        if (!pair.isActive || pair.isSensor) return;
+        for (let i = 0; i < pairContactCount(pair); i++) {
+          const { vertex } = pair.contacts[i];
+          tracker.contacts.push({ x: vertex.x, y: vertex.y });
+        }
+      });
+
+      // A new pair's contacts hold only the impulse the solver spent on this step's impact;
+      // the solver impulse (mass · px) over a step of dt is a force of I / dt² for dt
+      if (dt > 0) {
+        pairs.collisionStart.forEach(pair => {
+          if (!pair.isActive || pair.isSensor) return;
+          let total = 0;
+          let x = 0;
+          let y = 0;
+          const count = pairContactCount(pair);
+          for (let i = 0; i < count; i++) {
+            const contact = pair.contacts[i];
+            total += contact.normalImpulse;
+            x += contact.vertex.x;
+            y += contact.vertex.y;
+          }
+          const impulse = Math.abs(forceToSI(total / (dt * dt))) * dt / 1000;
+          if (count === 0 || impulse < MIN_RING_IMPULSE) return;
+          tracker.rings.push({ point: { x: x / count, y: y / count }, impulse, time: now });
+        });
+      }
+
+      tracker.rings = tracker.rings
+        .filter(ring => now - ring.time < RING_LIFETIME && now >= ring.time)
+        .slice(-MAX_RINGS);
+    },
+
+    clear: () => {
+      tracker.contacts = [];
+      tracker.rings = [];
+    }
+  };
+  return tracker;
+}
+
+/** Contact markers, plus a fading ring at each recent impact sized by its impulse. */
+export function drawCollisionPoints(ctx: CanvasRenderingContext2D, tracker: CollisionTracker, now: number) {
+  tracker.rings.forEach(ring => {
+    const progress = Math.min(1, (now - ring.time) / RING_LIFETIME);
+    const size = RING_BASE_RADIUS + RING_RADIUS_PER_DOUBLING * Math.log2(1 + ring.impulse / RING_REFERENCE_IMPULSE);
+    const radius = size * (0.6 + 0.8 * progress);
+    const alpha = 1 - progress;
+
+    ctx.globalAlpha = alpha;
+    ctx.strokeStyle = CONTACT_COLOR;
+    ctx.lineWidth = 2.5 * (1 - progress) + 0.5;
+    ctx.beginPath();
+    ctx.arc(ring.point.x, ring.point.y, radius, 0, Math.PI * 2);
+    ctx.stroke();
+
+    ctx.fillStyle = '#fbcfe8';
+    ctx.font = '600 10px JetBrains Mono, monospace';
+    ctx.textAlign = 'center';
+    ctx.fillText(`J ${formatQuantity('momentum', ring.impulse, 3)}`, ring.point.x, ring.point.y - radius - 4);
+    ctx.textAlign = 'left';
+  });
+  ctx.globalAlpha = 1;
+
+  ctx.fillStyle = CONTACT_COLOR;
+  ctx.strokeStyle = '#070b14';
+  ctx.lineWidth = 1;
+  tracker.contacts.forEach(point => {
+    ctx.beginPath();
+    ctx.arc(point.x, point.y, 3.5, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.stroke();
+  });
+}
@@ -0,0 +1,194 @@
+import Matter from 'matter-js';
+import { ConstraintType, SceneConstraint, Vector2D } from '../types';
+
+export const CONSTRAINT_TYPES: { type: ConstraintType; label: string; description: string }[] = [
+  { type: 'pin', label: 'Pin', description: 'Rigid rod between the two points' },
+  { type: 'hinge', label: 'Hinge', description: 'Free rotation about the second point' },
+  { type: 'spring', label: 'Spring', description: 'Elastic link with damping' },
+  { type: 'rope', label: 'Rope', description: 'Pulls when taut, slack when shorter' },
+  { type: 'slider', label: 'Slider', description: 'First body slides along a rail through the second point' },
+  { type: 'weld', label: 'Weld', description: 'Locks position and rotation together' }
+];
+
+const CONSTRAINT_RENDER: Record<ConstraintType, Matter.IConstraintRenderDefinition> = {
+  pin: { type: 'line', strokeStyle: '#e2e8f0', lineWidth: 3, anchors: true },
+  hinge: { type: 'pin', strokeStyle: '#f472b6', lineWidth: 3, anchors: true },
+  spring: { type: 'spring', strokeStyle: '#fbbf24', lineWidth: 2, anchors: true },
+  rope: { type: 'line', strokeStyle: '#d97706', lineWidth: 2, anchors: true },
+  slider: { type: 'line', strokeStyle: '#22d3ee', lineWidth: 1, anchors: true },
+  weld: { type: 'pin', strokeStyle: '#f97316', lineWidth: 4, anchors: true }
+};
+
+const DEFAULT_STIFFNESS: Record<ConstraintType, number> = {
+  pin: 1,
+  hinge: 1,
+  spring: 0.02,
+  rope: 0.9,
+  slider: 1,
+  weld: 1
+};
+
+const WELD_BRACE_OFFSET = 20;
+
+export interface ConstraintEndpoint {
+  body: Matter.Body | null;
+  point: Vector2D;
+}
+
+const toLocal = (endpoint: ConstraintEndpoint): Vector2D =>
+  endpoint.body ? Matter.Vector.sub(endpoint.point, endpoint.body.position) : { ...endpoint.point };
+
+/**
+ * Builds a Matter constraint of the given type between two clicked points.
+ * `a` must be a body; `b` may be a world anchor (body === null).
+ * Hinge and weld joints are placed at `b.point`, which both bodies then share.
+ */
+export function createSceneConstraint(
+  type: ConstraintType,
+  a: ConstraintEndpoint & { body: Matter.Body },
+  b: ConstraintEndpoint,
+  stiffness: number = DEFAULT_STIFFNESS[type]
+): SceneConstraint {
+  const joint = type === 'hinge' || type === 'weld';
+  const anchorA = joint ? { body: a.body, point: b.point } : a;
+
+  const constraint = Matter.Constraint.create({
+    bodyA: a.body,
+    pointA: toLocal(anchorA),
+    bodyB: b.body ?? undefined,
+    pointB: toLocal(b),
+    length: joint ? 0 : Matter.Vector.magnitude(Matter.Vector.sub(a.point, b.point)),
+    stiffness,
+    damping: type === 'spring' ? 0.05 : 0,
+    render: { ...CONSTRAINT_RENDER[type] }
+  });
+  // Create treats a stiffness of 0 as unset; a slider's distance link only draws the rail
+  if (type === 'slider') constraint.stiffness = 0;
+
+  const sceneConstraint: SceneConstraint = {
+    id: constraint.id.toString(),
+    constraint,
+    type,
+    bodyAId: a.body.id.toString(),
+    bodyBId: b.body?.id.toString(),
+    stiffness
+  };
+
+  if (type === 'weld') {
+    const direction = Matter.Vector.sub(a.body.position, b.point);
+    const offset = Matter.Vector.magnitude(direction) > 1
+      ? Matter.Vector.mult(Matter.Vector.normalise(direction), WELD_BRACE_OFFSET)
+      : { x: WELD_BRACE_OFFSET, y: 0 };
+    const bracePoint = Matter.Vector.add(b.point, offset);
+    sceneConstraint.brace = Matter.Constraint.create({
+      bodyA: a.body,
+      pointA: toLocal({ body: a.body, point: bracePoint }),
+      bodyB: b.body ?? undefined,
+      pointB: toLocal({ body: b.body, point: bracePoint }),
+      length: 0,
+      stiffness,
+      render: { visible: false }
+    });
+  }
+
+  if (type === 'slider') {
+    const rail = Matter.Vector.sub(a.point, b.point);
+    const railAngle = Matter.Vector.magnitude(rail) > 1 ? Math.atan2(rail.y, rail.x) : 0;
+    sceneConstraint.railAngle = railAngle - (b.body?.angle ?? 0);
+    sceneConstraint.lockedAngle = a.body.angle - (b.body?.angle ?? 0);
+  }
+
+  return sceneConstraint;
+}
+
+export function addSceneConstraint(world: Matter.World, sceneConstraint: SceneConstraint) {
+  Matter.Composite.add(world, sceneConstraint.constraint);
+  if (sceneConstraint.brace) Matter.Composite.add(world, sceneConstraint.brace);
+}
+
+export function removeSceneConstraint(world: Matter.World, sceneConstraint: SceneConstraint) {
+  Matter.Composite.remove(world, sceneConstraint.constraint);
+  if (sceneConstraint.brace) Matter.Composite.remove(world, sceneConstraint.brace);
+}
+
+/**
+ * Updates the tunable values of a scene constraint, keeping its weld brace in sync.
+ */
+export function setConstraintProperty(sceneConstraint: SceneConstraint, property: string, value: number) {
+  const { constraint, brace, type } = sceneConstraint;
+  if (property === 'stiffness') {
+    sceneConstraint.stiffness = value;
+    if (type !== 'slider') constraint.stiffness = value;
+    if (brace) brace.stiffness = value;
+  } else if (property === 'damping') {
+    constraint.damping = value;
+    if (brace) brace.damping = value;
+  } else if (property === 'length' && type !== 'hinge' && type !== 'weld') {
+    constraint.length = value;
+  }
+}
+
+export function getConstraintProperty(sceneConstraint: SceneConstraint, property: string): number {
+  if (property === 'stiffness') return sceneConstraint.stiffness;
+  if (property === 'damping') return sceneConstraint.constraint.damping;
+  return sceneConstraint.constraint.length;
+}
+
+export const constraintHasLength = (type: ConstraintType) => type !== 'hinge' && type !== 'weld';
+
+/**
+ * Per-step behaviours Matter has no native joint for: slack ropes and slider rails.
+ * Must run after `Engine.update` so the corrections are what gets rendered.
+ */
+export function applyConstraintBehaviors(sceneConstraints: Iterable<SceneConstraint>) {
+  for (const sc of sceneConstraints) {
+    if (sc.type === 'rope') {
+      const { constraint } = sc;
+      const a = Matter.Constraint.pointAWorld(constraint);
+      const b = Matter.Constraint.pointBWorld(constraint);
+      const taut = Matter.Vector.magnitude(Matter.Vector.sub(a, b)) >= constraint.length;
+      constraint.stiffness = taut ? sc.stiffness : 0;
+    } else if (sc.type === 'slider') {
+      solveSlider(sc);
+    }
+  }
+}
+
+function solveSlider(sc: SceneConstraint) {
+  const { constraint } = sc;
+  const slider = constraint.bodyA;
+  if (!slider || slider.isStatic) return;
+
+  const railBody = constraint.bodyB;
+  const baseAngle = railBody ? railBody.angle : 0;
+  const angle = (sc.railAngle ?? 0) + baseAngle;
+  const normal = { x: -Math.sin(angle), y: Math.cos(angle) };
+
+  const anchor = Matter.Constraint.pointBWorld(constraint);
+  const attach = Matter.Constraint.pointAWorld(constraint);
+  const offset = Matter.Vector.dot(Matter.Vector.sub(attach, anchor), normal);
+  Matter.Body.translate(slider, Matter.Vector.mult(normal, -offset * sc.stiffness));
+
+  const railVelocity = railBody ? railBody.velocity : { x: 0, y: 0 };
+  const relative = Matter.Vector.sub(slider.velocity, railVelocity);
+  const drift = Matter.Vector.dot(relative, normal);
+  Matter.Body.setVelocity(slider, Matter.Vector.sub(slider.velocity, Matter.Vector.mult(normal, drift)));
+
+  Matter.Body.setAngle(slider, (sc.lockedAngle ?? 0) + baseAngle);
+  Matter.Body.setAngularVelocity(slider, railBody ? railBody.angularVelocity : 0);
+}
+
+/**
+ * Distance in pixels from a point to the drawn segment of a constraint, for hit testing.
+ */
+export function distanceToConstraint(constraint: Matter.Constraint, point: Vector2D): number {
+  const a = Matter.Constraint.pointAWorld(constraint);
+  const b = Matter.Constraint.pointBWorld(constraint);
+  const ab = Matter.Vector.sub(b, a);
+  const lengthSq = Matter.Vector.magnitudeSquared(ab);
+  const t = lengthSq > 0
+    ? Math.max(0, Math.min(1, Matter.Vector.dot(Matter.Vector.sub(point, a), ab) / lengthSq))
+    : 0;
+  const closest = Matter.Vector.add(a, Matter.Vector.mult(ab, t));
+  return Matter.Vector.magnitude(Matter.Vector.sub(point, closest));
+}
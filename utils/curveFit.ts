@@ -0,0 +1,374 @@
+import { GraphField, graphFieldUnit } from './graphSeries';
+
+export type FitModel = 'linear' | 'quadratic' | 'exponential' | 'damped';
+
+/** Models in the order the fit controls offer them. x₀ is the start of the fitted range. */
+export const FIT_MODELS: { id: FitModel; label: string; formula: string }[] = [
+  { id: 'linear', label: 'Linear', formula: 'y = m·x + b' },
+  { id: 'quadratic', label: 'Quadratic', formula: 'y = a·x² + b·x + c' },
+  { id: 'exponential', label: 'Exp. decay', formula: 'y = A·e^(−λ(x−x₀)) + C' },
+  { id: 'damped', label: 'Damped sine', formula: 'y = A·e^(−γ(x−x₀))·cos(ω(x−x₀) + φ) + C' }
+];
+
+export interface FitQuantity {
+  name: string;
+  value: number;
+  unit: string;
+}
+
+export interface FitResult {
+  model: FitModel;
+  params: FitQuantity[];
+  /** Coefficient of determination over the fitted points. */
+  r2: number;
+  /** Physical quantities read off the fit, where the axes give them a meaning. */
+  derived: FitQuantity[];
+  predict: (x: number) => number;
+}
+
+// Fewest points each model can be fitted to
+const MIN_POINTS: Record<FitModel, number> = { linear: 2, quadratic: 3, exponential: 4, damped: 6 };
+
+// Decay rates tried, as multiples of 1 / (range width)
+const MIN_DECAY = 1e-3;
+const MAX_DECAY = 200;
+
+const LENGTH_FIELDS: GraphField[] = ['positionX', 'positionY'];
+const VELOCITY_FIELDS: GraphField[] = ['velocityX', 'velocityY', 'speed'];
+
+/** Solves `a·x = b` by Gaussian elimination with partial pivoting; null when singular. */
+function solve(a: number[][], b: number[]): number[] | null {
+  const n = b.length;
+  const m = a.map((row, i) => [...row, b[i]]);
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(m[row][col]) > Math.abs(m[pivot][col])) pivot = row;
+    }
+    if (Math.abs(m[pivot][col]) < 1e-12) return null;
+    [m[col], m[pivot]] = [m[pivot], m[col]];
+    for (let row = col + 1; row < n; row++) {
+      const factor = m[row][col] / m[col][col];
+      for (let k = col; k <= n; k++) m[row][k] -= factor * m[col][k];
+    }
+  }
+  const x = new Array(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = m[row][n];
+    for (let k = row + 1; k < n; k++) sum -= m[row][k] * x[k];
+    x[row] = sum / m[row][row];
+  }
+  return x;
+}
+
+/**
+ * Least-squares coefficients of `y ≈ Σ cᵢ·basis(x)ᵢ`, with the sum of squared residuals.
+ * Every model below is linear in all but at most two of its parameters, so this does most
+ * of the work.
+ */
+function linearFit(xs: number[], ys: number[], basis: (x: number) => number[]) {
+  const rows = xs.map(basis);
+  const n = rows[0].length;
+  const ata = Array.from({ length: n }, () => new Array(n).fill(0));
+  const aty = new Array(n).fill(0);
+  rows.forEach((row, i) => {
+    for (let j = 0; j < n; j++) {
+      aty[j] += row[j] * ys[i];
+      for (let k = 0; k < n; k++) ata[j][k] += row[j] * row[k];
+    }
+  });
+  const coefficients = solve(ata, aty);
+  if (!coefficients) return null;
+  const sse = rows.reduce((sum, row, i) => {
+    const residual = ys[i] - row.reduce((s, value, j) => s + value * coefficients[j], 0);
+    return sum + residual * residual;
+  }, 0);
+  return { coefficients, sse };
+}
+
+/** Minimum of `f` on [low, high] by golden-section search. */
+function goldenSection(f: (x: number) => number, low: number, high: number, iterations = 60) {
+  const ratio = (Math.sqrt(5) - 1) / 2;
+  let a = low;
+  let b = high;
+  let c = b - ratio * (b - a);
+  let d = a + ratio * (b - a);
+  let fc = f(c);
+  let fd = f(d);
+  for (let i = 0; i < iterations; i++) {
+    if (fc < fd) {
+      b = d; d = c; fd = fc;
+      c = b - ratio * (b - a); fc = f(c);
+    } else {
+      a = c; c = d; fc = fd;
+      d = a + ratio * (b - a); fd = f(d);
+    }
+  }
+  return (a + b) / 2;
+}
+
+/** Minimum of `f` near `start` by Nelder–Mead; `scale` sets the first simplex's size. */
+function nelderMead(f: (p: number[]) => number, start: number[], scale: number[], iterations = 400) {
+  let simplex = [start, ...start.map((_, i) => start.map((v, j) => (i === j ? v + scale[j] : v)))]
+    .map(point => ({ point, value: f(point) }));
+  const combine = (a: number[], b: number[], t: number) => a.map((v, i) => v + t * (b[i] - v));
+
+  for (let i = 0; i < iterations; i++) {
+    simplex.sort((p, q) => p.value - q.value);
+    const best = simplex[0];
+    const worst = simplex[simplex.length - 1];
+    if (Math.abs(worst.value - best.value) <= 1e-12 * (Math.abs(best.value) + 1e-12)) break;
+
+    const others = simplex.slice(0, -1);
+    const centroid = start.map((_, j) => others.reduce((sum, p) => sum + p.point[j], 0) / others.length);
+    const reflected = combine(centroid, worst.point, -1);
+    const reflectedValue = f(reflected);
+
+    if (reflectedValue < best.value) {
+      const expanded = combine(centroid, worst.point, -2);
+      const expandedValue = f(expanded);
+      simplex[simplex.length - 1] = expandedValue < reflectedValue
+        ? { point: expanded, value: expandedValue }
+        : { point: reflected, value: reflectedValue };
+    } else if (reflectedValue < simplex[simplex.length - 2].value) {
+      simplex[simplex.length - 1] = { point: reflected, value: reflectedValue };
+    } else {
+      const contracted = combine(centroid, worst.point, 0.5);
+      const contractedValue = f(contracted);
+      if (contractedValue < worst.value) {
+        simplex[simplex.length - 1] = { point: contracted, value: contractedValue };
+      } else {
+        simplex = simplex.map((p, k) => {
+          if (k === 0) return p;
+          const point = combine(best.point, p.point, 0.5);
+          return { point, value: f(point) };
+        });
+      }
+    }
+  }
+  simplex.sort((p, q) => p.value - q.value);
+  return simplex[0].point;
+}
+
+/** Angular frequency from how often `ys` crosses its mean, or null with fewer than two crossings. */
+function crossingFrequency(xs: number[], ys: number[]): number | null {
+  const mean = ys.reduce((sum, y) => sum + y, 0) / ys.length;
+  const crossings: number[] = [];
+  for (let i = 1; i < ys.length; i++) {
+    const a = ys[i - 1] - mean;
+    const b = ys[i] - mean;
+    if ((a < 0 && b >= 0) || (a >= 0 && b < 0)) {
+      crossings.push(xs[i - 1] + (xs[i] - xs[i - 1]) * (a / (a - b)));
+    }
+  }
+  if (crossings.length < 2) return null;
+  const span = crossings[crossings.length - 1] - crossings[0];
+  return span > 0 ? Math.PI * (crossings.length - 1) / span : null;
+}
+
+interface RawFit {
+  params: number[];
+  predict: (x: number) => number;
+}
+
+function fitPolynomial(xs: number[], ys: number[], degree: number): RawFit | null {
+  const fit = linearFit(xs, ys, x => Array.from({ length: degree + 1 }, (_, k) => x ** (degree - k)));
+  if (!fit) return null;
+  const c = fit.coefficients;
+  return { params: c, predict: x => c.reduce((sum, value) => sum * x + value, 0) };
+}
+
+function fitExponential(xs: number[], ys: number[]): RawFit | null {
+  const x0 = xs[0];
+  const width = xs[xs.length - 1] - x0;
+  if (width <= 0) return null;
+  const basis = (rate: number) => (x: number) => [Math.exp(-rate * (x - x0)), 1];
+  const sseAt = (logRate: number) => linearFit(xs, ys, basis(Math.exp(logRate)))?.sse ?? Infinity;
+
+  // A coarse scan first, since the error can have several dips over so wide a range
+  const low = Math.log(MIN_DECAY / width);
+  const high = Math.log(MAX_DECAY / width);
+  const steps = 40;
+  let bestStep = 0;
+  let bestSse = Infinity;
+  for (let i = 0; i <= steps; i++) {
+    const sse = sseAt(low + (high - low) * i / steps);
+    if (sse < bestSse) { bestSse = sse; bestStep = i; }
+  }
+  const stepSize = (high - low) / steps;
+  const rate = Math.exp(goldenSection(sseAt, low + (bestStep - 1) * stepSize, low + (bestStep + 1) * stepSize));
+
+  const fit = linearFit(xs, ys, basis(rate));
+  if (!fit) return null;
+  const [amplitude, offset] = fit.coefficients;
+  return {
+    params: [amplitude, rate, offset],
+    predict: x => amplitude * Math.exp(-rate * (x - x0)) + offset
+  };
+}
+
+function fitDamped(xs: number[], ys: number[]): RawFit | null {
+  const x0 = xs[0];
+  const width = xs[xs.length - 1] - x0;
+  if (width <= 0) return null;
+  // For a fixed decay rate and frequency the rest is linear: a·cos + b·sin + C
+  const basis = (decay: number, omega: number) => (x: number) => {
+    const u = x - x0;
+    const envelope = Math.exp(-decay * u);
+    return [envelope * Math.cos(omega * u), envelope * Math.sin(omega * u), 1];
+  };
+  const sseAt = ([decay, omega]: number[]) => linearFit(xs, ys, basis(decay, omega))?.sse ?? Infinity;
+
+  const guess = crossingFrequency(xs, ys) ?? 2 * Math.PI / width;
+  let best: number[] | null = null;
+  let bestSse = Infinity;
+  // A few starting frequencies, so a poor crossing estimate doesn't settle on a harmonic
+  for (const factor of [0.8, 1, 1.25]) {
+    const found = nelderMead(sseAt, [0, guess * factor], [0.5 / width, 0.1 * guess]);
+    const sse = sseAt(found);
+    if (sse < bestSse) { bestSse = sse; best = found; }
+  }
+  if (!best) return null;
+
+  const [decay, rawOmega] = best;
+  const fit = linearFit(xs, ys, basis(decay, rawOmega));
+  if (!fit) return null;
+  const [a, b, offset] = fit.coefficients;
+  // a·cos(ωu) + b·sin(ωu) = A·cos(ωu + φ); a negative ω is the same curve mirrored
+  const omega = Math.abs(rawOmega);
+  const amplitude = Math.hypot(a, b);
+  const phase = Math.atan2(rawOmega < 0 ? b : -b, a);
+  return {
+    params: [amplitude, decay, omega, phase, offset],
+    predict: x => {
+      const u = x - x0;
+      return amplitude * Math.exp(-decay * u) * Math.cos(omega * u + phase) + offset;
+    }
+  };
+}
+
+function rSquared(xs: number[], ys: number[], predict: (x: number) => number) {
+  const mean = ys.reduce((sum, y) => sum + y, 0) / ys.length;
+  let residual = 0;
+  let total = 0;
+  xs.forEach((x, i) => {
+    residual += (ys[i] - predict(x)) ** 2;
+    total += (ys[i] - mean) ** 2;
+  });
+  return total > 0 ? 1 - residual / total : residual === 0 ? 1 : 0;
+}
+
+/**
+ * Coefficient of restitution from successive bounce heights: e = √(hₙ₊₁ / hₙ), with heights
+ * measured above the lowest point in the range (where the body touches the floor), averaged
+ * over every pair of bounces. Null with fewer than two bounces.
+ */
+export function restitutionFromBounces(ys: number[]): { coefficient: number; bounces: number } | null {
+  if (ys.length < 3) return null;
+  const floor = Math.min(...ys);
+  const top = Math.max(...ys);
+  const threshold = 0.02 * (top - floor);
+  if (threshold <= 0) return null;
+
+  // Only count a peak once the body has come back down to the floor since the last one
+  const peaks: number[] = [];
+  let touchedFloor = true;
+  for (let i = 1; i < ys.length - 1; i++) {
+    const height = ys[i] - floor;
+    if (height < threshold) touchedFloor = true;
+    if (touchedFloor && height > threshold && ys[i] >= ys[i - 1] && ys[i] > ys[i + 1]) {
+      peaks.push(height);
+      touchedFloor = false;
+    }
+  }
+  if (peaks.length < 2) return null;
+
+  const ratios = peaks.slice(1).map((height, i) => Math.sqrt(height / peaks[i]));
+  return {
+    coefficient: ratios.reduce((sum, e) => sum + e, 0) / ratios.length,
+    bounces: peaks.length
+  };
+}
+
+function derivedQuantities(model: FitModel, params: number[], x: GraphField, y: GraphField): FitQuantity[] {
+  const yUnit = graphFieldUnit(y);
+  const xUnit = graphFieldUnit(x);
+  if (x !== 'time') return [];
+
+  switch (model) {
+    case 'linear':
+      if (LENGTH_FIELDS.includes(y)) return [{ name: 'Velocity', value: params[0], unit: `${yUnit}/s` }];
+      if (VELOCITY_FIELDS.includes(y)) return [{ name: 'Acceleration', value: params[0], unit: `${yUnit}/s` }];
+      return [{ name: 'Rate', value: params[0], unit: `${yUnit}/s` }];
+    case 'quadratic':
+      if (!LENGTH_FIELDS.includes(y)) return [];
+      // x(t) = x₀ + v₀t + ½at²
+      return [
+        { name: 'Acceleration', value: 2 * params[0], unit: `${yUnit}/s²` },
+        { name: 'Velocity at t = 0', value: params[1], unit: `${yUnit}/s` }
+      ];
+    case 'exponential':
+      return [
+        { name: 'Time constant τ', value: 1 / params[1], unit: xUnit },
+        { name: 'Half-life', value: Math.LN2 / params[1], unit: xUnit }
+      ];
+    case 'damped': {
+      const [, decay, omega] = params;
+      const natural = Math.hypot(decay, omega);
+      return [
+        { name: 'Period', value: 2 * Math.PI / omega, unit: xUnit },
+        { name: 'Frequency', value: omega / (2 * Math.PI), unit: 'Hz' },
+        { name: 'Damping ratio ζ', value: natural > 0 ? decay / natural : 0, unit: '' }
+      ];
+    }
+  }
+}
+
+function parameterNames(model: FitModel, x: GraphField, y: GraphField): { name: string; unit: string }[] {
+  const xUnit = graphFieldUnit(x);
+  const yUnit = graphFieldUnit(y);
+  switch (model) {
+    case 'linear':
+      return [{ name: 'm', unit: `${yUnit}/${xUnit}` }, { name: 'b', unit: yUnit }];
+    case 'quadratic':
+      return [{ name: 'a', unit: `${yUnit}/${xUnit}²` }, { name: 'b', unit: `${yUnit}/${xUnit}` }, { name: 'c', unit: yUnit }];
+    case 'exponential':
+      return [{ name: 'A', unit: yUnit }, { name: 'λ', unit: `1/${xUnit}` }, { name: 'C', unit: yUnit }];
+    case 'damped':
+      return [
+        { name: 'A', unit: yUnit },
+        { name: 'γ', unit: `1/${xUnit}` },
+        { name: 'ω', unit: `rad/${xUnit}` },
+        { name: 'φ', unit: 'rad' },
+        { name: 'C', unit: yUnit }
+      ];
+  }
+}
+
+/**
+ * Least-squares fit of `model` to the points (xs sorted ascending), in whatever units they
+ * are given in. `x` and `y` name the graphed fields, for parameter units and for which
+ * physical quantities the fit can be read as. Null when there are too few points or the
+ * fit is degenerate (e.g. every x the same).
+ */
+export function fitCurve(model: FitModel, xs: number[], ys: number[], x: GraphField, y: GraphField): FitResult | null {
+  if (xs.length < MIN_POINTS[model]) return null;
+
+  const raw = model === 'linear' ? fitPolynomial(xs, ys, 1)
+    : model === 'quadratic' ? fitPolynomial(xs, ys, 2)
+    : model === 'exponential' ? fitExponential(xs, ys)
+    : fitDamped(xs, ys);
+  if (!raw || raw.params.some(p => !Number.isFinite(p))) return null;
+
+  const derived = derivedQuantities(model, raw.params, x, y);
+  const bounces = x === 'time' && y === 'positionY' ? restitutionFromBounces(ys) : null;
+  if (bounces) derived.push({ name: `Restitution e (${bounces.bounces} bounces)`, value: bounces.coefficient, unit: '' });
+
+  return {
+    model,
+    params: parameterNames(model, x, y).map((p, i) => ({ ...p, value: raw.params[i] })),
+    r2: rSquared(xs, ys, raw.predict),
+    derived,
+    predict: raw.predict
+  };
+}
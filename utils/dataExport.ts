@@ -0,0 +1,98 @@
+import { GraphDataPoint, RecordingSession } from '../types';
+import { fromSI, getUnitSettings, Quantity, unitLabel } from './units';
+import { slugify } from './download';
+
+export type GraphColumn = Exclude<keyof GraphDataPoint, 'time'>;
+
+export type ExportFormat = 'csv' | 'json';
+
+/** Every recorded quantity, in the order graphs and exports list them. Points store SI. */
+export const GRAPH_COLUMNS: { key: GraphColumn; label: string; quantity: Quantity }[] = [
+  { key: 'positionX', label: 'Position X', quantity: 'length' },
+  { key: 'positionY', label: 'Position Y', quantity: 'length' },
+  { key: 'velocityX', label: 'Velocity X', quantity: 'velocity' },
+  { key: 'velocityY', label: 'Velocity Y', quantity: 'velocity' },
+  { key: 'speed', label: 'Speed', quantity: 'velocity' },
+  { key: 'accelerationX', label: 'Acceleration X', quantity: 'acceleration' },
+  { key: 'accelerationY', label: 'Acceleration Y', quantity: 'acceleration' },
+  { key: 'netForceX', label: 'Net force X', quantity: 'force' },
+  { key: 'netForceY', label: 'Net force Y', quantity: 'force' },
+  { key: 'momentumX', label: 'Momentum X', quantity: 'momentum' },
+  { key: 'momentumY', label: 'Momentum Y', quantity: 'momentum' },
+  { key: 'kineticEnergy', label: 'Kinetic energy', quantity: 'energy' },
+  { key: 'potentialEnergy', label: 'Potential energy', quantity: 'energy' },
+  { key: 'totalEnergy', label: 'Total energy', quantity: 'energy' }
+];
+
+export const DEFAULT_EXPORT_COLUMNS: GraphColumn[] = GRAPH_COLUMNS.map(c => c.key);
+
+const columnsOf = (keys: GraphColumn[]) => GRAPH_COLUMNS.filter(c => keys.includes(c.key));
+
+/** A copy of `point` in the current unit system. */
+export function toDisplayUnits(point: GraphDataPoint): GraphDataPoint {
+  const converted: GraphDataPoint = { ...point };
+  GRAPH_COLUMNS.forEach(({ key, quantity }) => {
+    const value = point[key];
+    if (value !== undefined) converted[key] = fromSI(quantity, value);
+  });
+  return converted;
+}
+
+const header = (key: string, unit: string) => `${key} (${unit})`;
+
+function metadata(session: RecordingSession) {
+  const { system, pixelsPerMeter } = getUnitSettings();
+  return {
+    scene: session.sceneName,
+    objectId: session.objectId,
+    object: session.objectLabel,
+    definitionId: session.definitionId,
+    gravity: session.gravity,
+    gravityUnit: 'g',
+    timeScale: session.timeScale,
+    unitSystem: system,
+    pixelsPerMeter,
+    recordedAt: session.startedAt
+  };
+}
+
+const csvCell = (value: unknown) => {
+  const text = value === undefined ? '' : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Metadata as leading `# key,value` lines, then one row per point with each column's unit in
+ * its header. Values are in the current unit system; time is simulation seconds.
+ */
+export function recordingToCsv(session: RecordingSession, columns: GraphColumn[]): string {
+  const selected = columnsOf(columns);
+  const lines = Object.entries(metadata(session)).map(([key, value]) => `# ${key},${csvCell(value)}`);
+  lines.push([header('time', 's'), ...selected.map(c => header(c.key, unitLabel(c.quantity)))].map(csvCell).join(','));
+  session.points.forEach(point => {
+    const converted = toDisplayUnits(point);
+    lines.push([converted.time, ...selected.map(c => converted[c.key])].map(csvCell).join(','));
+  });
+  return lines.join('\n') + '\n';
+}
+
+export function recordingToJson(session: RecordingSession, columns: GraphColumn[]): string {
+  const selected = columnsOf(columns);
+  return JSON.stringify({
+    ...metadata(session),
+    columns: [
+      { key: 'time', label: 'Time', unit: 's' },
+      ...selected.map(c => ({ key: c.key, label: c.label, unit: unitLabel(c.quantity) }))
+    ],
+    points: session.points.map(point => {
+      const converted = toDisplayUnits(point);
+      return Object.fromEntries([
+        ['time', converted.time],
+        ...selected.map(c => [c.key, converted[c.key] ?? null])
+      ]);
+    })
+  }, null, 2);
+}
+
+export const recordingFileName = (session: RecordingSession, format: ExportFormat) =>
+  `${slugify(session.sceneName)}-${slugify(session.objectLabel, 'object')}.${format}`;
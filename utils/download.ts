@@ -0,0 +1,22 @@
+/** A file-name-safe version of `name`, falling back when nothing usable is left. */
+export const slugify = (name: string, fallback: string = 'scene') =>
+  name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || fallback;
+
+/**
+ * Saves a string as a file through a temporary object URL.
+ */
+export function downloadText(filename: string, text: string, mimeType: string = 'application/json') {
+  const url = URL.createObjectURL(new Blob([text], { type: mimeType }));
+  downloadUrl(filename, url);
+  URL.revokeObjectURL(url);
+}
+
+/** Saves a data or object URL (a canvas image, say) as a file. */
+export function downloadUrl(filename: string, url: string) {
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+}
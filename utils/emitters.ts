@@ -0,0 +1,366 @@
+import Matter from 'matter-js';
+import { EmitterFalloff, EmitterType, SceneObject, Vector2D } from '../types';
+import { getObjectById } from '../data/objects';
+import { ROTATE_SNAP_DEGREES, HANDLE_RADIUS } from './gizmos';
+import { findMaterial } from './userMaterials';
+
+export interface EmitterState {
+  /** Milliseconds of burn left per rocket body; missing means a full tank. */
+  fuel: Map<number, number>;
+}
+
+export interface EmitterSettings {
+  strength: number;
+  /** Degrees; for rockets, relative to the body's own angle. */
+  direction: number;
+  range: number;
+  minRange: number;
+  falloff: EmitterFalloff;
+  polarity: 'north' | 'south';
+  gustiness: number;
+  fuelSeconds: number;
+}
+
+export type EmitterProperty =
+  | 'emitterStrength'
+  | 'emitterDirection'
+  | 'emitterRange'
+  | 'emitterMinRange'
+  | 'emitterFalloff'
+  | 'magnetPolarity'
+  | 'windGustiness'
+  | 'fuelSeconds';
+
+const EMITTER_DEFAULTS: Record<EmitterType, EmitterSettings> = {
+  fan: { strength: 0.005, direction: -90, range: 300, minRange: 0, falloff: 'linear', polarity: 'north', gustiness: 0, fuelSeconds: 0 },
+  gravity_well: { strength: 0.00005, direction: 0, range: 250, minRange: 30, falloff: 'inverse_square', polarity: 'north', gustiness: 0, fuelSeconds: 0 },
+  magnet: { strength: 0.0001, direction: 0, range: 300, minRange: 0, falloff: 'inverse_square', polarity: 'north', gustiness: 0, fuelSeconds: 0 },
+  wind: { strength: 0.0015, direction: 0, range: 0, minRange: 0, falloff: 'none', polarity: 'north', gustiness: 0, fuelSeconds: 0 },
+  rocket: { strength: 0.004, direction: -90, range: 0, minRange: 0, falloff: 'none', polarity: 'north', gustiness: 0, fuelSeconds: 3 }
+};
+
+/** Emitters whose push has a direction that can be dragged on the canvas. */
+const DIRECTIONAL_EMITTERS: EmitterType[] = ['fan', 'wind'];
+/** Emitters that act on bodies within a range of their centre. */
+export const RANGED_EMITTERS: EmitterType[] = ['fan', 'gravity_well', 'magnet'];
+
+// Inverse-square falloff is 1 at this distance, so strengths stay comparable across falloffs
+const FALLOFF_REFERENCE_DISTANCE = 100;
+// Keeps the inverse-square force finite when a body sits on the emitter
+const MIN_FALLOFF_DISTANCE = 25;
+// Attractors scale with the target's mass, like gravity
+const ATTRACTION_SCALE = 5;
+// Wind pushes on exposed area, normalised to a 40 × 40 box
+const WIND_REFERENCE_AREA = 1600;
+const GUST_PERIOD_SECONDS = 1.5;
+const DIRECTION_ARROW_LENGTH = 80;
+
+const FIELD_COLORS: Record<EmitterType, string> = {
+  fan: '#60a5fa',
+  gravity_well: '#a78bfa',
+  magnet: '#f87171',
+  wind: '#38bdf8',
+  rocket: '#fb923c'
+};
+
+export const createEmitterState = (): EmitterState => ({ fuel: new Map() });
+
+export const getEmitterType = (sceneObj: SceneObject) =>
+  sceneObj.customData.emitterType as EmitterType | undefined;
+
+/**
+ * Reads the live settings from the object's custom data, filling gaps from its definition
+ * and then from the per-type defaults.
+ */
+export function getEmitterSettings(sceneObj: SceneObject): EmitterSettings | null {
+  const type = getEmitterType(sceneObj);
+  if (!type) return null;
+  const data: Record<string, unknown> = { ...getObjectById(sceneObj.definitionId)?.customData, ...sceneObj.customData };
+  const defaults = EMITTER_DEFAULTS[type];
+  return {
+    strength: (data.emitterStrength as number) ?? defaults.strength,
+    direction: (data.emitterDirection as number) ?? defaults.direction,
+    range: (data.emitterRange as number) ?? defaults.range,
+    minRange: (data.emitterMinRange as number) ?? defaults.minRange,
+    falloff: (data.emitterFalloff as EmitterFalloff) ?? defaults.falloff,
+    polarity: data.magnetPolarity === 'south' ? 'south' : 'north',
+    gustiness: Math.max(0, Math.min(1, (data.windGustiness as number) ?? defaults.gustiness)),
+    fuelSeconds: (data.fuelSeconds as number) ?? defaults.fuelSeconds
+  };
+}
+
+/** Strength the object was defined with, used to scale the strength slider. */
+export function getDefaultStrength(sceneObj: SceneObject) {
+  const type = getEmitterType(sceneObj);
+  if (!type) return 0;
+  return getObjectById(sceneObj.definitionId)?.customData?.emitterStrength ?? EMITTER_DEFAULTS[type].strength;
+}
+
+export function setEmitterProperty(sceneObj: SceneObject, property: EmitterProperty, value: unknown) {
+  if (value === undefined) delete sceneObj.customData[property];
+  else sceneObj.customData[property] = value;
+}
+
+export const isDirectionalEmitter = (sceneObj: SceneObject) => {
+  const type = getEmitterType(sceneObj);
+  return !!type && DIRECTIONAL_EMITTERS.includes(type);
+};
+
+export function falloffFactor(falloff: EmitterFalloff, distance: number, range: number) {
+  if (falloff === 'linear') return range > 0 ? Math.max(0, 1 - distance / range) : 1;
+  if (falloff === 'inverse_square') {
+    const d = Math.max(distance, MIN_FALLOFF_DISTANCE);
+    return (FALLOFF_REFERENCE_DISTANCE / d) ** 2;
+  }
+  return 1;
+}
+
+const isMagnetic = (sceneObj: SceneObject | undefined) => {
+  if (!sceneObj) return false;
+  const { isMagnetic: flagged, material } = sceneObj.customData;
+  return flagged === true || (typeof material === 'string' && findMaterial(material)?.magnetic === true);
+};
+
+const polarityOf = (settings: EmitterSettings) => settings.polarity === 'south' ? -1 : 1;
+
+/**
+ * Direction a rocket pushes in. The emitter direction is relative to the body, so the
+ * rocket keeps thrusting "forward" as it turns.
+ */
+export const rocketThrustAngle = (sceneObj: SceneObject, settings: EmitterSettings) =>
+  sceneObj.body.angle + settings.direction * (Math.PI / 180);
+
+export function fuelRemaining(state: EmitterState, sceneObj: SceneObject, settings: EmitterSettings) {
+  const capacity = settings.fuelSeconds * 1000;
+  return Math.min(capacity, state.fuel.get(sceneObj.body.id) ?? capacity);
+}
+
+export function isRocketBurning(state: EmitterState, sceneObj: SceneObject) {
+  const settings = getEmitterSettings(sceneObj);
+  return !!settings && !sceneObj.body.isStatic && fuelRemaining(state, sceneObj, settings) > 0;
+}
+
+// Smooth, repeatable noise in [0, 1): hashed values at whole steps, eased in between
+const hash = (seed: number, n: number) => {
+  const x = Math.sin(seed * 127.1 + n * 311.7) * 43758.5453;
+  return x - Math.floor(x);
+};
+
+function gustNoise(seed: number, t: number) {
+  const step = Math.floor(t);
+  const frac = t - step;
+  const ease = (1 - Math.cos(frac * Math.PI)) / 2;
+  return hash(seed, step) * (1 - ease) + hash(seed, step + 1) * ease;
+}
+
+/**
+ * Wind strength multiplier at a simulation time. Gustiness 0 is steady; 1 swings between
+ * calm and double strength. Seeded by the emitter body so every run gusts the same way.
+ */
+export function windGustFactor(sceneObj: SceneObject, gustiness: number, timeSeconds: number) {
+  if (gustiness === 0) return 1;
+  return 1 + gustiness * (2 * gustNoise(sceneObj.body.id, timeSeconds / GUST_PERIOD_SECONDS) - 1);
+}
+
+function applyRocket(rocket: SceneObject, settings: EmitterSettings, state: EmitterState, delta: number) {
+  if (rocket.body.isStatic) return;
+  const remaining = fuelRemaining(state, rocket, settings);
+  if (remaining <= 0) return;
+  const angle = rocketThrustAngle(rocket, settings);
+  Matter.Body.applyForce(rocket.body, rocket.body.position, {
+    x: Math.cos(angle) * settings.strength,
+    y: Math.sin(angle) * settings.strength
+  });
+  state.fuel.set(rocket.body.id, Math.max(0, remaining - delta));
+}
+
+/**
+ * Applies every emitter's force for one engine step. Call from the engine's beforeUpdate;
+ * `delta` is the scaled step length in ms.
+ */
+export function applyEmitterForces(
+  sceneObjects: Map<number, SceneObject>,
+  bodies: Matter.Body[],
+  state: EmitterState,
+  timestamp: number,
+  delta: number
+) {
+  sceneObjects.forEach(emitter => {
+    const emitterType = getEmitterType(emitter);
+    const settings = getEmitterSettings(emitter);
+    if (!emitterType || !settings) return;
+
+    if (emitterType === 'rocket') {
+      applyRocket(emitter, settings, state, delta);
+      return;
+    }
+
+    const emitterBody = emitter.body;
+    const { strength, range, minRange, falloff } = settings;
+    const direction = settings.direction * (Math.PI / 180);
+    const gust = emitterType === 'wind' ? windGustFactor(emitter, settings.gustiness, timestamp / 1000) : 1;
+
+    bodies.forEach(body => {
+      if (body === emitterBody || body.isStatic || body.label === 'Boundary') return;
+
+      const offset = Matter.Vector.sub(emitterBody.position, body.position);
+      const distance = Matter.Vector.magnitude(offset);
+
+      if (emitterType === 'fan' && distance < range) {
+        const forceMag = strength * falloffFactor(falloff, distance, range);
+        Matter.Body.applyForce(body, body.position, {
+          x: Math.cos(direction) * forceMag,
+          y: Math.sin(direction) * forceMag
+        });
+      }
+
+      if (emitterType === 'gravity_well' && distance < range && distance > minRange) {
+        const dir = Matter.Vector.normalise(offset);
+        const forceMag = strength * body.mass * ATTRACTION_SCALE * falloffFactor(falloff, distance, range);
+        Matter.Body.applyForce(body, body.position, {
+          x: dir.x * forceMag,
+          y: dir.y * forceMag
+        });
+      }
+
+      const target = sceneObjects.get(body.id);
+      const targetMagnet = target && getEmitterType(target) === 'magnet' ? getEmitterSettings(target) : null;
+      if (emitterType === 'magnet' && distance < range && distance > minRange && (targetMagnet || isMagnetic(target))) {
+        // Iron is pulled by either pole; two magnets attract unlike poles and repel like ones
+        const sign = targetMagnet ? -polarityOf(settings) * polarityOf(targetMagnet) : 1;
+        const dir = Matter.Vector.normalise(offset);
+        const forceMag = sign * strength * body.mass * ATTRACTION_SCALE * falloffFactor(falloff, distance, range);
+        Matter.Body.applyForce(body, body.position, {
+          x: dir.x * forceMag,
+          y: dir.y * forceMag
+        });
+      }
+
+      if (emitterType === 'wind' && Matter.Vertices.contains(emitterBody.vertices, body.position)) {
+        const forceMag = strength * gust * (body.area / WIND_REFERENCE_AREA);
+        Matter.Body.applyForce(body, body.position, {
+          x: Math.cos(direction) * forceMag,
+          y: Math.sin(direction) * forceMag
+        });
+      }
+    });
+  });
+}
+
+export function directionHandlePosition(sceneObj: SceneObject): Vector2D | null {
+  const settings = getEmitterSettings(sceneObj);
+  if (!settings || !isDirectionalEmitter(sceneObj)) return null;
+  const angle = settings.direction * (Math.PI / 180);
+  return {
+    x: sceneObj.body.position.x + Math.cos(angle) * DIRECTION_ARROW_LENGTH,
+    y: sceneObj.body.position.y + Math.sin(angle) * DIRECTION_ARROW_LENGTH
+  };
+}
+
+export function isOnDirectionHandle(sceneObj: SceneObject, point: Vector2D) {
+  const handle = directionHandlePosition(sceneObj);
+  return !!handle && Math.hypot(point.x - handle.x, point.y - handle.y) <= HANDLE_RADIUS + 3;
+}
+
+/**
+ * Emitter direction in degrees for a pointer position, snapped like the rotate gizmo
+ * unless `fine` is held.
+ */
+export function directionFromPointer(sceneObj: SceneObject, pointer: Vector2D, fine: boolean) {
+  const { position } = sceneObj.body;
+  const raw = Math.atan2(pointer.y - position.y, pointer.x - position.x) * 180 / Math.PI;
+  const step = fine ? 1 : ROTATE_SNAP_DEGREES;
+  return Math.round(raw / step) * step;
+}
+
+function drawArrow(ctx: CanvasRenderingContext2D, from: Vector2D, to: Vector2D, color: string) {
+  const angle = Math.atan2(to.y - from.y, to.x - from.x);
+  ctx.strokeStyle = color;
+  ctx.fillStyle = color;
+  ctx.lineWidth = 2;
+  ctx.beginPath();
+  ctx.moveTo(from.x, from.y);
+  ctx.lineTo(to.x, to.y);
+  ctx.stroke();
+  ctx.beginPath();
+  ctx.moveTo(to.x, to.y);
+  ctx.lineTo(to.x - 10 * Math.cos(angle - Math.PI / 6), to.y - 10 * Math.sin(angle - Math.PI / 6));
+  ctx.lineTo(to.x - 10 * Math.cos(angle + Math.PI / 6), to.y - 10 * Math.sin(angle + Math.PI / 6));
+  ctx.closePath();
+  ctx.fill();
+}
+
+/**
+ * Fans always show their area of effect and push direction; other emitters only while
+ * selected. The selected emitter also gets a draggable direction handle.
+ */
+export function drawEmitterField(ctx: CanvasRenderingContext2D, sceneObj: SceneObject, selected: boolean) {
+  const type = getEmitterType(sceneObj);
+  const settings = getEmitterSettings(sceneObj);
+  if (!type || !settings || type === 'rocket') return;
+  if (type !== 'fan' && !selected) return;
+
+  const color = FIELD_COLORS[type];
+  const { x, y } = sceneObj.body.position;
+
+  if (RANGED_EMITTERS.includes(type) && settings.range > 0) {
+    // The fill fades with the falloff so the strongest region reads darkest
+    const gradient = ctx.createRadialGradient(x, y, 0, x, y, settings.range);
+    gradient.addColorStop(0, `${color}33`);
+    gradient.addColorStop(1, settings.falloff === 'none' ? `${color}33` : `${color}00`);
+    ctx.fillStyle = gradient;
+    ctx.beginPath();
+    ctx.arc(x, y, settings.range, 0, Math.PI * 2);
+    ctx.fill();
+
+    ctx.strokeStyle = `${color}99`;
+    ctx.lineWidth = 1;
+    ctx.setLineDash([6, 6]);
+    ctx.stroke();
+    if (settings.minRange > 0) {
+      ctx.beginPath();
+      ctx.arc(x, y, settings.minRange, 0, Math.PI * 2);
+      ctx.stroke();
+    }
+    ctx.setLineDash([]);
+  }
+
+  const handle = directionHandlePosition(sceneObj);
+  if (!handle) return;
+  drawArrow(ctx, { x, y }, handle, selected ? color : `${color}99`);
+  if (selected) {
+    ctx.fillStyle = '#0f172a';
+    ctx.strokeStyle = color;
+    ctx.lineWidth = 2;
+    ctx.beginPath();
+    ctx.arc(handle.x, handle.y, HANDLE_RADIUS, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.stroke();
+  }
+}
+
+export function drawRocketFlame(ctx: CanvasRenderingContext2D, rocket: SceneObject, state: EmitterState) {
+  const settings = getEmitterSettings(rocket);
+  if (!settings) return;
+  const { body } = rocket;
+  const angle = rocketThrustAngle(rocket, settings);
+  const back = { x: -Math.cos(angle), y: -Math.sin(angle) };
+  // Exhaust leaves from the face opposite the thrust
+  const reach = Math.max(...body.vertices.map(v =>
+    (v.x - body.position.x) * back.x + (v.y - body.position.y) * back.y));
+  const base = { x: body.position.x + back.x * reach, y: body.position.y + back.y * reach };
+  const length = 14 + Math.random() * 10;
+  const tip = { x: base.x + back.x * length, y: base.y + back.y * length };
+  const side = { x: -back.y * 6, y: back.x * 6 };
+
+  // Turns red in the last fifth of the tank
+  ctx.fillStyle = fuelRemaining(state, rocket, settings) > settings.fuelSeconds * 200
+    ? 'rgba(251, 146, 60, 0.9)'
+    : 'rgba(248, 113, 113, 0.9)';
+  ctx.beginPath();
+  ctx.moveTo(base.x + side.x, base.y + side.y);
+  ctx.lineTo(tip.x, tip.y);
+  ctx.lineTo(base.x - side.x, base.y - side.y);
+  ctx.closePath();
+  ctx.fill();
+}
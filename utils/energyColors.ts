@@ -0,0 +1,47 @@
+import Matter from 'matter-js';
+import { formatQuantity } from './units';
+
+// Below this (J) the scene counts as at rest, so resting bodies don't flicker through the scale
+const MIN_SCALE_ENERGY = 1e-3;
+const LEGEND_WIDTH = 120;
+
+/** Blue at rest through green and yellow to red for the fastest body in the scene. */
+export const energyColor = (fraction: number, alpha: number = 1) =>
+  `hsla(${240 * (1 - Math.min(1, Math.max(0, fraction)))}, 90%, 55%, ${alpha})`;
+
+/**
+ * Tints every body by its kinetic energy relative to the most energetic one, with a legend
+ * in the corner. `energies` maps body ids to kinetic energy in joules.
+ */
+export function drawEnergyColors(ctx: CanvasRenderingContext2D, bodies: Matter.Body[], energies: Map<number, number>) {
+  const maxEnergy = Math.max(MIN_SCALE_ENERGY, ...energies.values());
+
+  bodies.forEach(body => {
+    const energy = energies.get(body.id);
+    if (energy === undefined) return;
+    ctx.fillStyle = energyColor(energy / maxEnergy, 0.55);
+    const parts = body.parts.length > 1 ? body.parts.slice(1) : [body];
+    parts.forEach(part => {
+      ctx.beginPath();
+      part.vertices.forEach((v, i) => (i === 0 ? ctx.moveTo(v.x, v.y) : ctx.lineTo(v.x, v.y)));
+      ctx.closePath();
+      ctx.fill();
+    });
+  });
+
+  const x = 16;
+  const y = ctx.canvas.height - 34;
+  const gradient = ctx.createLinearGradient(x, 0, x + LEGEND_WIDTH, 0);
+  [0, 0.25, 0.5, 0.75, 1].forEach(stop => gradient.addColorStop(stop, energyColor(stop)));
+  ctx.fillStyle = 'rgba(15, 23, 42, 0.85)';
+  ctx.fillRect(x - 8, y - 16, LEGEND_WIDTH + 16, 38);
+  ctx.fillStyle = gradient;
+  ctx.fillRect(x, y, LEGEND_WIDTH, 6);
+  ctx.fillStyle = '#94a3b8';
+  ctx.font = '600 10px JetBrains Mono, monospace';
+  ctx.fillText('Kinetic energy', x, y - 5);
+  ctx.fillText('0', x, y + 18);
+  ctx.textAlign = 'right';
+  ctx.fillText(formatQuantity('energy', maxEnergy), x + LEGEND_WIDTH, y + 18);
+  ctx.textAlign = 'left';
+}
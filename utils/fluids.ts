@@ -0,0 +1,179 @@
+import Matter from 'matter-js';
+import { FluidPreset, SceneObject, Vector2D } from '../types';
+import { getFluidByName } from '../data/materials';
+
+const DEFAULT_FLUID_LEVEL = 0.8;
+// Fraction of spin lost per step when fully submerged
+const ANGULAR_DAMPING = 0.05;
+
+const cross = (o: Vector2D, a: Vector2D, b: Vector2D) =>
+  (a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x);
+
+export function polygonArea(points: Vector2D[]) {
+  let sum = 0;
+  for (let i = 0; i < points.length; i++) {
+    const a = points[i];
+    const b = points[(i + 1) % points.length];
+    sum += a.x * b.y - b.x * a.y;
+  }
+  return sum / 2;
+}
+
+export function polygonCentroid(points: Vector2D[]): Vector2D {
+  const area = polygonArea(points);
+  if (Math.abs(area) < 1e-9) return points[0] ?? { x: 0, y: 0 };
+  let cx = 0;
+  let cy = 0;
+  for (let i = 0; i < points.length; i++) {
+    const a = points[i];
+    const b = points[(i + 1) % points.length];
+    const f = a.x * b.y - b.x * a.y;
+    cx += (a.x + b.x) * f;
+    cy += (a.y + b.y) * f;
+  }
+  return { x: cx / (6 * area), y: cy / (6 * area) };
+}
+
+const intersect = (p1: Vector2D, p2: Vector2D, a: Vector2D, b: Vector2D): Vector2D => {
+  const d1 = cross(a, b, p1);
+  const d2 = cross(a, b, p2);
+  const t = d1 / (d1 - d2);
+  return { x: p1.x + (p2.x - p1.x) * t, y: p1.y + (p2.y - p1.y) * t };
+};
+
+/**
+ * Sutherland–Hodgman clip of any simple polygon against a convex one. Works with either
+ * winding; the clip polygon's own winding decides which side of each edge is inside.
+ */
+export function clipPolygon(subject: Vector2D[], clip: Vector2D[]): Vector2D[] {
+  const winding = Math.sign(polygonArea(clip)) || 1;
+  let output = subject;
+
+  for (let i = 0; i < clip.length && output.length > 0; i++) {
+    const a = clip[i];
+    const b = clip[(i + 1) % clip.length];
+    const inside = (p: Vector2D) => cross(a, b, p) * winding >= 0;
+    const input = output;
+    output = [];
+
+    for (let j = 0; j < input.length; j++) {
+      const current = input[j];
+      const previous = input[(j + input.length - 1) % input.length];
+      if (inside(current)) {
+        if (!inside(previous)) output.push(intersect(previous, current, a, b));
+        output.push(current);
+      } else if (inside(previous)) {
+        output.push(intersect(previous, current, a, b));
+      }
+    }
+  }
+  return output;
+}
+
+export const getFluid = (sceneObj: SceneObject): FluidPreset | undefined =>
+  typeof sceneObj.customData.fluidType === 'string' ? getFluidByName(sceneObj.customData.fluidType) : undefined;
+
+export function getSurfaceY(tank: SceneObject) {
+  const level = (tank.customData.fluidLevel as number) ?? DEFAULT_FLUID_LEVEL;
+  const { min, max } = tank.body.bounds;
+  return max.y - (max.y - min.y) * level;
+}
+
+/**
+ * The tank's outline cut off at the fluid surface. The surface stays level however the
+ * tank is rotated.
+ */
+export function getFluidRegion(tank: SceneObject): Vector2D[] {
+  const surfaceY = getSurfaceY(tank);
+  const { min, max } = tank.body.bounds;
+  const below = [
+    { x: min.x - 1, y: surfaceY },
+    { x: max.x + 1, y: surfaceY },
+    { x: max.x + 1, y: max.y + 1 },
+    { x: min.x - 1, y: max.y + 1 }
+  ];
+  return clipPolygon(tank.body.vertices, below);
+}
+
+const bodyParts = (body: Matter.Body) => body.parts.length > 1 ? body.parts.slice(1) : [body];
+
+/**
+ * Archimedes buoyancy on the submerged area, applied at its centroid so floating bodies
+ * right themselves, plus quadratic drag. Call from the engine's beforeUpdate.
+ */
+export function applyFluidForces(sceneObjects: Map<number, SceneObject>, bodies: Matter.Body[], gravity: Matter.Gravity) {
+  const tanks: { region: Vector2D[]; fluid: FluidPreset }[] = [];
+  sceneObjects.forEach(sceneObj => {
+    const fluid = getFluid(sceneObj);
+    if (fluid) tanks.push({ region: getFluidRegion(sceneObj), fluid });
+  });
+  if (tanks.length === 0) return;
+
+  const gravityScale = gravity.scale ?? 0.001;
+
+  bodies.forEach(body => {
+    if (body.isStatic || body.isSensor || body.label === 'Boundary') return;
+
+    tanks.forEach(({ region, fluid }) => {
+      let submergedArea = 0;
+      let momentX = 0;
+      let momentY = 0;
+      bodyParts(body).forEach(part => {
+        const wet = clipPolygon(part.vertices, region);
+        if (wet.length < 3) return;
+        const area = Math.abs(polygonArea(wet));
+        const centroid = polygonCentroid(wet);
+        submergedArea += area;
+        momentX += centroid.x * area;
+        momentY += centroid.y * area;
+      });
+      if (submergedArea <= 0) return;
+
+      // Weight of the displaced fluid, in the same units Matter uses for gravity
+      const displaced = fluid.density * submergedArea * gravityScale;
+      const center = { x: momentX / submergedArea, y: momentY / submergedArea };
+      Matter.Body.applyForce(body, center, { x: -gravity.x * displaced, y: -gravity.y * displaced });
+
+      // Implicit quadratic drag: stable however fast the body enters the fluid
+      const fraction = Math.min(1, submergedArea / body.area);
+      const bodyDensity = body.mass / body.area;
+      const speed = Matter.Vector.magnitude(body.velocity);
+      const damping = 1 / (1 + fluid.drag * (fluid.density / bodyDensity) * fraction * speed);
+      Matter.Body.setVelocity(body, Matter.Vector.mult(body.velocity, damping));
+      Matter.Body.setAngularVelocity(body, body.angularVelocity * (1 - ANGULAR_DAMPING * fraction));
+    });
+  });
+}
+
+export function drawFluid(ctx: CanvasRenderingContext2D, tank: SceneObject) {
+  const fluid = getFluid(tank);
+  if (!fluid) return;
+  const region = getFluidRegion(tank);
+  if (region.length < 3) return;
+
+  ctx.fillStyle = `${fluid.color}40`;
+  ctx.beginPath();
+  ctx.moveTo(region[0].x, region[0].y);
+  region.slice(1).forEach(p => ctx.lineTo(p.x, p.y));
+  ctx.closePath();
+  ctx.fill();
+
+  // Highlight the surface: the edge of the region lying on the surface line
+  const surfaceY = getSurfaceY(tank);
+  const onSurface = region.filter(p => Math.abs(p.y - surfaceY) < 0.5);
+  if (onSurface.length >= 2) {
+    const left = Math.min(...onSurface.map(p => p.x));
+    const right = Math.max(...onSurface.map(p => p.x));
+    ctx.strokeStyle = fluid.color;
+    ctx.lineWidth = 2;
+    ctx.beginPath();
+    ctx.moveTo(left, surfaceY);
+    ctx.lineTo(right, surfaceY);
+    ctx.stroke();
+  }
+
+  // Matter's default density of 0.001 stands for water
+  ctx.fillStyle = fluid.color;
+  ctx.font = '600 10px Inter, sans-serif';
+  ctx.fillText(`${fluid.name} · ${(fluid.density * 1e6).toFixed(0)} kg/m³`, Math.min(...region.map(p => p.x)) + 6, surfaceY + 14);
+}
@@ -0,0 +1,221 @@
+import Matter from 'matter-js';
+import { ForceBreakdown, Vector2D } from '../types';
+import { forceToSI, velocityToSI } from './units';
+
+export type ForceComponent = Exclude<keyof ForceBreakdown, 'net'>;
+
+export interface ContactForce {
+  /** Canvas pixels. */
+  point: Vector2D;
+  /** Newtons, y up. */
+  normal: Vector2D;
+  friction: Vector2D;
+}
+
+export interface BodyDynamics {
+  /** m/s², y up, smoothed over recent steps. */
+  acceleration: Vector2D;
+  forces: ForceBreakdown;
+  /** Normal and friction force at each point touching another body. */
+  contacts: ContactForce[];
+}
+
+export interface ForceTracker {
+  dynamics: Map<number, BodyDynamics>;
+  /**
+   * Runs `apply` (emitters, fluids, pushes) and books whatever it did to each body as forces. Force
+   * changes go to `forceKey`; velocity changes, such as drag applied with setVelocity, go to
+   * `velocityKey`. Call from the engine's beforeUpdate.
+   */
+  measure: (bodies: Matter.Body[], apply: () => void, forceKey: ForceComponent, velocityKey?: ForceComponent) => void;
+  /**
+   * Works out every body's acceleration and force breakdown for the step that just ran.
+   * Call from afterUpdate. Bodies in `constrained` get whatever their measured forces don't
+   * explain booked as tension, since Matter solves constraints by moving bodies directly.
+   */
+  update: (engine: Matter.Engine, constrained: Set<number>) => void;
+  clear: () => void;
+}
+
+/** Weight of the newest sample in the acceleration's moving average; 1 turns smoothing off. */
+export const DEFAULT_ACCELERATION_SMOOTHING = 0.3;
+
+// Matter.js velocities are in px per step of this many ms
+const BASE_DELTA = 1000 / 60;
+
+const COMPONENTS: ForceComponent[] = ['gravity', 'normal', 'friction', 'drag', 'tension', 'emitter', 'buoyancy', 'applied'];
+
+const zero = (): Vector2D => ({ x: 0, y: 0 });
+
+const emptyBreakdown = (): Record<ForceComponent, Vector2D> =>
+  Object.fromEntries(COMPONENTS.map(key => [key, zero()])) as Record<ForceComponent, Vector2D>;
+
+const addTo = (target: Vector2D, x: number, y: number) => {
+  target.x += x;
+  target.y += y;
+};
+
+// Matter.js force (mass · px/ms², y down) to newtons, y up
+const forceVectorToSI = (force: Vector2D): Vector2D => ({ x: forceToSI(force.x), y: -forceToSI(force.y) });
+
+export function createForceTracker(smoothing: number = DEFAULT_ACCELERATION_SMOOTHING): ForceTracker {
+  const dynamics = new Map<number, BodyDynamics>();
+  const previousVelocity = new Map<number, Vector2D>();
+  // This step's measured forces, in Matter units
+  let measured = new Map<number, Record<ForceComponent, Vector2D>>();
+  // Momentum changes that were not forces (setVelocity), booked as forces once dt is known
+  let impulses = new Map<number, Record<ForceComponent, Vector2D>>();
+
+  const entry = (map: Map<number, Record<ForceComponent, Vector2D>>, id: number) => {
+    let breakdown = map.get(id);
+    if (!breakdown) {
+      breakdown = emptyBreakdown();
+      map.set(id, breakdown);
+    }
+    return breakdown;
+  };
+
+  return {
+    dynamics,
+
+    measure: (bodies, apply, forceKey, velocityKey = forceKey) => {
+      const before = new Map(bodies.map(body => [body.id, {
+        force: { ...body.force },
+        velocity: { ...body.velocity }
+      }]));
+      apply();
+      bodies.forEach(body => {
+        const start = before.get(body.id);
+        if (!start || body.isStatic) return;
+        const dfx = body.force.x - start.force.x;
+        const dfy = body.force.y - start.force.y;
+        if (dfx !== 0 || dfy !== 0) addTo(entry(measured, body.id)[forceKey], dfx, dfy);
+        const dvx = body.velocity.x - start.velocity.x;
+        const dvy = body.velocity.y - start.velocity.y;
+        if (dvx !== 0 || dvy !== 0) addTo(entry(impulses, body.id)[velocityKey], body.mass * dvx, body.mass * dvy);
+      });
+    },
+
+    update: (engine, constrained) => {
+      const dt = engine.timing.lastDelta;
+      const stepMeasured = measured;
+      const stepImpulses = impulses;
+      measured = new Map();
+      impulses = new Map();
+      if (dt <= 0) return;
+
+      // The solver leaves each contact's total impulse for the step on the contact; they
+      // are position corrections, so one of size I over a step of dt is a force of I / dt²
+      const contacts = new Map<number, { normal: Vector2D; friction: Vector2D; points: ContactForce[] }>();
+      (engine.pairs.list as Matter.Pair[]).forEach(pair => {
+        if (!pair.isActive || pair.isSensor) return;
+        const { normal, tangent, parentA, parentB } = pair.collision;
+        const count = (pair as Matter.Pair & { contactCount?: number }).contactCount ?? pair.contacts.length;
+        for (let i = 0; i < count; i++) {
+          const contact = pair.contacts[i];
+          const n = { x: normal.x * contact.normalImpulse / (dt * dt), y: normal.y * contact.normalImpulse / (dt * dt) };
+          const t = { x: tangent.x * contact.tangentImpulse / (dt * dt), y: tangent.y * contact.tangentImpulse / (dt * dt) };
+          const book = (body: Matter.Body, sign: number) => {
+            if (body.isStatic) return;
+            const forces = contacts.get(body.id) ?? { normal: zero(), friction: zero(), points: [] };
+            addTo(forces.normal, n.x * sign, n.y * sign);
+            addTo(forces.friction, t.x * sign, t.y * sign);
+            forces.points.push({
+              point: { x: contact.vertex.x, y: contact.vertex.y },
+              normal: forceVectorToSI({ x: n.x * sign, y: n.y * sign }),
+              friction: forceVectorToSI({ x: t.x * sign, y: t.y * sign })
+            });
+            contacts.set(body.id, forces);
+          };
+          // The resolver pushes bodyA against the impulse and bodyB along it
+          book(parentA, -1);
+          book(parentB, 1);
+        }
+      });
+
+      const seen = new Set<number>();
+      Matter.Composite.allBodies(engine.world).forEach(body => {
+        if (body.isStatic || body.isSensor) return;
+        seen.add(body.id);
+        const mass = body.mass;
+        const v = body.velocity;
+        const vPrev = previousVelocity.get(body.id) ?? v;
+        previousVelocity.set(body.id, { ...v });
+
+        const forces = emptyBreakdown();
+        const gravityScale = engine.gravity.scale;
+        forces.gravity = { x: mass * engine.gravity.x * gravityScale, y: mass * engine.gravity.y * gravityScale };
+        const contact = contacts.get(body.id);
+        if (contact) {
+          forces.normal = contact.normal;
+          forces.friction = contact.friction;
+        }
+        // frictionAir scales each step's displacement by 1 - frictionAir · dt / BASE_DELTA
+        forces.drag = { x: -mass * body.frictionAir * vPrev.x / (BASE_DELTA * BASE_DELTA), y: -mass * body.frictionAir * vPrev.y / (BASE_DELTA * BASE_DELTA) };
+
+        const bodyMeasured = stepMeasured.get(body.id);
+        const bodyImpulses = stepImpulses.get(body.id);
+        COMPONENTS.forEach(key => {
+          if (bodyMeasured) addTo(forces[key], bodyMeasured[key].x, bodyMeasured[key].y);
+          if (bodyImpulses) addTo(forces[key], bodyImpulses[key].x / (BASE_DELTA * dt), bodyImpulses[key].y / (BASE_DELTA * dt));
+        });
+
+        // Acceleration in Matter units (px/ms²) from consecutive velocities
+        const ax = (v.x - vPrev.x) / (BASE_DELTA * dt);
+        const ay = (v.y - vPrev.y) / (BASE_DELTA * dt);
+        if (constrained.has(body.id)) {
+          const explained = COMPONENTS.reduce((sum, key) => ({ x: sum.x + forces[key].x, y: sum.y + forces[key].y }), zero());
+          forces.tension = { x: mass * ax - explained.x, y: mass * ay - explained.y };
+        }
+
+        const breakdown = {} as ForceBreakdown;
+        const net = zero();
+        COMPONENTS.forEach(key => {
+          breakdown[key] = forceVectorToSI(forces[key]);
+          addTo(net, breakdown[key].x, breakdown[key].y);
+        });
+        breakdown.net = net;
+
+        const dtSeconds = dt / 1000;
+        const rawAcceleration = {
+          x: (velocityToSI(v.x) - velocityToSI(vPrev.x)) / dtSeconds,
+          y: -(velocityToSI(v.y) - velocityToSI(vPrev.y)) / dtSeconds
+        };
+        const previous = dynamics.get(body.id)?.acceleration ?? rawAcceleration;
+        dynamics.set(body.id, {
+          acceleration: {
+            x: previous.x + smoothing * (rawAcceleration.x - previous.x),
+            y: previous.y + smoothing * (rawAcceleration.y - previous.y)
+          },
+          forces: breakdown,
+          contacts: contact?.points ?? []
+        });
+      });
+
+      // Forget bodies that were removed or made static
+      dynamics.forEach((_, id) => {
+        if (!seen.has(id)) {
+          dynamics.delete(id);
+          previousVelocity.delete(id);
+        }
+      });
+    },
+
+    clear: () => {
+      dynamics.clear();
+      previousVelocity.clear();
+      measured = new Map();
+      impulses = new Map();
+    }
+  };
+}
+
+/** Ids of bodies held by a constraint, including one being dragged with the mouse. */
+export function getConstrainedBodyIds(world: Matter.World): Set<number> {
+  const ids = new Set<number>();
+  Matter.Composite.allConstraints(world).forEach(constraint => {
+    if (constraint.bodyA) ids.add(constraint.bodyA.id);
+    if (constraint.bodyB) ids.add(constraint.bodyB.id);
+  });
+  return ids;
+}
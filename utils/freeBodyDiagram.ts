@@ -0,0 +1,169 @@
+import Matter from 'matter-js';
+import { ForceBreakdown, Vector2D } from '../types';
+import { BodyDynamics } from './forces';
+import { formatQuantity } from './units';
+
+interface ForceArrow {
+  from: Vector2D;
+  to: Vector2D;
+  color: string;
+  label: string;
+  dashed?: boolean;
+}
+
+type BodyForce = Exclude<keyof ForceBreakdown, 'net' | 'normal' | 'friction'>;
+
+// Forces that act on the whole body are drawn from its centre of mass
+const BODY_FORCES: { key: BodyForce; symbol: string; color: string }[] = [
+  { key: 'gravity', symbol: 'W', color: '#f59e0b' },
+  { key: 'tension', symbol: 'T', color: '#a3e635' },
+  { key: 'emitter', symbol: 'F', color: '#60a5fa' },
+  { key: 'buoyancy', symbol: 'B', color: '#38bdf8' },
+  { key: 'applied', symbol: 'P', color: '#fb923c' },
+  { key: 'drag', symbol: 'D', color: '#94a3b8' }
+];
+const NORMAL_COLOR = '#22d3ee';
+const FRICTION_COLOR = '#f87171';
+const NET_COLOR = '#e2e8f0';
+
+// The weight arrow is this long and every other arrow shares its scale, so lengths compare
+const WEIGHT_ARROW_LENGTH = 70;
+const MAX_ARROW_LENGTH = 220;
+// Forces below this many newtons are solver noise
+const MIN_DRAWN_FORCE = 1e-3;
+const ARROW_HEAD = 9;
+const EXPORT_PADDING = 60;
+const EXPORT_TITLE_HEIGHT = 44;
+
+const magnitude = (v: Vector2D) => Math.hypot(v.x, v.y);
+
+function getScale(dynamics: BodyDynamics) {
+  const weight = magnitude(dynamics.forces.gravity);
+  if (weight >= MIN_DRAWN_FORCE) return WEIGHT_ARROW_LENGTH / weight;
+  const largest = Math.max(...BODY_FORCES.map(f => magnitude(dynamics.forces[f.key])), magnitude(dynamics.forces.normal));
+  return largest >= MIN_DRAWN_FORCE ? WEIGHT_ARROW_LENGTH / largest : 0;
+}
+
+function arrowFor(from: Vector2D, force: Vector2D, scale: number, color: string, label: string, dashed = false): ForceArrow | null {
+  const size = magnitude(force);
+  if (size < MIN_DRAWN_FORCE) return null;
+  const length = Math.min(size * scale, MAX_ARROW_LENGTH);
+  // Forces are y up, the canvas is y down
+  return {
+    from,
+    to: { x: from.x + force.x / size * length, y: from.y - force.y / size * length },
+    color,
+    label: `${label} ${formatQuantity('force', size)}`,
+    dashed
+  };
+}
+
+function collectArrows(body: Matter.Body, dynamics: BodyDynamics): ForceArrow[] {
+  const scale = getScale(dynamics);
+  if (scale === 0) return [];
+  const center = { x: body.position.x, y: body.position.y };
+  const arrows: (ForceArrow | null)[] = BODY_FORCES.map(f =>
+    arrowFor(center, dynamics.forces[f.key], scale, f.color, f.symbol));
+
+  dynamics.contacts.forEach((contact, i) => {
+    const suffix = dynamics.contacts.length > 1 ? `${i + 1}` : '';
+    arrows.push(arrowFor(contact.point, contact.normal, scale, NORMAL_COLOR, `N${suffix}`));
+    arrows.push(arrowFor(contact.point, contact.friction, scale, FRICTION_COLOR, `f${suffix}`));
+  });
+
+  arrows.push(arrowFor(center, dynamics.forces.net, scale, NET_COLOR, 'ΣF', true));
+  return arrows.filter((arrow): arrow is ForceArrow => arrow !== null);
+}
+
+function drawForceArrow(ctx: CanvasRenderingContext2D, arrow: ForceArrow) {
+  const { from, to, color } = arrow;
+  const angle = Math.atan2(to.y - from.y, to.x - from.x);
+
+  ctx.strokeStyle = color;
+  ctx.fillStyle = color;
+  ctx.lineWidth = 2.5;
+  ctx.lineCap = 'round';
+  if (arrow.dashed) ctx.setLineDash([6, 4]);
+  ctx.beginPath();
+  ctx.moveTo(from.x, from.y);
+  ctx.lineTo(to.x, to.y);
+  ctx.stroke();
+  ctx.setLineDash([]);
+
+  ctx.beginPath();
+  ctx.moveTo(to.x, to.y);
+  ctx.lineTo(to.x - ARROW_HEAD * Math.cos(angle - Math.PI / 6), to.y - ARROW_HEAD * Math.sin(angle - Math.PI / 6));
+  ctx.lineTo(to.x - ARROW_HEAD * Math.cos(angle + Math.PI / 6), to.y - ARROW_HEAD * Math.sin(angle + Math.PI / 6));
+  ctx.closePath();
+  ctx.fill();
+
+  // Label just past the tip, on the side the arrow points to
+  ctx.font = '600 10px JetBrains Mono, monospace';
+  ctx.textAlign = Math.cos(angle) < -0.3 ? 'right' : Math.cos(angle) > 0.3 ? 'left' : 'center';
+  ctx.textBaseline = Math.sin(angle) > 0.3 ? 'top' : Math.sin(angle) < -0.3 ? 'bottom' : 'middle';
+  ctx.fillText(arrow.label, to.x + Math.cos(angle) * 6, to.y + Math.sin(angle) * 6);
+  ctx.textAlign = 'left';
+  ctx.textBaseline = 'alphabetic';
+}
+
+/**
+ * Labelled force arrows for one body: weight, tension, emitter, buoyancy, applied and drag
+ * forces from its centre, normal and friction at each contact point, and the net force dashed.
+ */
+export function drawFreeBodyDiagram(ctx: CanvasRenderingContext2D, body: Matter.Body, dynamics: BodyDynamics) {
+  collectArrows(body, dynamics).forEach(arrow => drawForceArrow(ctx, arrow));
+
+  ctx.fillStyle = NET_COLOR;
+  ctx.beginPath();
+  ctx.arc(body.position.x, body.position.y, 3, 0, Math.PI * 2);
+  ctx.fill();
+}
+
+/**
+ * The diagram on its own, cropped around the body and its arrows, as a PNG data URL for lab
+ * reports.
+ */
+export function renderFreeBodyDiagramImage(body: Matter.Body, dynamics: BodyDynamics, title: string): string | undefined {
+  const arrows = collectArrows(body, dynamics);
+  const points = [
+    ...body.vertices.map(v => ({ x: v.x, y: v.y })),
+    ...arrows.flatMap(arrow => [arrow.from, arrow.to])
+  ];
+  const minX = Math.min(...points.map(p => p.x)) - EXPORT_PADDING;
+  const maxX = Math.max(...points.map(p => p.x)) + EXPORT_PADDING;
+  const minY = Math.min(...points.map(p => p.y)) - EXPORT_PADDING;
+  const maxY = Math.max(...points.map(p => p.y)) + EXPORT_PADDING;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.ceil(Math.max(maxX - minX, 320));
+  canvas.height = Math.ceil(maxY - minY + EXPORT_TITLE_HEIGHT);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return undefined;
+
+  ctx.fillStyle = '#070b14';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.fillStyle = NET_COLOR;
+  ctx.font = '600 13px Inter, sans-serif';
+  ctx.fillText(`Free-body diagram · ${title}`, 14, 22);
+  ctx.fillStyle = '#64748b';
+  ctx.font = '500 10px Inter, sans-serif';
+  ctx.fillText(`Arrow lengths share one scale; the weight arrow is ${WEIGHT_ARROW_LENGTH} px`, 14, 36);
+
+  ctx.translate(-minX, -minY + EXPORT_TITLE_HEIGHT);
+  const parts = body.parts.length > 1 ? body.parts.slice(1) : [body];
+  ctx.fillStyle = body.render.fillStyle ?? '#6366f1';
+  ctx.strokeStyle = body.render.strokeStyle ?? '#4f46e5';
+  ctx.lineWidth = 2;
+  parts.forEach(part => {
+    ctx.beginPath();
+    part.vertices.forEach((v, i) => (i === 0 ? ctx.moveTo(v.x, v.y) : ctx.lineTo(v.x, v.y)));
+    ctx.closePath();
+    ctx.globalAlpha = 0.35;
+    ctx.fill();
+    ctx.globalAlpha = 1;
+    ctx.stroke();
+  });
+  drawFreeBodyDiagram(ctx, body, dynamics);
+
+  return canvas.toDataURL('image/png');
+}
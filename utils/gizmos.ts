@@ -0,0 +1,116 @@
+import Matter from 'matter-js';
+import { ObjectDimensions, PhysicsObjectDefinition, SceneObject, Vector2D } from '../types';
+
+export type GizmoHandleKind = 'rotate' | 'width' | 'height' | 'corner' | 'radius';
+
+export interface GizmoHandle {
+  kind: GizmoHandleKind;
+  x: number;
+  y: number;
+}
+
+export const ROTATE_SNAP_DEGREES = 15;
+export const HANDLE_RADIUS = 7;
+const ROTATE_HANDLE_GAP = 28;
+const MIN_SIZE = 6;
+
+export function getObjectDimensions(sceneObj: SceneObject, def?: PhysicsObjectDefinition): ObjectDimensions {
+  return {
+    width: sceneObj.dimensions?.width ?? def?.width,
+    height: sceneObj.dimensions?.height ?? def?.height,
+    radius: sceneObj.dimensions?.radius ?? def?.radius
+  };
+}
+
+const isBoxShape = (def?: PhysicsObjectDefinition) => !def || def.type === 'rectangle' || def.type === 'trapezoid';
+
+/**
+ * Half extents of the body in its own (unrotated) frame.
+ */
+function localExtents(dims: ObjectDimensions, def?: PhysicsObjectDefinition): Vector2D {
+  if (isBoxShape(def)) {
+    return { x: (dims.width || 50) / 2, y: (dims.height || 50) / 2 };
+  }
+  const r = dims.radius || 30;
+  return { x: r, y: r };
+}
+
+const toWorld = (body: Matter.Body, local: Vector2D) =>
+  Matter.Vector.add(body.position, Matter.Vector.rotate(local, body.angle));
+
+export const toLocal = (body: Matter.Body, world: Vector2D) =>
+  Matter.Vector.rotate(Matter.Vector.sub(world, body.position), -body.angle);
+
+export function getGizmoHandles(
+  body: Matter.Body,
+  mode: 'rotate' | 'resize',
+  dims: ObjectDimensions,
+  def?: PhysicsObjectDefinition
+): GizmoHandle[] {
+  const extents = localExtents(dims, def);
+
+  if (mode === 'rotate') {
+    const p = toWorld(body, { x: 0, y: -(extents.y + ROTATE_HANDLE_GAP) });
+    return [{ kind: 'rotate', ...p }];
+  }
+
+  // Compound bodies and drawn outlines have no width or radius to drag
+  if (body.parts.length > 1 || def?.vertices) return [];
+
+  if (isBoxShape(def)) {
+    return [
+      { kind: 'width', ...toWorld(body, { x: extents.x, y: 0 }) },
+      { kind: 'height', ...toWorld(body, { x: 0, y: extents.y }) },
+      { kind: 'corner', ...toWorld(body, { x: extents.x, y: extents.y }) }
+    ];
+  }
+  return [{ kind: 'radius', ...toWorld(body, { x: extents.x, y: 0 }) }];
+}
+
+export function findHandleAt(handles: GizmoHandle[], point: Vector2D): GizmoHandle | null {
+  return handles.find(h => Math.hypot(h.x - point.x, h.y - point.y) <= HANDLE_RADIUS + 4) || null;
+}
+
+/**
+ * Angle of the rotate handle for a pointer position, snapped to 15° steps unless `fine` is set.
+ */
+export function rotationFromPointer(body: Matter.Body, pointer: Vector2D, fine: boolean): number {
+  const raw = Math.atan2(pointer.y - body.position.y, pointer.x - body.position.x) + Math.PI / 2;
+  const step = fine ? 1 : ROTATE_SNAP_DEGREES;
+  const degrees = Math.round((raw * 180 / Math.PI) / step) * step;
+  return degrees * Math.PI / 180;
+}
+
+export const formatDegrees = (angle: number) => {
+  const degrees = Math.round(angle * 180 / Math.PI) % 360;
+  return `${degrees < 0 ? degrees + 360 : degrees}°`;
+};
+
+export function dimensionsFromPointer(
+  body: Matter.Body,
+  handle: GizmoHandleKind,
+  pointer: Vector2D,
+  current: ObjectDimensions
+): ObjectDimensions {
+  const local = toLocal(body, pointer);
+  const next = { ...current };
+  if (handle === 'width' || handle === 'corner') next.width = Math.max(MIN_SIZE, Math.round(Math.abs(local.x) * 2));
+  if (handle === 'height' || handle === 'corner') next.height = Math.max(MIN_SIZE, Math.round(Math.abs(local.y) * 2));
+  if (handle === 'radius') next.radius = Math.max(MIN_SIZE, Math.round(Matter.Vector.magnitude(local)));
+  return next;
+}
+
+/**
+ * Rebuilds the body's geometry in place from a template body so its id, material,
+ * velocity and constraints all survive. Mass is recomputed from density and the new area.
+ */
+export function rebuildBodyGeometry(body: Matter.Body, template: Matter.Body) {
+  const vertices = template.vertices.map(v => ({ x: v.x - template.position.x, y: v.y - template.position.y }));
+  Matter.Vertices.rotate(vertices, body.angle, { x: 0, y: 0 });
+
+  const wasStatic = body.isStatic;
+  if (wasStatic) Matter.Body.setStatic(body, false);
+  Matter.Body.setVertices(body, vertices);
+  if (template.circleRadius) body.circleRadius = template.circleRadius;
+  if (wasStatic) Matter.Body.setStatic(body, true);
+}
@@ -0,0 +1,82 @@
+import { GraphDataPoint, PhysicsState } from '../types';
+import { GRAPH_COLUMNS, GraphColumn } from './dataExport';
+import { unitLabel } from './units';
+
+/** Series id of the whole scene's totals on the compare graph. */
+export const SYSTEM_SERIES_ID = 'system';
+export const SYSTEM_SERIES_COLOR = '#e2e8f0';
+
+export const SERIES_COLORS = ['#3b82f6', '#f97316', '#22c55e', '#ec4899', '#eab308', '#a855f7', '#14b8a6', '#ef4444'];
+
+/** Anything a compare graph axis can show. */
+export type GraphField = 'time' | GraphColumn;
+
+const columnOf = (field: GraphColumn) => GRAPH_COLUMNS.find(c => c.key === field)!;
+
+/** Unit of `field` in the current unit system. */
+export const graphFieldUnit = (field: GraphField) => field === 'time' ? 's' : unitLabel(columnOf(field).quantity);
+
+export const graphFieldLabel = (field: GraphField) =>
+  field === 'time' ? 'Time (s)' : `${columnOf(field).label} (${graphFieldUnit(field)})`;
+
+export const seriesColor = (id: string, index: number) =>
+  id === SYSTEM_SERIES_ID ? SYSTEM_SERIES_COLOR : SERIES_COLORS[index % SERIES_COLORS.length];
+
+export function graphPointFromState(state: PhysicsState, time: number): GraphDataPoint {
+  return {
+    time,
+    positionX: state.position.x,
+    positionY: state.position.y,
+    velocityX: state.velocity.x,
+    velocityY: state.velocity.y,
+    speed: state.speed,
+    accelerationX: state.acceleration.x,
+    accelerationY: state.acceleration.y,
+    netForceX: state.force.x,
+    netForceY: state.force.y,
+    momentumX: state.momentum.x,
+    momentumY: state.momentum.y,
+    kineticEnergy: state.kineticEnergy,
+    potentialEnergy: state.potentialEnergy,
+    totalEnergy: state.totalEnergy
+  };
+}
+
+/**
+ * The system as one body: position and velocity of its centre of mass, and its total
+ * momentum, net force and energies.
+ */
+export function systemGraphPoint(states: PhysicsState[], time: number): GraphDataPoint {
+  const totals = states.reduce((sum, s) => ({
+    mass: sum.mass + s.mass,
+    x: sum.x + s.mass * s.position.x,
+    y: sum.y + s.mass * s.position.y,
+    px: sum.px + s.momentum.x,
+    py: sum.py + s.momentum.y,
+    fx: sum.fx + s.force.x,
+    fy: sum.fy + s.force.y,
+    ke: sum.ke + s.kineticEnergy,
+    pe: sum.pe + s.potentialEnergy
+  }), { mass: 0, x: 0, y: 0, px: 0, py: 0, fx: 0, fy: 0, ke: 0, pe: 0 });
+  const mass = totals.mass || 1;
+  const vx = totals.px / mass;
+  const vy = totals.py / mass;
+
+  return {
+    time,
+    positionX: totals.x / mass,
+    positionY: totals.y / mass,
+    velocityX: vx,
+    velocityY: vy,
+    speed: Math.hypot(vx, vy),
+    accelerationX: totals.fx / mass,
+    accelerationY: totals.fy / mass,
+    netForceX: totals.fx,
+    netForceY: totals.fy,
+    momentumX: totals.px,
+    momentumY: totals.py,
+    kineticEnergy: totals.ke,
+    potentialEnergy: totals.pe,
+    totalEnergy: totals.ke + totals.pe
+  };
+}
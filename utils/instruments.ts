@@ -0,0 +1,267 @@
+import { Instrument, InstrumentType, MeasurementData, Vector2D } from '../types';
+import { getPixelsPerMeter, toMeters, formatLength, formatSeconds } from './units';
+
+export type InstrumentHandle = 'start' | 'end' | 'armB' | 'body';
+
+export const STOPWATCH_WIDTH = 124;
+export const STOPWATCH_HEIGHT = 46;
+
+const HANDLE_HIT_DISTANCE = 9;
+const PROTRACTOR_ARC_RADIUS = 36;
+// Ignore the trigger that started the stopwatch if the same body grazes a second sensor at once
+const MIN_STOPWATCH_RUN_MS = 50;
+
+const INSTRUMENT_COLORS: Record<InstrumentType, string> = {
+  ruler: '#38bdf8',
+  protractor: '#a78bfa',
+  stopwatch: '#34d399'
+};
+
+const generateId = () => `inst_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 7)}`;
+
+const distance = (a: Vector2D, b: Vector2D) => Math.hypot(a.x - b.x, a.y - b.y);
+
+function distanceToSegment(point: Vector2D, a: Vector2D, b: Vector2D) {
+  const lengthSq = (b.x - a.x) ** 2 + (b.y - a.y) ** 2;
+  const t = lengthSq > 0
+    ? Math.max(0, Math.min(1, ((point.x - a.x) * (b.x - a.x) + (point.y - a.y) * (b.y - a.y)) / lengthSq))
+    : 0;
+  return distance(point, { x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t });
+}
+
+export function createInstrument(
+  type: InstrumentType,
+  position: Vector2D,
+  end?: Vector2D,
+  armB?: Vector2D
+): Instrument {
+  const instrument: Instrument = {
+    id: generateId(),
+    type,
+    position: { ...position },
+    end: end ? { ...end } : { x: position.x + (type === 'ruler' ? 2 * getPixelsPerMeter() : 120), y: position.y },
+    armB: armB ? { ...armB } : { x: position.x + 85, y: position.y - 85 }
+  };
+  if (type === 'stopwatch') {
+    instrument.stopwatch = { state: 'idle', startedAt: 0, elapsed: 0 };
+  }
+  return instrument;
+}
+
+/**
+ * Finds the top-most instrument handle under a point. Later instruments draw on top, so
+ * they are checked first.
+ */
+export function findInstrumentHandle(
+  instruments: Instrument[],
+  point: Vector2D
+): { instrument: Instrument; handle: InstrumentHandle } | null {
+  for (let i = instruments.length - 1; i >= 0; i--) {
+    const instrument = instruments[i];
+    const { position, end, armB } = instrument;
+
+    if (instrument.type === 'stopwatch') {
+      if (point.x >= position.x && point.x <= position.x + STOPWATCH_WIDTH &&
+          point.y >= position.y && point.y <= position.y + STOPWATCH_HEIGHT) {
+        return { instrument, handle: 'body' };
+      }
+      continue;
+    }
+
+    if (distance(point, end) <= HANDLE_HIT_DISTANCE) return { instrument, handle: 'end' };
+    if (instrument.type === 'protractor') {
+      if (distance(point, armB) <= HANDLE_HIT_DISTANCE) return { instrument, handle: 'armB' };
+      if (distance(point, position) <= PROTRACTOR_ARC_RADIUS) return { instrument, handle: 'body' };
+    } else {
+      if (distance(point, position) <= HANDLE_HIT_DISTANCE) return { instrument, handle: 'start' };
+      if (distanceToSegment(point, position, end) <= HANDLE_HIT_DISTANCE) return { instrument, handle: 'body' };
+    }
+  }
+  return null;
+}
+
+export function dragInstrument(instrument: Instrument, handle: InstrumentHandle, point: Vector2D, delta: Vector2D) {
+  if (handle === 'start') {
+    instrument.position = { ...point };
+  } else if (handle === 'end') {
+    instrument.end = { ...point };
+    instrument.targetObjectId = undefined;
+  } else if (handle === 'armB') {
+    instrument.armB = { ...point };
+  } else {
+    const shift = (v: Vector2D) => ({ x: v.x + delta.x, y: v.y + delta.y });
+    instrument.position = shift(instrument.position);
+    instrument.end = shift(instrument.end);
+    instrument.armB = shift(instrument.armB);
+  }
+}
+
+const protractorAngle = ({ position, end, armB }: Instrument) => {
+  const a = Math.atan2(end.y - position.y, end.x - position.x);
+  const b = Math.atan2(armB.y - position.y, armB.x - position.x);
+  let diff = Math.abs(a - b);
+  if (diff > Math.PI) diff = 2 * Math.PI - diff;
+  return diff * 180 / Math.PI;
+};
+
+export function stopwatchElapsed(instrument: Instrument, now: number) {
+  const sw = instrument.stopwatch;
+  if (!sw) return 0;
+  return sw.state === 'running' ? now - sw.startedAt : sw.elapsed;
+}
+
+export function getInstrumentReading(instrument: Instrument, now: number): MeasurementData {
+  if (instrument.type === 'ruler') {
+    const pixels = distance(instrument.position, instrument.end);
+    return { type: 'distance', value: toMeters(pixels), unit: 'm', label: formatLength(pixels) };
+  }
+  if (instrument.type === 'protractor') {
+    const degrees = protractorAngle(instrument);
+    return { type: 'angle', value: degrees, unit: '°', label: `${degrees.toFixed(1)}°` };
+  }
+  const ms = stopwatchElapsed(instrument, now);
+  return { type: 'time', value: ms / 1000, unit: 's', label: formatSeconds(ms) };
+}
+
+/**
+ * Manual control from a click: start, then stop, then reset.
+ */
+export function toggleStopwatch(instrument: Instrument, now: number) {
+  const sw = instrument.stopwatch;
+  if (!sw) return;
+  if (sw.state === 'idle') {
+    instrument.stopwatch = { state: 'running', startedAt: now, elapsed: 0 };
+  } else if (sw.state === 'running') {
+    instrument.stopwatch = { ...sw, state: 'stopped', elapsed: now - sw.startedAt };
+  } else {
+    instrument.stopwatch = { state: 'idle', startedAt: 0, elapsed: 0 };
+  }
+}
+
+/**
+ * Called when a body enters any sensor. Idle stopwatches start and running ones stop;
+ * a stopped reading is kept until the user resets it.
+ */
+export function triggerStopwatches(instruments: Iterable<Instrument>, now: number) {
+  for (const instrument of instruments) {
+    const sw = instrument.stopwatch;
+    if (!sw) continue;
+    if (sw.state === 'idle') {
+      instrument.stopwatch = { state: 'running', startedAt: now, elapsed: 0 };
+    } else if (sw.state === 'running' && now - sw.startedAt >= MIN_STOPWATCH_RUN_MS) {
+      instrument.stopwatch = { ...sw, state: 'stopped', elapsed: now - sw.startedAt };
+    }
+  }
+}
+
+function drawLabel(ctx: CanvasRenderingContext2D, text: string, x: number, y: number, color: string) {
+  ctx.font = '600 12px JetBrains Mono, monospace';
+  const width = ctx.measureText(text).width;
+  ctx.fillStyle = 'rgba(15, 23, 42, 0.9)';
+  ctx.fillRect(x - width / 2 - 6, y - 10, width + 12, 20);
+  ctx.fillStyle = color;
+  ctx.textAlign = 'center';
+  ctx.fillText(text, x, y + 4);
+  ctx.textAlign = 'left';
+}
+
+function drawHandle(ctx: CanvasRenderingContext2D, point: Vector2D, color: string) {
+  ctx.fillStyle = '#0f172a';
+  ctx.strokeStyle = color;
+  ctx.lineWidth = 2;
+  ctx.beginPath();
+  ctx.arc(point.x, point.y, 5, 0, Math.PI * 2);
+  ctx.fill();
+  ctx.stroke();
+}
+
+function drawRuler(ctx: CanvasRenderingContext2D, instrument: Instrument, label: string) {
+  const { position: a, end: b } = instrument;
+  const color = INSTRUMENT_COLORS.ruler;
+  const length = distance(a, b);
+  const dir = length > 0 ? { x: (b.x - a.x) / length, y: (b.y - a.y) / length } : { x: 1, y: 0 };
+  const normal = { x: -dir.y, y: dir.x };
+
+  ctx.strokeStyle = color;
+  ctx.lineWidth = 2;
+  ctx.beginPath();
+  ctx.moveTo(a.x, a.y);
+  ctx.lineTo(b.x, b.y);
+  ctx.stroke();
+
+  // Minor ticks every 10 cm, major every 50 cm
+  ctx.lineWidth = 1;
+  const step = getPixelsPerMeter() / 10;
+  for (let d = 0, i = 0; d <= length; d += step, i++) {
+    const size = i % 5 === 0 ? 8 : 4;
+    const x = a.x + dir.x * d;
+    const y = a.y + dir.y * d;
+    ctx.beginPath();
+    ctx.moveTo(x, y);
+    ctx.lineTo(x + normal.x * size, y + normal.y * size);
+    ctx.stroke();
+  }
+
+  drawHandle(ctx, a, color);
+  drawHandle(ctx, b, color);
+  drawLabel(ctx, label, (a.x + b.x) / 2 - normal.x * 16, (a.y + b.y) / 2 - normal.y * 16, color);
+}
+
+function drawProtractor(ctx: CanvasRenderingContext2D, instrument: Instrument, label: string) {
+  const { position: v, end, armB } = instrument;
+  const color = INSTRUMENT_COLORS.protractor;
+  const a = Math.atan2(end.y - v.y, end.x - v.x);
+  const b = Math.atan2(armB.y - v.y, armB.x - v.x);
+  let sweep = b - a;
+  if (sweep > Math.PI) sweep -= 2 * Math.PI;
+  if (sweep < -Math.PI) sweep += 2 * Math.PI;
+
+  ctx.strokeStyle = color;
+  ctx.lineWidth = 2;
+  ctx.beginPath();
+  ctx.moveTo(end.x, end.y);
+  ctx.lineTo(v.x, v.y);
+  ctx.lineTo(armB.x, armB.y);
+  ctx.stroke();
+
+  ctx.fillStyle = `${color}33`;
+  ctx.beginPath();
+  ctx.moveTo(v.x, v.y);
+  ctx.arc(v.x, v.y, PROTRACTOR_ARC_RADIUS, a, a + sweep, sweep < 0);
+  ctx.closePath();
+  ctx.fill();
+  ctx.stroke();
+
+  drawHandle(ctx, end, color);
+  drawHandle(ctx, armB, color);
+  const mid = a + sweep / 2;
+  drawLabel(ctx, label, v.x + Math.cos(mid) * (PROTRACTOR_ARC_RADIUS + 26), v.y + Math.sin(mid) * (PROTRACTOR_ARC_RADIUS + 26), color);
+}
+
+function drawStopwatch(ctx: CanvasRenderingContext2D, instrument: Instrument, label: string) {
+  const { x, y } = instrument.position;
+  const state = instrument.stopwatch?.state ?? 'idle';
+  const color = state === 'running' ? INSTRUMENT_COLORS.stopwatch : state === 'stopped' ? '#f87171' : '#94a3b8';
+
+  ctx.fillStyle = 'rgba(15, 23, 42, 0.92)';
+  ctx.strokeStyle = color;
+  ctx.lineWidth = 2;
+  ctx.beginPath();
+  ctx.roundRect(x, y, STOPWATCH_WIDTH, STOPWATCH_HEIGHT, 8);
+  ctx.fill();
+  ctx.stroke();
+
+  ctx.fillStyle = '#64748b';
+  ctx.font = '600 9px Inter, sans-serif';
+  ctx.fillText(state === 'idle' ? 'STOPWATCH · WAITING' : `STOPWATCH · ${state.toUpperCase()}`, x + 10, y + 15);
+  ctx.fillStyle = color;
+  ctx.font = '600 16px JetBrains Mono, monospace';
+  ctx.fillText(label, x + 10, y + 36);
+}
+
+export function drawInstrument(ctx: CanvasRenderingContext2D, instrument: Instrument, now: number) {
+  const { label = '' } = getInstrumentReading(instrument, now);
+  if (instrument.type === 'ruler') drawRuler(ctx, instrument, label);
+  else if (instrument.type === 'protractor') drawProtractor(ctx, instrument, label);
+  else drawStopwatch(ctx, instrument, label);
+}
@@ -0,0 +1,30 @@
+import Matter from 'matter-js';
+import { findPairOverride } from './userMaterials';
+
+/**
+ * Matter gives every contact the lower of the two bodies' friction and the higher bounce,
+ * and works them out again every step just before solving, with no event in between. Pair
+ * overrides (rubber on ice) therefore wrap Pair.update and replace the combined values there.
+ *
+ * `materialOf` names a body's material; returns the function that takes the wrapper off.
+ */
+export function installPairOverrides(materialOf: (body: Matter.Body) => string | undefined): () => void {
+  const update = Matter.Pair.update;
+
+  Matter.Pair.update = (pair, collision, timestamp) => {
+    update(pair, collision, timestamp);
+    const override = findPairOverride(materialOf(pair.bodyA.parent), materialOf(pair.bodyB.parent));
+    if (override) {
+      pair.friction = override.friction;
+      pair.restitution = override.restitution;
+      // Matter's frictionStatic scales the kinetic value rather than replacing it
+      if (override.frictionStatic !== undefined) {
+        pair.frictionStatic = override.friction > 0 ? override.frictionStatic / override.friction : 0;
+      }
+    }
+  };
+
+  return () => {
+    Matter.Pair.update = update;
+  };
+}
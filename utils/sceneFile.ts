@@ -0,0 +1,339 @@
+import { ExperimentPreset, SceneSnapshot, ObjectDimensions, PhysicsObjectDefinition, VisualizationSettings } from '../types';
+import { getObjectById } from '../data/objects';
+import { isObjectDefinition } from './userObjects';
+import { CONSTRAINT_TYPES } from './constraints';
+import { createInstrument } from './instruments';
+import { slugify } from './download';
+
+export const SCENE_FILE_FORMAT = 'physlab-scene';
+export const SCENE_FILE_VERSION = 1;
+export const SCENE_FILE_EXTENSION = '.physlab.json';
+
+export type SceneFileObject = ExperimentPreset['objects'][number] & {
+  angularVelocity?: number;
+  dimensions?: ObjectDimensions;
+  material?: SceneSnapshot['objects'][number]['material'];
+  customData?: Record<string, unknown>;
+  /** Shape and options of a My Objects body, which other browsers don't have. */
+  definition?: PhysicsObjectDefinition;
+};
+
+export type SceneFileConstraint = ExperimentPreset['constraints'][number] & {
+  damping?: number;
+  railAngle?: number;
+  lockedAngle?: number;
+};
+
+/**
+ * On-disk scene format. An `ExperimentPreset` plus a format tag and version, with a few
+ * optional per-object extras so a round trip keeps resized bodies and tuned materials.
+ * Constraint points are offsets from the body centre, or world positions when the
+ * constraint has no body on that end.
+ */
+export interface SceneFile extends ExperimentPreset {
+  format: typeof SCENE_FILE_FORMAT;
+  version: number;
+  exportedAt: string;
+  objects: SceneFileObject[];
+  constraints: SceneFileConstraint[];
+}
+
+export class SceneFileError extends Error {
+  issues: string[];
+
+  constructor(issues: string[]) {
+    super(`Invalid scene file: ${issues[0]}${issues.length > 1 ? ` (+${issues.length - 1} more)` : ''}`);
+    this.name = 'SceneFileError';
+    this.issues = issues;
+  }
+}
+
+type Migration = (file: Record<string, unknown>) => Record<string, unknown>;
+
+/**
+ * Upgrades a file from version N to N + 1. Add an entry here whenever the schema changes
+ * so files written by older builds keep loading. Version 0 is a bare `ExperimentPreset`.
+ */
+const MIGRATIONS: Record<number, Migration> = {
+  0: (file) => ({
+    ...file,
+    format: SCENE_FILE_FORMAT,
+    version: 1,
+    exportedAt: file.exportedAt ?? new Date(0).toISOString(),
+    constraints: file.constraints ?? []
+  })
+};
+
+export const sceneFileName = (name: string) => `${slugify(name)}${SCENE_FILE_EXTENSION}`;
+
+export function sceneFileFromSnapshot(snapshot: SceneSnapshot, name: string): SceneFile {
+  const { objects, constraints, visualization } = snapshot;
+  return {
+    format: SCENE_FILE_FORMAT,
+    version: SCENE_FILE_VERSION,
+    exportedAt: new Date().toISOString(),
+    id: slugify(name),
+    name,
+    description: `${objects.length} objects, ${constraints.length} constraints`,
+    objects: objects.map(obj => ({
+      definitionId: obj.definitionId,
+      x: obj.position.x,
+      y: obj.position.y,
+      angle: obj.angle,
+      velocity: obj.velocity,
+      isStatic: obj.isStatic,
+      angularVelocity: obj.angularVelocity,
+      dimensions: obj.dimensions,
+      material: obj.material,
+      customData: obj.customData,
+      definition: obj.definition
+    })),
+    constraints: constraints.map(c => {
+      const bodyA = objects[c.objectAIndex].position;
+      const bodyB = c.objectBIndex !== undefined ? objects[c.objectBIndex].position : { x: 0, y: 0 };
+      return {
+        type: c.type,
+        objectAIndex: c.objectAIndex,
+        objectBIndex: c.objectBIndex,
+        pointA: { x: c.pointA.x - bodyA.x, y: c.pointA.y - bodyA.y },
+        pointB: { x: c.pointB.x - bodyB.x, y: c.pointB.y - bodyB.y },
+        length: c.length,
+        stiffness: c.stiffness,
+        damping: c.damping,
+        railAngle: c.railAngle,
+        lockedAngle: c.lockedAngle
+      };
+    }),
+    measurements: snapshot.instruments?.map(instrument => ({
+      type: instrument.type,
+      position: instrument.position,
+      end: instrument.end,
+      armB: instrument.armB,
+      targetObjectIndex: instrument.targetObjectIndex
+    })),
+    initialSettings: {
+      gravity: snapshot.gravity,
+      timeScale: snapshot.timeScale,
+      showVelocityVectors: visualization.showVelocityVectors,
+      showForceVectors: visualization.showForceVectors,
+      showMotionTrails: visualization.showMotionTrails,
+      showTrajectoryPrediction: visualization.showTrajectoryPrediction
+    }
+  };
+}
+
+/**
+ * Expands a scene file into a snapshot the canvas can load. Missing optional fields fall
+ * back to the object definition's defaults.
+ */
+export function snapshotFromSceneFile(file: SceneFile, visualization: VisualizationSettings): SceneSnapshot {
+  const settings = file.initialSettings ?? {};
+  const objects: SceneSnapshot['objects'] = file.objects.map(obj => {
+    const def = getObjectById(obj.definitionId) ?? obj.definition!;
+    const position = { x: obj.x, y: obj.y };
+    return {
+      definitionId: obj.definitionId,
+      position,
+      angle: obj.angle ?? 0,
+      velocity: obj.velocity ?? { x: 0, y: 0 },
+      angularVelocity: obj.angularVelocity ?? 0,
+      isStatic: obj.isStatic ?? def.options.isStatic ?? false,
+      initialPosition: position,
+      initialAngle: obj.angle ?? 0,
+      dimensions: obj.dimensions,
+      // A hand-edited file may set only some fields
+      material: {
+        friction: def.options.friction ?? 0.5,
+        frictionStatic: def.options.frictionStatic ?? 0.5,
+        frictionAir: def.options.frictionAir ?? 0.01,
+        restitution: def.options.restitution ?? 0.5,
+        ...obj.material
+      },
+      customData: obj.customData ?? { ...def.customData },
+      definition: obj.definition
+    };
+  });
+
+  const constraints: SceneSnapshot['constraints'] = file.constraints.map(c => {
+    const bodyA = objects[c.objectAIndex].position;
+    const bodyB = c.objectBIndex !== undefined ? objects[c.objectBIndex].position : { x: 0, y: 0 };
+    const offsetA = c.pointA ?? { x: 0, y: 0 };
+    const offsetB = c.pointB ?? { x: 0, y: 0 };
+    const pointA = { x: bodyA.x + offsetA.x, y: bodyA.y + offsetA.y };
+    const pointB = { x: bodyB.x + offsetB.x, y: bodyB.y + offsetB.y };
+    return {
+      type: c.type,
+      objectAIndex: c.objectAIndex,
+      objectBIndex: c.objectBIndex,
+      pointA,
+      pointB,
+      length: c.length ?? Math.hypot(pointA.x - pointB.x, pointA.y - pointB.y),
+      stiffness: c.stiffness ?? 1,
+      damping: c.damping ?? 0,
+      railAngle: c.railAngle,
+      lockedAngle: c.lockedAngle
+    };
+  });
+
+  const instruments = (file.measurements ?? []).flatMap(m =>
+    m.type === 'energy_display' ? [] : [{ ...createInstrument(m.type, m.position, m.end, m.armB), targetObjectIndex: m.targetObjectIndex }]
+  );
+
+  return {
+    objects,
+    constraints,
+    instruments,
+    gravity: settings.gravity ?? 1,
+    timeScale: settings.timeScale ?? 1,
+    visualization: {
+      ...visualization,
+      showVelocityVectors: settings.showVelocityVectors ?? visualization.showVelocityVectors,
+      showForceVectors: settings.showForceVectors ?? visualization.showForceVectors,
+      showMotionTrails: settings.showMotionTrails ?? visualization.showMotionTrails,
+      showTrajectoryPrediction: settings.showTrajectoryPrediction ?? visualization.showTrajectoryPrediction
+    }
+  };
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const isVector = (value: unknown) => isRecord(value) && isNumber(value.x) && isNumber(value.y);
+
+const MATERIAL_FIELDS = ['friction', 'frictionStatic', 'frictionAir', 'restitution'];
+const DIMENSION_FIELDS = ['width', 'height', 'radius'];
+
+function validateSceneFile(file: Record<string, unknown>): string[] {
+  const issues: string[] = [];
+  const expect = (ok: boolean, message: string) => { if (!ok) issues.push(message); };
+  const optional = (value: unknown, check: (v: unknown) => boolean) => value === undefined || check(value);
+
+  expect(typeof file.name === 'string', '"name" must be a string');
+  if (!Array.isArray(file.objects)) {
+    issues.push('"objects" must be an array');
+    return issues;
+  }
+  if (!Array.isArray(file.constraints)) {
+    issues.push('"constraints" must be an array');
+    return issues;
+  }
+
+  file.objects.forEach((obj: unknown, i: number) => {
+    const path = `objects[${i}]`;
+    if (!isRecord(obj)) {
+      issues.push(`${path} must be an object`);
+      return;
+    }
+    if (typeof obj.definitionId !== 'string') issues.push(`${path}.definitionId must be a string`);
+    else {
+      const carried = isObjectDefinition(obj.definition) && obj.definition.id === obj.definitionId;
+      expect(!!getObjectById(obj.definitionId) || carried, `${path}.definitionId "${obj.definitionId}" is not a known object`);
+    }
+    expect(optional(obj.definition, isObjectDefinition), `${path}.definition must be an object definition`);
+    expect(isNumber(obj.x) && isNumber(obj.y), `${path} needs numeric "x" and "y"`);
+    expect(optional(obj.angle, isNumber), `${path}.angle must be a number`);
+    expect(optional(obj.velocity, isVector), `${path}.velocity must be { x, y }`);
+    expect(optional(obj.isStatic, v => typeof v === 'boolean'), `${path}.isStatic must be true or false`);
+    expect(optional(obj.material, isRecord), `${path}.material must be an object`);
+    if (isRecord(obj.material)) {
+      const material = obj.material;
+      MATERIAL_FIELDS.forEach(field => {
+        expect(optional(material[field], v => isNumber(v) && v >= 0), `${path}.material.${field} must be a number of at least 0`);
+      });
+      expect(optional(material.mass, v => isNumber(v) && v > 0), `${path}.material.mass must be a number above 0`);
+    }
+    expect(optional(obj.dimensions, isRecord), `${path}.dimensions must be an object`);
+    if (isRecord(obj.dimensions)) {
+      const dimensions = obj.dimensions;
+      DIMENSION_FIELDS.forEach(field => {
+        expect(optional(dimensions[field], v => isNumber(v) && v > 0), `${path}.dimensions.${field} must be a number above 0`);
+      });
+    }
+    expect(optional(obj.customData, isRecord), `${path}.customData must be an object`);
+  });
+
+  const objectCount = file.objects.length;
+  const isIndex = (v: unknown) => isNumber(v) && Number.isInteger(v) && v >= 0 && v < objectCount;
+  const knownTypes = CONSTRAINT_TYPES.map(t => t.type as string);
+
+  file.constraints.forEach((c: unknown, i: number) => {
+    const path = `constraints[${i}]`;
+    if (!isRecord(c)) {
+      issues.push(`${path} must be an object`);
+      return;
+    }
+    expect(knownTypes.includes(c.type as string), `${path}.type must be one of ${knownTypes.join(', ')}`);
+    expect(isIndex(c.objectAIndex), `${path}.objectAIndex must point at one of the ${objectCount} objects`);
+    expect(optional(c.objectBIndex, isIndex), `${path}.objectBIndex must point at one of the ${objectCount} objects`);
+    expect(optional(c.pointA, isVector), `${path}.pointA must be { x, y }`);
+    expect(optional(c.pointB, isVector), `${path}.pointB must be { x, y }`);
+    expect(optional(c.length, isNumber), `${path}.length must be a number`);
+    expect(optional(c.stiffness, isNumber), `${path}.stiffness must be a number`);
+    expect(optional(c.damping, isNumber), `${path}.damping must be a number`);
+    expect(optional(c.railAngle, isNumber), `${path}.railAngle must be a number`);
+    expect(optional(c.lockedAngle, isNumber), `${path}.lockedAngle must be a number`);
+  });
+
+  if (file.measurements !== undefined) {
+    if (!Array.isArray(file.measurements)) {
+      issues.push('"measurements" must be an array');
+    } else {
+      const measurementTypes = ['ruler', 'protractor', 'stopwatch', 'energy_display'];
+      file.measurements.forEach((m: unknown, i: number) => {
+        const path = `measurements[${i}]`;
+        if (!isRecord(m)) {
+          issues.push(`${path} must be an object`);
+          return;
+        }
+        expect(measurementTypes.includes(m.type as string), `${path}.type must be one of ${measurementTypes.join(', ')}`);
+        expect(isVector(m.position), `${path}.position must be { x, y }`);
+        expect(optional(m.end, isVector), `${path}.end must be { x, y }`);
+        expect(optional(m.armB, isVector), `${path}.armB must be { x, y }`);
+        expect(optional(m.targetObjectIndex, isIndex), `${path}.targetObjectIndex must point at one of the ${objectCount} objects`);
+      });
+    }
+  }
+
+  expect(optional(file.initialSettings, isRecord), '"initialSettings" must be an object');
+  if (isRecord(file.initialSettings)) {
+    expect(optional(file.initialSettings.gravity, isNumber), 'initialSettings.gravity must be a number');
+    expect(optional(file.initialSettings.timeScale, isNumber), 'initialSettings.timeScale must be a number');
+  }
+
+  return issues;
+}
+
+/**
+ * Parses, migrates and validates the text of a scene file.
+ * Throws a `SceneFileError` listing every problem found.
+ */
+export function parseSceneFile(text: string): SceneFile {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new SceneFileError(['the file is not valid JSON']);
+  }
+  if (!isRecord(data)) throw new SceneFileError(['the file does not contain a scene object']);
+  if (data.format !== undefined && data.format !== SCENE_FILE_FORMAT) {
+    throw new SceneFileError([`unrecognised format "${String(data.format)}"`]);
+  }
+
+  let file = data;
+  let version = isNumber(file.version) ? file.version : 0;
+  if (version > SCENE_FILE_VERSION) {
+    throw new SceneFileError([`file version ${version} is newer than this app supports (${SCENE_FILE_VERSION})`]);
+  }
+  while (version < SCENE_FILE_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) throw new SceneFileError([`no migration from version ${version}`]);
+    file = migrate(file);
+    version += 1;
+  }
+
+  const issues = validateSceneFile(file);
+  if (issues.length > 0) throw new SceneFileError(issues);
+  return file as unknown as SceneFile;
+}
@@ -0,0 +1,82 @@
+import { SavedScene, SceneSnapshot } from '../types';
+
+const STORAGE_KEY = 'physics-lab.savedScenes';
+
+const generateId = () => `scene_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 7)}`;
+
+export function listSavedScenes(): SavedScene[] {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const scenes = raw ? JSON.parse(raw) : [];
+    return Array.isArray(scenes)
+      ? [...scenes].sort((a: SavedScene, b: SavedScene) => b.updatedAt - a.updatedAt)
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+function writeSavedScenes(scenes: SavedScene[]) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(scenes));
+  } catch {
+    throw new Error('Browser storage is full. Delete a few saved scenes and try again.');
+  }
+}
+
+export function saveScene(name: string, snapshot: SceneSnapshot, thumbnail?: string): SavedScene {
+  const now = Date.now();
+  const scene: SavedScene = {
+    id: generateId(),
+    name: name.trim() || 'Untitled scene',
+    thumbnail,
+    createdAt: now,
+    updatedAt: now,
+    sceneData: JSON.stringify(snapshot)
+  };
+  writeSavedScenes([scene, ...listSavedScenes()]);
+  return scene;
+}
+
+export function renameSavedScene(id: string, name: string) {
+  const trimmed = name.trim();
+  if (!trimmed) return;
+  writeSavedScenes(listSavedScenes().map(scene =>
+    scene.id === id ? { ...scene, name: trimmed, updatedAt: Date.now() } : scene
+  ));
+}
+
+export function duplicateSavedScene(id: string): SavedScene | null {
+  const scenes = listSavedScenes();
+  const original = scenes.find(scene => scene.id === id);
+  if (!original) return null;
+
+  const now = Date.now();
+  const copy: SavedScene = {
+    ...original,
+    id: generateId(),
+    name: `${original.name} (copy)`,
+    createdAt: now,
+    updatedAt: now
+  };
+  writeSavedScenes([copy, ...scenes]);
+  return copy;
+}
+
+export function deleteSavedScene(id: string) {
+  writeSavedScenes(listSavedScenes().filter(scene => scene.id !== id));
+}
+
+/**
+ * Returns the stored snapshot, or null when the entry is unreadable.
+ */
+export function parseSceneData(scene: SavedScene): SceneSnapshot | null {
+  try {
+    const snapshot = JSON.parse(scene.sceneData);
+    return snapshot && Array.isArray(snapshot.objects) && Array.isArray(snapshot.constraints)
+      ? snapshot as SceneSnapshot
+      : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,87 @@
+import Matter from 'matter-js';
+import { PhysicsState, SceneObject, SensorReading, SensorType } from '../types';
+import { getObjectById } from '../data/objects';
+import { formatQuantity } from './units';
+
+export interface SensorState {
+  /** Bodies currently overlapping the sensor. */
+  occupants: Set<number>;
+  passes: number;
+  lastReading?: SensorReading;
+}
+
+export const MAX_SENSOR_LOG = 200;
+
+const SENSOR_COLORS: Record<SensorType, string> = {
+  speed_gate: '#fbbf24',
+  energy_meter: '#34d399'
+};
+
+const generateId = () => `reading_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 7)}`;
+
+export const formatSpeed = (speed: number) => formatQuantity('velocity', speed);
+export const formatEnergy = (joules: number) => formatQuantity('energy', joules, 1);
+
+/**
+ * Scenes saved before sensors reported anything have no sensorType in their custom data,
+ * so fall back to the object definition.
+ */
+export function getSensorType(sceneObj: SceneObject): SensorType | undefined {
+  return (sceneObj.customData.sensorType as SensorType | undefined)
+    ?? getObjectById(sceneObj.definitionId)?.customData?.sensorType;
+}
+
+/**
+ * Splits a collision pair into the sensor and the body that touched it. Pairs between two
+ * sensors, or with no sensor at all, return null.
+ */
+export function matchSensorPair(pair: Matter.Pair): { sensor: Matter.Body; body: Matter.Body } | null {
+  const a = pair.bodyA.parent;
+  const b = pair.bodyB.parent;
+  if (a.isSensor && !b.isSensor) return { sensor: a, body: b };
+  if (b.isSensor && !a.isSensor) return { sensor: b, body: a };
+  return null;
+}
+
+export function createSensorReading(
+  sensor: SceneObject,
+  sensorType: SensorType,
+  body: Matter.Body,
+  state: PhysicsState,
+  time: number
+): SensorReading {
+  return {
+    id: generateId(),
+    sensorId: sensor.id,
+    sensorType,
+    sensorLabel: sensor.body.label,
+    bodyId: body.id.toString(),
+    bodyLabel: body.label,
+    time,
+    speed: state.speed,
+    kineticEnergy: state.kineticEnergy,
+    potentialEnergy: state.potentialEnergy
+  };
+}
+
+export function drawSensorLabel(ctx: CanvasRenderingContext2D, sensor: Matter.Body, sensorType: SensorType, lines: string[]) {
+  const color = SENSOR_COLORS[sensorType];
+  ctx.font = '600 11px JetBrains Mono, monospace';
+  const width = Math.max(...lines.map(line => ctx.measureText(line).width)) + 14;
+  const height = lines.length * 14 + 8;
+  const x = sensor.position.x - width / 2;
+  const y = sensor.bounds.min.y - height - 8;
+
+  ctx.fillStyle = 'rgba(15, 23, 42, 0.9)';
+  ctx.strokeStyle = color;
+  ctx.lineWidth = 1;
+  ctx.beginPath();
+  ctx.roundRect(x, y, width, height, 6);
+  ctx.fill();
+  ctx.stroke();
+
+  ctx.fillStyle = color;
+  ctx.textAlign = 'center';
+  lines.forEach((line, i) => ctx.fillText(line, sensor.position.x, y + 15 + i * 14));
+  ctx.textAlign = 'left';
+}
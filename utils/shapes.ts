@@ -0,0 +1,71 @@
+import Matter from 'matter-js';
+import decomp from 'poly-decomp';
+import { ShapeSpec, Vector2D } from '../types';
+
+// Bodies.fromVertices splits concave outlines into convex parts with these poly-decomp calls
+const matterDecomp: Pick<typeof decomp, 'quickDecomp' | 'makeCCW' | 'removeCollinearPoints' | 'removeDuplicatePoints'> = decomp;
+Matter.Common.setDecomp(matterDecomp);
+
+/** Matter's default trapezoid slope: the top edge is half the width. */
+export const DEFAULT_TRAPEZOID_SLOPE = 0.5;
+
+/**
+ * A body of `shape` centred at (x, y). Compound parts are built the same way and glued into
+ * one rigid body; a concave outline comes back as a body with one part per convex piece.
+ */
+export function createShapeBody(shape: ShapeSpec, x: number, y: number, options: Matter.IBodyDefinition): Matter.Body | null {
+  if (shape.type === 'rectangle') {
+    const width = shape.width || 50;
+    const height = shape.height || 50;
+    return Matter.Bodies.rectangle(x, y, width, height, {
+      ...options,
+      chamfer: { radius: Math.min(width, height) * 0.08 }
+    });
+  }
+  if (shape.type === 'circle') return Matter.Bodies.circle(x, y, shape.radius || 25, options);
+  if (shape.type === 'trapezoid') {
+    return Matter.Bodies.trapezoid(x, y, shape.width || 60, shape.height || 40, shape.slope ?? DEFAULT_TRAPEZOID_SLOPE, options);
+  }
+  if (shape.type === 'polygon') {
+    if (shape.vertices && shape.vertices.length >= 3) {
+      return Matter.Bodies.fromVertices(x, y, [shape.vertices], options);
+    }
+    return Matter.Bodies.polygon(x, y, shape.sides || 3, shape.radius || 30, options);
+  }
+  if (shape.type === 'compound' && shape.parts && shape.parts.length > 0) {
+    // A concave part is itself a compound; only its convex pieces can be glued in
+    const unlocked = { ...options, isStatic: false };
+    const parts = shape.parts.flatMap(part => {
+      const body = createShapeBody(part, part.x, part.y, unlocked);
+      if (!body) return [];
+      return body.parts.length > 1 ? body.parts.slice(1) : [body];
+    });
+    if (parts.length === 0) return null;
+    // Locked only once the mass is known, so unlocking it later gives that mass back
+    const body = Matter.Body.create({ ...unlocked, parts });
+    Matter.Body.setPosition(body, { x, y });
+    if (options.isStatic) Matter.Body.setStatic(body, true);
+    return body;
+  }
+  return null;
+}
+
+/** Outlines of the convex pieces `shape` is simulated as, centred on its centre of mass. */
+export function shapeOutlines(shape: ShapeSpec): Vector2D[][] {
+  const body = createShapeBody(shape, 0, 0, {});
+  if (!body) return [];
+  const parts = body.parts.length > 1 ? body.parts.slice(1) : [body];
+  return parts.map(part => part.vertices.map(v => ({ x: v.x - body.position.x, y: v.y - body.position.y })));
+}
+
+/** True when no two edges of the closed outline cross, which decomposition needs. */
+export function isSimpleOutline(vertices: Vector2D[]): boolean {
+  return decomp.isSimple(vertices.map(v => [v.x, v.y]));
+}
+
+/** Size of the box around `shape` and the area it is simulated with, in px. */
+export function shapeExtent(shape: ShapeSpec): { width: number; height: number; area: number } | null {
+  const body = createShapeBody(shape, 0, 0, {});
+  if (!body) return null;
+  return { width: body.bounds.max.x - body.bounds.min.x, height: body.bounds.max.y - body.bounds.min.y, area: body.area };
+}
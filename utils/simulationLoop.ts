@@ -0,0 +1,66 @@
+import Matter from 'matter-js';
+
+/** Every engine step covers this much real time (ms); the engine's timeScale stretches it. */
+export const FIXED_TIMESTEP = 1000 / 60;
+export const DEFAULT_SEED = 1;
+
+// A slow frame (tab in the background, a debugger pause) must not be made up all at once
+const MAX_FRAME_TIME = 250;
+const MAX_STEPS_PER_FRAME = 8;
+
+export interface SimulationLoop {
+  enabled: boolean;
+  /** Advances exactly one fixed step, paused or not. */
+  step: () => void;
+  stop: () => void;
+}
+
+/**
+ * Drives the engine with fixed steps from an accumulator instead of the frame delta, so a
+ * scene plays out the same on a 60 Hz laptop and a 144 Hz monitor.
+ */
+export function createSimulationLoop(engine: Matter.Engine): SimulationLoop {
+  let accumulator = 0;
+  let lastTime: number | null = null;
+  let frame = 0;
+
+  const loop: SimulationLoop = {
+    enabled: true,
+    step: () => Matter.Engine.update(engine, FIXED_TIMESTEP),
+    stop: () => cancelAnimationFrame(frame)
+  };
+
+  const tick = (time: number) => {
+    frame = requestAnimationFrame(tick);
+    const elapsed = lastTime === null ? 0 : Math.min(time - lastTime, MAX_FRAME_TIME);
+    lastTime = time;
+
+    if (!loop.enabled) {
+      accumulator = 0;
+      return;
+    }
+
+    accumulator += elapsed;
+    let steps = 0;
+    while (accumulator >= FIXED_TIMESTEP && steps < MAX_STEPS_PER_FRAME) {
+      loop.step();
+      accumulator -= FIXED_TIMESTEP;
+      steps++;
+    }
+    if (steps === MAX_STEPS_PER_FRAME) accumulator = 0;
+  };
+
+  frame = requestAnimationFrame(tick);
+  return loop;
+}
+
+/** Seconds of simulated time, which stand still while paused and slow down with timeScale. */
+export const getSimulationTime = (engine: Matter.Engine) => engine.timing.timestamp / 1000;
+
+/**
+ * Matter draws from its own seeded generator (Common.random); resetting the seed alongside
+ * the scene makes a run repeatable.
+ */
+export function seedSimulation(seed: number = DEFAULT_SEED) {
+  (Matter.Common as unknown as { _seed: number })._seed = seed;
+}
@@ -0,0 +1,121 @@
+import Matter from 'matter-js';
+import { EmitterState } from './emitters';
+import { FIXED_TIMESTEP } from './simulationLoop';
+
+export interface TimelineFrame {
+  /** Simulation ms. */
+  time: number;
+  /** Bodies in the order they were recorded; see BODY_STRIDE for the layout. */
+  bodies: Float64Array;
+  /** Rocket fuel left per body, so a rewound rocket burns again. */
+  fuel: [number, number][];
+  /** Which bodies were in the scene; frames share one string while that doesn't change. */
+  signature: string;
+}
+
+export interface SceneRecorder {
+  /** Frames held, oldest first. */
+  size: () => number;
+  frame: (index: number) => TimelineFrame | undefined;
+  /**
+   * Stores one step. Frames from before an object was added or removed stay viewable, but
+   * only frames with the current set of bodies can be simulated onward; see frameMatchesScene.
+   */
+  record: (time: number, bodies: Matter.Body[], emitterState: EmitterState) => void;
+  /** Drops every frame after `index`, for simulating onward from it. */
+  truncate: (index: number) => void;
+  clear: () => void;
+}
+
+/** One minute of simulated time at the fixed step. */
+export const DEFAULT_TIMELINE_FRAMES = Math.round(60_000 / FIXED_TIMESTEP);
+
+// id, x, y, angle, velocity x, velocity y, angular velocity
+const BODY_STRIDE = 7;
+
+const signatureOf = (bodies: Matter.Body[]) => bodies.map(b => b.id).sort((a, b) => a - b).join(',');
+
+/**
+ * A ring buffer of whole-scene snapshots, one per engine step. Once full, the oldest frame
+ * is overwritten.
+ */
+export function createSceneRecorder(capacity: number = DEFAULT_TIMELINE_FRAMES): SceneRecorder {
+  const frames: TimelineFrame[] = new Array(capacity);
+  let start = 0;
+  let count = 0;
+  let signature = '';
+
+  const recorder: SceneRecorder = {
+    size: () => count,
+
+    frame: (index) => (index >= 0 && index < count ? frames[(start + index) % capacity] : undefined),
+
+    record: (time, bodies, emitterState) => {
+      const bodySignature = signatureOf(bodies);
+      if (bodySignature !== signature) signature = bodySignature;
+
+      const data = new Float64Array(bodies.length * BODY_STRIDE);
+      bodies.forEach((body, i) => {
+        data.set([
+          body.id,
+          body.position.x,
+          body.position.y,
+          body.angle,
+          body.velocity.x,
+          body.velocity.y,
+          body.angularVelocity
+        ], i * BODY_STRIDE);
+      });
+      const frame: TimelineFrame = { time, bodies: data, fuel: [...emitterState.fuel], signature };
+
+      if (count < capacity) {
+        frames[(start + count) % capacity] = frame;
+        count++;
+      } else {
+        frames[start] = frame;
+        start = (start + 1) % capacity;
+      }
+    },
+
+    truncate: (index) => {
+      count = Math.max(0, Math.min(count, index + 1));
+    },
+
+    clear: () => {
+      start = 0;
+      count = 0;
+      signature = '';
+    }
+  };
+  return recorder;
+}
+
+/** True when `frame` holds exactly `bodies`, so the scene can carry on from it. */
+export const frameMatchesScene = (frame: TimelineFrame, bodies: Matter.Body[]) =>
+  frame.signature === signatureOf(bodies);
+
+/** Newest frame at or before `time` (simulation ms), by binary search. */
+export function frameIndexAt(recorder: SceneRecorder, time: number): number {
+  let low = 0;
+  let high = recorder.size() - 1;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (recorder.frame(mid)!.time <= time) low = mid;
+    else high = mid - 1;
+  }
+  return Math.max(0, low);
+}
+
+/** Puts every recorded body back where the frame has it, moving as it was then. */
+export function restoreFrame(frame: TimelineFrame, bodies: Map<number, Matter.Body>, emitterState: EmitterState) {
+  for (let i = 0; i < frame.bodies.length; i += BODY_STRIDE) {
+    const body = bodies.get(frame.bodies[i]);
+    if (!body) continue;
+    Matter.Body.setPosition(body, { x: frame.bodies[i + 1], y: frame.bodies[i + 2] });
+    Matter.Body.setAngle(body, frame.bodies[i + 3]);
+    Matter.Body.setVelocity(body, { x: frame.bodies[i + 4], y: frame.bodies[i + 5] });
+    Matter.Body.setAngularVelocity(body, frame.bodies[i + 6]);
+  }
+  emitterState.fuel.clear();
+  frame.fuel.forEach(([id, remaining]) => emitterState.fuel.set(id, remaining));
+}
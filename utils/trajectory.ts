@@ -0,0 +1,172 @@
+import Matter from 'matter-js';
+import { SceneObject, Vector2D } from '../types';
+import { EmitterState, applyEmitterForces, getEmitterType } from './emitters';
+import { applyFluidForces } from './fluids';
+import { FIXED_TIMESTEP } from './simulationLoop';
+import { formatLength } from './units';
+
+export interface TrajectoryPrediction {
+  /** Canvas pixels, one per fixed step, starting at the body. */
+  points: Vector2D[];
+  /** Highest point, when the body rises above where it starts. */
+  apex?: Vector2D;
+  /** Where the body first touches a static obstacle. */
+  landing?: Vector2D;
+}
+
+export const DEFAULT_PREDICTION_SECONDS = 3;
+
+// Paths leaving the canvas by more than this are cut off there
+const OFFSCREEN_MARGIN = 200;
+const PATH_COLOR = '#c4b5fd';
+const MARKER_COLOR = '#a78bfa';
+
+const bodyParts = (body: Matter.Body) => body.parts.length > 1 ? body.parts.slice(1) : [body];
+
+/**
+ * A copy of `body` for a scratch world: same shape, mass, inertia and material, rebuilt from
+ * its world vertices so the original is never touched.
+ */
+function cloneBody(body: Matter.Body, isStatic: boolean): Matter.Body {
+  const parts = bodyParts(body).map(part => Matter.Body.create({
+    position: { ...part.position },
+    vertices: part.vertices.map(v => ({ x: v.x, y: v.y }))
+  }));
+  const clone = parts.length > 1 ? Matter.Body.create({ parts }) : parts[0];
+
+  if (isStatic) {
+    Matter.Body.setStatic(clone, true);
+  } else {
+    Matter.Body.setMass(clone, body.mass);
+    Matter.Body.setInertia(clone, body.inertia);
+  }
+  clone.friction = body.friction;
+  clone.frictionStatic = body.frictionStatic;
+  clone.frictionAir = body.frictionAir;
+  clone.restitution = body.restitution;
+  clone.collisionFilter = { ...body.collisionFilter };
+  // The vertices already carry the rotation; only the angle itself needs copying
+  clone.angle = body.angle;
+  (clone as Matter.Body & { anglePrev: number }).anglePrev = body.angle;
+  return clone;
+}
+
+/**
+ * Runs `body` forward on its own in a cloned world, from `velocity` (px per step), under the
+ * engine's gravity, its air drag, the scene's emitters and fluids, and with every static
+ * body as an obstacle. Other moving bodies are left out. Stops at the first contact with an
+ * obstacle, after `seconds` of simulated time, or once the body is well off the canvas.
+ */
+export function predictTrajectory(
+  engine: Matter.Engine,
+  body: Matter.Body,
+  velocity: Vector2D,
+  sceneObjects: Map<number, SceneObject>,
+  emitterState: EmitterState,
+  canvasSize: { width: number; height: number },
+  seconds: number = DEFAULT_PREDICTION_SECONDS
+): TrajectoryPrediction {
+  const scratch = Matter.Engine.create({ enableSleeping: false });
+  scratch.gravity.x = engine.gravity.x;
+  scratch.gravity.y = engine.gravity.y;
+  scratch.gravity.scale = engine.gravity.scale;
+  scratch.timing.timestamp = engine.timing.timestamp;
+
+  const obstacles = Matter.Composite.allBodies(engine.world)
+    .filter(b => b !== body && b.isStatic && !b.isSensor)
+    .map(b => cloneBody(b, true));
+  const clone = cloneBody(body, false);
+  Matter.Body.setVelocity(clone, velocity);
+  Matter.Body.setAngularVelocity(clone, body.angularVelocity);
+  Matter.Composite.add(scratch.world, [...obstacles, clone]);
+
+  // Emitters and tanks act from where they are now; another body's rocket would push the
+  // real body, so only the predicted body's own rocket comes along
+  const objects = new Map<number, SceneObject>();
+  sceneObjects.forEach((sceneObj, id) => {
+    if (sceneObj.body === body) objects.set(clone.id, { ...sceneObj, body: clone });
+    else if (getEmitterType(sceneObj) !== 'rocket') objects.set(id, sceneObj);
+  });
+  const fuel: EmitterState = { fuel: new Map() };
+  const remaining = emitterState.fuel.get(body.id);
+  if (remaining !== undefined) fuel.fuel.set(clone.id, remaining);
+
+  const points: Vector2D[] = [{ ...clone.position }];
+  let landing: Vector2D | undefined;
+  const steps = Math.ceil(seconds * 1000 / FIXED_TIMESTEP);
+
+  for (let i = 0; i < steps && !landing; i++) {
+    applyEmitterForces(objects, [clone], fuel, scratch.timing.timestamp, FIXED_TIMESTEP);
+    applyFluidForces(objects, [clone], scratch.gravity);
+    Matter.Engine.update(scratch, FIXED_TIMESTEP);
+    points.push({ ...clone.position });
+
+    const hit = (scratch.pairs.list as Matter.Pair[]).find(pair => pair.isActive && !pair.isSensor);
+    if (hit) {
+      const count = (hit as Matter.Pair & { contactCount?: number }).contactCount ?? hit.contacts.length;
+      const contacts = hit.contacts.slice(0, count);
+      landing = contacts.length > 0
+        ? {
+            x: contacts.reduce((sum, c) => sum + c.vertex.x, 0) / contacts.length,
+            y: contacts.reduce((sum, c) => sum + c.vertex.y, 0) / contacts.length
+          }
+        : { ...clone.position };
+    }
+
+    const { x, y } = clone.position;
+    if (x < -OFFSCREEN_MARGIN || x > canvasSize.width + OFFSCREEN_MARGIN || y > canvasSize.height + OFFSCREEN_MARGIN) break;
+  }
+
+  Matter.Composite.clear(scratch.world, false);
+  Matter.Engine.clear(scratch);
+
+  const highest = points.reduce((top, p) => (p.y < top.y ? p : top), points[0]);
+  return {
+    points,
+    apex: highest.y < points[0].y - 1 ? highest : undefined,
+    landing
+  };
+}
+
+function drawMarker(ctx: CanvasRenderingContext2D, point: Vector2D, label: string) {
+  ctx.fillStyle = MARKER_COLOR;
+  ctx.strokeStyle = '#070b14';
+  ctx.lineWidth = 1.5;
+  ctx.beginPath();
+  ctx.arc(point.x, point.y, 4, 0, Math.PI * 2);
+  ctx.fill();
+  ctx.stroke();
+
+  ctx.font = '600 10px JetBrains Mono, monospace';
+  const width = ctx.measureText(label).width + 10;
+  ctx.fillStyle = 'rgba(15, 23, 42, 0.85)';
+  ctx.fillRect(point.x - width / 2, point.y - 26, width, 16);
+  ctx.fillStyle = '#ede9fe';
+  ctx.textAlign = 'center';
+  ctx.fillText(label, point.x, point.y - 14);
+  ctx.textAlign = 'left';
+}
+
+/**
+ * The predicted path as a dashed ghost line, with the apex height and the range to the
+ * landing point measured from where the body starts.
+ */
+export function drawTrajectory(ctx: CanvasRenderingContext2D, prediction: TrajectoryPrediction) {
+  const { points, apex, landing } = prediction;
+  if (points.length < 2) return;
+  const start = points[0];
+
+  ctx.strokeStyle = PATH_COLOR;
+  ctx.globalAlpha = 0.7;
+  ctx.lineWidth = 2;
+  ctx.setLineDash([4, 6]);
+  ctx.beginPath();
+  ctx.moveTo(start.x, start.y);
+  points.slice(1).forEach(p => ctx.lineTo(p.x, p.y));
+  ctx.stroke();
+  ctx.setLineDash([]);
+  ctx.globalAlpha = 1;
+
+  if (apex) drawMarker(ctx, apex, `apex ↑${formatLength(start.y - apex.y)}`);
+  if (landing) drawMarker(ctx, landing, `range ${formatLength(Math.abs(landing.x - start.x))}`);
+}
@@ -0,0 +1,60 @@
+import { UndoAction } from '../types';
+
+export interface HistoryEntry extends UndoAction {
+  undo: () => void;
+  redo: () => void;
+  /**
+   * Consecutive entries sharing a key (one slider drag, say) collapse into a single step
+   * that undoes back to the value before the first of them.
+   */
+  mergeKey?: string;
+}
+
+export interface UndoHistory {
+  record: (entry: Omit<HistoryEntry, 'timestamp'>) => void;
+  undo: () => boolean;
+  redo: () => boolean;
+  clear: () => void;
+}
+
+const MAX_ENTRIES = 100;
+const MERGE_WINDOW_MS = 1000;
+
+export function createUndoHistory(limit: number = MAX_ENTRIES): UndoHistory {
+  let past: HistoryEntry[] = [];
+  let future: HistoryEntry[] = [];
+
+  return {
+    record: (entry) => {
+      const timestamp = Date.now();
+      const last = past[past.length - 1];
+      future = [];
+
+      if (entry.mergeKey && last?.mergeKey === entry.mergeKey && timestamp - last.timestamp < MERGE_WINDOW_MS) {
+        past[past.length - 1] = { ...entry, undo: last.undo, timestamp };
+        return;
+      }
+
+      past.push({ ...entry, timestamp });
+      if (past.length > limit) past.shift();
+    },
+    undo: () => {
+      const entry = past.pop();
+      if (!entry) return false;
+      entry.undo();
+      future.push(entry);
+      return true;
+    },
+    redo: () => {
+      const entry = future.pop();
+      if (!entry) return false;
+      entry.redo();
+      past.push(entry);
+      return true;
+    },
+    clear: () => {
+      past = [];
+      future = [];
+    }
+  };
+}
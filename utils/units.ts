@@ -0,0 +1,115 @@
+import { UnitSettings, UnitSystem } from '../types';
+
+/**
+ * Scale between canvas pixels and SI units. Everything the lab reports (PhysicsState,
+ * graphs, instruments, sensors) is converted here, so changing the scale or the unit
+ * system changes every readout together.
+ */
+export const DEFAULT_PIXELS_PER_METER = 100;
+export const PIXELS_PER_METER_OPTIONS = [25, 50, 100, 200];
+export const STANDARD_GRAVITY = 9.81;
+
+export const DEFAULT_UNIT_SETTINGS: UnitSettings = {
+  pixelsPerMeter: DEFAULT_PIXELS_PER_METER,
+  system: 'si'
+};
+
+const STORAGE_KEY = 'physics-lab-units';
+
+// Matter.js velocities are per 1000/60 ms step, accelerations (force / mass) per ms²
+const STEPS_PER_SECOND = 60;
+const MS2_PER_S2 = 1e6;
+
+export type Quantity = 'length' | 'velocity' | 'acceleration' | 'force' | 'energy' | 'mass' | 'momentum';
+
+const UNITS: Record<UnitSystem, Record<Quantity, { unit: string; factor: number }>> = {
+  si: {
+    length: { unit: 'm', factor: 1 },
+    velocity: { unit: 'm/s', factor: 1 },
+    acceleration: { unit: 'm/s²', factor: 1 },
+    force: { unit: 'N', factor: 1 },
+    energy: { unit: 'J', factor: 1 },
+    mass: { unit: 'kg', factor: 1 },
+    momentum: { unit: 'kg·m/s', factor: 1 }
+  },
+  cgs: {
+    length: { unit: 'cm', factor: 100 },
+    velocity: { unit: 'cm/s', factor: 100 },
+    acceleration: { unit: 'cm/s²', factor: 100 },
+    force: { unit: 'dyn', factor: 1e5 },
+    energy: { unit: 'erg', factor: 1e7 },
+    mass: { unit: 'g', factor: 1000 },
+    momentum: { unit: 'g·cm/s', factor: 1e5 }
+  }
+};
+
+function loadUnitSettings(): UnitSettings {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const saved = raw ? JSON.parse(raw) as Partial<UnitSettings> : {};
+    return {
+      pixelsPerMeter: typeof saved.pixelsPerMeter === 'number' && saved.pixelsPerMeter > 0
+        ? saved.pixelsPerMeter
+        : DEFAULT_PIXELS_PER_METER,
+      system: saved.system === 'cgs' ? 'cgs' : 'si'
+    };
+  } catch {
+    return DEFAULT_UNIT_SETTINGS;
+  }
+}
+
+let current: UnitSettings = loadUnitSettings();
+
+export const getUnitSettings = () => current;
+export const getPixelsPerMeter = () => current.pixelsPerMeter;
+
+/** Makes `settings` the ones every conversion below uses, and remembers them. */
+export function applyUnitSettings(settings: UnitSettings) {
+  current = settings;
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (err) {
+    console.error('Failed to save unit settings:', err);
+  }
+}
+
+export const toMeters = (pixels: number) => pixels / current.pixelsPerMeter;
+export const toPixels = (meters: number) => meters * current.pixelsPerMeter;
+
+/** Matter.js velocity (px per step) to m/s. */
+export const velocityToSI = (pixelsPerStep: number) => toMeters(pixelsPerStep * STEPS_PER_SECOND);
+
+/** m/s to a Matter.js velocity (px per step). */
+export const velocityFromSI = (metersPerSecond: number) => toPixels(metersPerSecond) / STEPS_PER_SECOND;
+
+/** Matter.js force (mass · px/ms²) to newtons. */
+export const forceToSI = (force: number) => toMeters(force * MS2_PER_S2);
+
+/** Newtons to a Matter.js force (mass · px/ms²). */
+export const forceFromSI = (newtons: number) => toPixels(newtons) / MS2_PER_S2;
+
+/**
+ * The engine's gravity.scale (px/ms² per g) that makes 1g fall at 9.81 m/s² under the
+ * current scale.
+ */
+export const engineGravityScale = (pixelsPerMeter: number = current.pixelsPerMeter) =>
+  STANDARD_GRAVITY * pixelsPerMeter / MS2_PER_S2;
+
+export const unitLabel = (quantity: Quantity, system: UnitSystem = current.system) => UNITS[system][quantity].unit;
+
+export const fromSI = (quantity: Quantity, value: number, system: UnitSystem = current.system) =>
+  value * UNITS[system][quantity].factor;
+
+export const toSI = (quantity: Quantity, value: number, system: UnitSystem = current.system) =>
+  value / UNITS[system][quantity].factor;
+
+export const formatQuantity = (quantity: Quantity, value: number, decimals: number = 2, system: UnitSystem = current.system) =>
+  `${fromSI(quantity, value, system).toFixed(decimals)} ${unitLabel(quantity, system)}`;
+
+export const formatLength = (pixels: number) => {
+  const meters = toMeters(pixels);
+  if (current.system === 'cgs' || Math.abs(meters) < 1) return `${(meters * 100).toFixed(1)} cm`;
+  return `${meters.toFixed(2)} m`;
+};
+
+export const formatSeconds = (ms: number) => `${(ms / 1000).toFixed(3)} s`;
@@ -0,0 +1,88 @@
+import { MaterialPairOverride, MaterialPreset } from '../types';
+import { MATERIAL_PRESETS } from '../data/materials';
+
+const STORAGE_KEY = 'physics-lab.userMaterials';
+
+interface UserMaterialStore {
+  materials: Record<string, MaterialPreset>;
+  pairs: MaterialPairOverride[];
+}
+
+const generateKey = () => `user_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 7)}`;
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const isMaterial = (value: unknown): value is MaterialPreset => {
+  const m = value as MaterialPreset;
+  return !!m && typeof m.name === 'string' && typeof m.color === 'string'
+    && isNumber(m.density) && isNumber(m.friction) && isNumber(m.restitution) && isNumber(m.frictionAir);
+};
+
+const isPair = (value: unknown): value is MaterialPairOverride => {
+  const p = value as MaterialPairOverride;
+  return !!p && typeof p.a === 'string' && typeof p.b === 'string' && isNumber(p.friction) && isNumber(p.restitution)
+    && (p.frictionStatic === undefined || isNumber(p.frictionStatic));
+};
+
+function loadStore(): UserMaterialStore {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const saved = raw ? JSON.parse(raw) as Partial<UserMaterialStore> : {};
+    return {
+      materials: Object.fromEntries(Object.entries(saved.materials ?? {}).filter(([, m]) => isMaterial(m))),
+      pairs: Array.isArray(saved.pairs) ? saved.pairs.filter(isPair) : []
+    };
+  } catch {
+    return { materials: {}, pairs: [] };
+  }
+}
+
+let store: UserMaterialStore = loadStore();
+
+function writeStore(next: UserMaterialStore) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+  } catch {
+    throw new Error('Browser storage is full. Delete a few saved scenes or materials and try again.');
+  }
+  store = next;
+}
+
+export const isUserMaterial = (key: string) => key in store.materials;
+
+/** Built-in presets first, then the user's own, as [key, material]. */
+export const listMaterials = (): [string, MaterialPreset][] =>
+  [...Object.entries(MATERIAL_PRESETS), ...Object.entries(store.materials)];
+
+export const findMaterial = (key: string | undefined): MaterialPreset | undefined =>
+  key === undefined ? undefined : MATERIAL_PRESETS[key] ?? store.materials[key];
+
+/** Stores `material` under `key`, or under a new key when there is none. Returns the key. */
+export function saveUserMaterial(material: MaterialPreset, key: string = generateKey()): string {
+  const named = { ...material, name: material.name.trim() || 'Custom material' };
+  writeStore({ ...store, materials: { ...store.materials, [key]: named } });
+  return key;
+}
+
+/** Removes the material and every pair override that mentions it. */
+export function deleteUserMaterial(key: string) {
+  const materials = Object.fromEntries(Object.entries(store.materials).filter(([k]) => k !== key));
+  writeStore({ materials, pairs: store.pairs.filter(p => p.a !== key && p.b !== key) });
+}
+
+const samePair = (pair: MaterialPairOverride, a: string, b: string) =>
+  (pair.a === a && pair.b === b) || (pair.a === b && pair.b === a);
+
+export const getPairOverrides = () => store.pairs;
+
+export const findPairOverride = (a: string | undefined, b: string | undefined) =>
+  a === undefined || b === undefined ? undefined : store.pairs.find(pair => samePair(pair, a, b));
+
+/** Adds the override, replacing any earlier one for the same two materials in either order. */
+export function savePairOverride(override: MaterialPairOverride) {
+  writeStore({ ...store, pairs: [...store.pairs.filter(p => !samePair(p, override.a, override.b)), override] });
+}
+
+export function deletePairOverride(a: string, b: string) {
+  writeStore({ ...store, pairs: store.pairs.filter(p => !samePair(p, a, b)) });
+}
@@ -0,0 +1,67 @@
+import { PhysicsObjectDefinition } from '../types';
+
+const STORAGE_KEY = 'physics-lab.userObjects';
+
+const generateId = () => `custom_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 7)}`;
+
+export const isObjectDefinition = (value: unknown): value is PhysicsObjectDefinition => {
+  const def = value as PhysicsObjectDefinition;
+  return !!def && typeof def.id === 'string' && typeof def.label === 'string'
+    && typeof def.type === 'string' && !!def.options && typeof def.options === 'object';
+};
+
+function loadUserObjects(): PhysicsObjectDefinition[] {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const saved = raw ? JSON.parse(raw) : [];
+    return Array.isArray(saved) ? saved.filter(isObjectDefinition) : [];
+  } catch {
+    return [];
+  }
+}
+
+let objects: PhysicsObjectDefinition[] = loadUserObjects();
+// Definitions scenes still use but the sidebar no longer lists: deleted ones, and ones
+// carried in from scenes saved in another browser
+const retired = new Map<string, PhysicsObjectDefinition>();
+
+function writeUserObjects(next: PhysicsObjectDefinition[]) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+  } catch {
+    throw new Error('Browser storage is full. Delete a few saved scenes or objects and try again.');
+  }
+  objects = next;
+}
+
+/** Objects made in the builder, oldest first; they make up the "My Objects" category. */
+export const listUserObjects = () => objects;
+
+/** A saved object, or one a loaded scene brought along, by id. */
+export const findUserObject = (id: string) => objects.find(obj => obj.id === id) ?? retired.get(id);
+
+/** Makes a scene's copy of an object it was built with resolvable by id for this session. */
+export function rememberUserObject(definition: PhysicsObjectDefinition) {
+  if (!objects.some(obj => obj.id === definition.id)) retired.set(definition.id, definition);
+}
+
+/** Stores `definition` under a new id in the 'custom' category and returns what was stored. */
+export function saveUserObject(definition: Omit<PhysicsObjectDefinition, 'id' | 'category'>): PhysicsObjectDefinition {
+  const label = definition.label.trim() || 'My object';
+  const saved: PhysicsObjectDefinition = {
+    ...definition,
+    id: generateId(),
+    label,
+    category: 'custom',
+    options: { ...definition.options, label }
+  };
+  writeUserObjects([...objects, saved]);
+  return saved;
+}
+
+/** Removes `id` from the sidebar; bodies already placed from it keep working. */
+export function deleteUserObject(id: string) {
+  const deleted = objects.find(obj => obj.id === id);
+  writeUserObjects(objects.filter(obj => obj.id !== id));
+  if (deleted) retired.set(id, deleted);
+}